@@ -0,0 +1,175 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Download, FileText, Paperclip, Trash2 } from 'lucide-react';
+import { useCredentials } from '../contexts/CredentialContext';
+import { ATTACHMENT_QUOTA, AttachmentStorage, MAX_ATTACHMENT_SIZE } from '../utils/attachments';
+import { Attachment, Credential, SharedCredential } from '../types';
+import Modal from './UI/Modal';
+import Button from './UI/Button';
+import toast from 'react-hot-toast';
+
+interface AttachmentsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  credential: Credential | SharedCredential | null;
+  canEdit: boolean;
+}
+
+// Lists, downloads and attaches files for one item. Files are encrypted in
+// the browser with their own key before any chunk is uploaded.
+const AttachmentsModal: React.FC<AttachmentsModalProps> = ({ isOpen, onClose, credential, canEdit }) => {
+  const { addAttachment, removeAttachment } = useCredentials();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [usage, setUsage] = useState<number | null>(null);
+  const [progress, setProgress] = useState<{ fileName: string; uploaded: number; total: number } | null>(null);
+  const [busyAttachmentId, setBusyAttachmentId] = useState<string | null>(null);
+
+  const loadUsage = useCallback(async () => {
+    try {
+      setUsage(await AttachmentStorage.getUsage());
+    } catch (error) {
+      console.error('AttachmentsModal: Load usage error:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      setProgress(null);
+      loadUsage();
+    }
+  }, [isOpen, loadUsage]);
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !credential) return;
+
+    setProgress({ fileName: file.name, uploaded: 0, total: file.size });
+    try {
+      console.log('AttachmentsModal: Uploading attachment...');
+      await addAttachment(credential, file, (uploaded, total) => setProgress({ fileName: file.name, uploaded, total }));
+      toast.success(`${file.name} attached`);
+    } catch (error) {
+      console.error('AttachmentsModal: Upload error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to attach file');
+    } finally {
+      setProgress(null);
+      loadUsage();
+    }
+  };
+
+  const handleDownload = async (attachment: Attachment) => {
+    setBusyAttachmentId(attachment.id);
+    try {
+      await AttachmentStorage.saveToDisk(attachment);
+    } catch (error) {
+      console.error('AttachmentsModal: Download error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to download attachment');
+    } finally {
+      setBusyAttachmentId(null);
+    }
+  };
+
+  const handleRemove = async (attachment: Attachment) => {
+    if (!credential || !window.confirm(`Delete ${attachment.fileName}? This cannot be undone.`)) {
+      return;
+    }
+
+    setBusyAttachmentId(attachment.id);
+    try {
+      await removeAttachment(credential, attachment.id);
+      toast.success(`${attachment.fileName} deleted`);
+    } catch (error) {
+      console.error('AttachmentsModal: Remove error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete attachment');
+    } finally {
+      setBusyAttachmentId(null);
+      loadUsage();
+    }
+  };
+
+  const attachments = credential?.attachments ?? [];
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Attachments · ${credential?.accountName ?? ''}`} size="lg">
+      <div className="space-y-5">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Files are encrypted on this device with a key of their own, kept inside this item. Anyone who can open
+          the item can download them.
+        </p>
+
+        {attachments.length === 0 ? (
+          <p className="text-sm text-center py-6 text-gray-500 dark:text-gray-400">No files attached yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+            {attachments.map(attachment => (
+              <li key={attachment.id} className="flex items-center justify-between px-4 py-3">
+                <div className="flex items-center min-w-0 space-x-3">
+                  <FileText className="w-5 h-5 flex-shrink-0 text-gray-400" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate text-gray-900 dark:text-white">{attachment.fileName}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {AttachmentStorage.formatSize(attachment.size)} · {new Date(attachment.createdAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2 flex-shrink-0">
+                  <button
+                    onClick={() => handleDownload(attachment)}
+                    disabled={busyAttachmentId === attachment.id}
+                    className="p-1 text-blue-600 hover:text-blue-900 disabled:opacity-50 transition-colors"
+                    title="Download and decrypt"
+                  >
+                    <Download className="w-4 h-4" />
+                  </button>
+                  {canEdit && (
+                    <button
+                      onClick={() => handleRemove(attachment)}
+                      disabled={busyAttachmentId === attachment.id}
+                      className="p-1 text-red-600 hover:text-red-900 disabled:opacity-50 transition-colors"
+                      title="Delete attachment"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {progress && (
+          <div>
+            <div className="flex justify-between text-xs mb-1 text-gray-600 dark:text-gray-400">
+              <span className="truncate">Encrypting and uploading {progress.fileName}</span>
+              <span>{Math.round((progress.uploaded / Math.max(progress.total, 1)) * 100)}%</span>
+            </div>
+            <div className="h-1.5 rounded bg-gray-200 dark:bg-gray-700">
+              <div
+                className="h-1.5 rounded bg-blue-600 transition-all"
+                style={{ width: `${(progress.uploaded / Math.max(progress.total, 1)) * 100}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between pt-4 border-t border-gray-200 dark:border-gray-700">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {usage !== null && `${AttachmentStorage.formatSize(usage)} of ${AttachmentStorage.formatSize(ATTACHMENT_QUOTA)} used · `}
+            Up to {AttachmentStorage.formatSize(MAX_ATTACHMENT_SIZE)} per file
+          </p>
+          {canEdit && (
+            <>
+              <input ref={fileInputRef} type="file" className="hidden" onChange={handleFileSelected} />
+              <Button onClick={() => fileInputRef.current?.click()} isLoading={!!progress} className="flex items-center">
+                <Paperclip className="w-4 h-4 mr-2" />
+                Attach File
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default AttachmentsModal;
@@ -1,12 +1,30 @@
-import React, { useState, useEffect } from 'react';
-import { useForm } from 'react-hook-form';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useFieldArray, useForm } from 'react-hook-form';
 import { motion } from 'framer-motion';
-import { Save, Eye, EyeOff, Upload } from 'lucide-react';
-import { Credential } from '../types';
+import { Save, Eye, EyeOff, Upload, Plus, ChevronUp, ChevronDown, X } from 'lucide-react';
+import {
+  ApiToken,
+  Credential,
+  CredentialUri,
+  CustomField,
+  Identity,
+  ItemType,
+  PasswordGeneratorOptions,
+  PaymentCard,
+  WifiNetwork,
+  WifiSecurity
+} from '../types';
+import { PasswordRules } from '../utils/passwordRules';
+import { PaymentCards } from '../utils/paymentCards';
+import { ITEM_TYPES, ItemTypes, WIFI_SECURITY_LABELS } from '../utils/itemTypes';
+import { CUSTOM_FIELD_TYPES, CustomFields } from '../utils/customFields';
+import { URI_MATCH_MODES, UriMatcher } from '../utils/uriMatching';
+import { Tags } from '../utils/tags';
 import Modal from './UI/Modal';
 import Input from './UI/Input';
 import Button from './UI/Button';
 import PasswordGenerator from './PasswordGenerator';
+import PasswordStrengthMeter from './PasswordStrengthMeter';
 import toast from 'react-hot-toast';
 
 interface CredentialFormProps {
@@ -24,9 +42,65 @@ interface FormData {
   recoveryEmail?: string;
   recoveryMobile?: string;
   twoFactorCodes?: string;
+  passwordRules?: string;
+  notes: string;
+  card: PaymentCard;
+  identity: Identity;
+  wifi: WifiNetwork;
+  apiToken: ApiToken;
+  uris: CredentialUri[];
+  customFields: CustomField[];
+  // Comma-separated in the form, a list on the item
+  tags: string;
   icon: string;
 }
 
+const EMPTY_FORM: FormData = {
+  accountName: '',
+  username: '',
+  password: '',
+  recoveryEmail: '',
+  recoveryMobile: '',
+  twoFactorCodes: '',
+  passwordRules: '',
+  notes: '',
+  card: { cardholderName: '', number: '', expiryMonth: '', expiryYear: '', securityCode: '' },
+  identity: {
+    title: '',
+    firstName: '',
+    lastName: '',
+    email: '',
+    phone: '',
+    company: '',
+    address1: '',
+    address2: '',
+    city: '',
+    state: '',
+    postalCode: '',
+    country: ''
+  },
+  wifi: { ssid: '', password: '', security: 'WPA2', hidden: false },
+  apiToken: { token: '', keyId: '', endpoint: '', expiresAt: '' },
+  uris: [],
+  customFields: [],
+  tags: '',
+  icon: '🔐'
+};
+
+const NAME_PLACEHOLDERS: Record<ItemType, string> = {
+  login: 'e.g., Gmail, GitHub, Bank of America',
+  secure_note: 'e.g., Server recovery steps',
+  card: 'e.g., Personal Visa',
+  identity: 'e.g., Home address',
+  wifi: 'e.g., Office Wi-Fi',
+  api_token: 'e.g., Stripe live key'
+};
+
+const EXPIRY_MONTHS = Array.from({ length: 12 }, (_, index) => String(index + 1).padStart(2, '0'));
+
+const TEXTAREA_CLASS = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-500';
+const SELECT_CLASS = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
 const CredentialForm: React.FC<CredentialFormProps> = ({
   isOpen,
   onClose,
@@ -36,29 +110,61 @@ const CredentialForm: React.FC<CredentialFormProps> = ({
 }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [isPasswordGenOpen, setIsPasswordGenOpen] = useState(false);
+  const [generatorMode, setGeneratorMode] = useState<PasswordGeneratorOptions['mode']>('password');
   const [showPassword, setShowPassword] = useState(false);
   const [customIcon, setCustomIcon] = useState<string | null>(null);
+  const [itemType, setItemType] = useState<ItemType>('login');
 
   const {
     register,
+    control,
     handleSubmit,
     setValue,
     watch,
     reset,
     formState: { errors }
   } = useForm<FormData>({
-    defaultValues: {
-      accountName: '',
-      username: '',
-      password: '',
-      recoveryEmail: '',
-      recoveryMobile: '',
-      twoFactorCodes: '',
-      icon: '🔐'
-    }
+    defaultValues: EMPTY_FORM
   });
 
+  const {
+    fields: customFieldRows,
+    append: appendCustomField,
+    remove: removeCustomField,
+    move: moveCustomField
+  } = useFieldArray({ control, name: 'customFields' });
+
+  const {
+    fields: uriRows,
+    append: appendUri,
+    remove: removeUri
+  } = useFieldArray({ control, name: 'uris' });
+
   const watchedPassword = watch('password');
+  const watchedAccountName = watch('accountName');
+  const watchedUsername = watch('username');
+  const watchedPasswordRules = watch('passwordRules');
+  const watchedCardNumber = watch('card.number');
+  const watchedCustomFields = watch('customFields');
+  const watchedUris = watch('uris');
+  const watchedExpiryMonth = watch('card.expiryMonth');
+  const watchedExpiryYear = watch('card.expiryYear');
+  const isLogin = itemType === 'login';
+
+  // Only a rules string that parses becomes the policy; errors show on the field
+  const passwordPolicy = useMemo(() => {
+    const rules = watchedPasswordRules?.trim();
+    return rules && !PasswordRules.getError(rules) ? PasswordRules.parse(rules) : undefined;
+  }, [watchedPasswordRules]);
+
+  const suggestedRules = useMemo(
+    () => PasswordRules.findForAccount(watchedAccountName || ''),
+    [watchedAccountName]
+  );
+
+  const policyProblems = passwordPolicy && watchedPassword
+    ? PasswordRules.validate(watchedPassword, passwordPolicy)
+    : [];
 
   // Clear form when opening for new credential or reset for editing
   useEffect(() => {
@@ -72,20 +178,23 @@ const CredentialForm: React.FC<CredentialFormProps> = ({
           recoveryEmail: credential.recoveryEmail || '',
           recoveryMobile: credential.recoveryMobile || '',
           twoFactorCodes: credential.twoFactorCodes || '',
+          passwordRules: credential.passwordRules || '',
+          notes: credential.notes || '',
+          card: { ...EMPTY_FORM.card, ...credential.card },
+          identity: { ...EMPTY_FORM.identity, ...credential.identity },
+          wifi: { ...EMPTY_FORM.wifi, ...credential.wifi },
+          apiToken: { ...EMPTY_FORM.apiToken, ...credential.apiToken },
+          uris: credential.uris?.map(entry => ({ ...entry })) || [],
+          customFields: credential.customFields?.map(field => ({ ...field })) || [],
+          tags: Tags.format(credential.tags),
           icon: credential.icon || '🔐'
         });
+        setItemType(ItemTypes.getType(credential));
         setCustomIcon(credential.icon?.startsWith('data:') ? credential.icon : null);
       } else {
         // Adding new credential - clear everything
-        reset({
-          accountName: '',
-          username: '',
-          password: '',
-          recoveryEmail: '',
-          recoveryMobile: '',
-          twoFactorCodes: '',
-          icon: '🔐'
-        });
+        reset(EMPTY_FORM);
+        setItemType('login');
         setCustomIcon(null);
       }
     }
@@ -94,13 +203,24 @@ const CredentialForm: React.FC<CredentialFormProps> = ({
   const onSubmit = async (data: FormData) => {
     setIsLoading(true);
     try {
+      // Only the fields of the chosen type are saved
       await onSave({
+        type: itemType,
         accountName: data.accountName,
-        username: data.username,
-        password: data.password,
-        recoveryEmail: data.recoveryEmail,
-        recoveryMobile: data.recoveryMobile,
-        twoFactorCodes: data.twoFactorCodes,
+        username: isLogin ? data.username : '',
+        password: isLogin ? data.password : '',
+        recoveryEmail: isLogin ? data.recoveryEmail : undefined,
+        recoveryMobile: isLogin ? data.recoveryMobile : undefined,
+        twoFactorCodes: isLogin ? data.twoFactorCodes : undefined,
+        passwordRules: isLogin ? data.passwordRules?.trim() || '' : undefined,
+        uris: isLogin ? data.uris.map(entry => ({ ...entry, uri: entry.uri.trim() })).filter(entry => entry.uri) : undefined,
+        notes: data.notes,
+        card: itemType === 'card' ? { ...data.card, number: PaymentCards.normalizeNumber(data.card.number) } : undefined,
+        identity: itemType === 'identity' ? data.identity : undefined,
+        wifi: itemType === 'wifi' ? data.wifi : undefined,
+        apiToken: itemType === 'api_token' ? data.apiToken : undefined,
+        customFields: CustomFields.normalize(data.customFields),
+        tags: Tags.parse(data.tags),
         icon: customIcon || data.icon
       });
       
@@ -113,11 +233,19 @@ const CredentialForm: React.FC<CredentialFormProps> = ({
     }
   };
 
-  const handlePasswordGenerated = (password: string) => {
-    setValue('password', password);
+  const handlePasswordGenerated = (password: string, options: PasswordGeneratorOptions) => {
+    setValue(itemType === 'wifi' ? 'wifi.password' : 'password', password);
+    setGeneratorMode(options.mode);
     setIsPasswordGenOpen(false);
   };
 
+  const handleTypeChange = (type: ItemType) => {
+    setItemType(type);
+    if (!customIcon) {
+      setValue('icon', ItemTypes.getDefaultIcon(type));
+    }
+  };
+
   const handleIconUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
@@ -141,10 +269,31 @@ const CredentialForm: React.FC<CredentialFormProps> = ({
       <Modal 
         isOpen={isOpen} 
         onClose={onClose} 
-        title={isEditing ? 'Edit Credential' : 'Add New Credential'}
+        title={isEditing ? `Edit ${ItemTypes.getLabel(itemType)}` : `Add New ${ItemTypes.getLabel(itemType)}`}
         size="lg"
       >
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+          {/* Item type, fixed once saved */}
+          {!isEditing && (
+            <div className="grid grid-cols-3 gap-2">
+              {ITEM_TYPES.map(({ type, label, icon }) => (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => handleTypeChange(type)}
+                  className={`px-3 py-2 text-sm rounded-lg border transition-colors ${
+                    itemType === type
+                      ? 'border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-300'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  <span className="mr-1">{icon}</span>
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* Icon Selection - Only Custom Upload */}
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -180,90 +329,474 @@ const CredentialForm: React.FC<CredentialFormProps> = ({
 
           {/* Account Name */}
           <Input
-            label="Account Name"
-            {...register('accountName', { required: 'Account name is required' })}
+            label={isLogin ? 'Account Name' : 'Name'}
+            {...register('accountName', { required: `${isLogin ? 'Account name' : 'Name'} is required` })}
             error={errors.accountName?.message}
-            placeholder="e.g., Gmail, GitHub, Bank of America"
+            placeholder={NAME_PLACEHOLDERS[itemType]}
           />
 
-          {/* Username */}
-          <Input
-            label="Username/Email"
-            {...register('username', { required: 'Username is required' })}
-            error={errors.username?.message}
-            placeholder="your.email@example.com"
-          />
+          {isLogin && (
+            <>
+              {/* Username */}
+              <Input
+                label="Username/Email"
+                {...register('username', { required: isLogin && 'Username is required' })}
+                error={errors.username?.message}
+                placeholder="your.email@example.com"
+              />
 
-          {/* Password */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-              Password
-            </label>
-            <div className="flex space-x-2">
-              <div className="flex-1 relative">
-                <input
-                  type={showPassword ? 'text' : 'password'}
-                  {...register('password', { required: 'Password is required' })}
-                  className="w-full px-3 py-2 pr-10 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-                  placeholder="Enter password"
+              {/* Password */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Password
+                </label>
+                <div className="flex space-x-2">
+                  <div className="flex-1 relative">
+                    <input
+                      type={showPassword ? 'text' : 'password'}
+                      {...register('password', { required: isLogin && 'Password is required' })}
+                      className="w-full px-3 py-2 pr-10 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                      placeholder="Enter password"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowPassword(!showPassword)}
+                      className="absolute inset-y-0 right-0 pr-3 flex items-center text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                    >
+                      {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                    </button>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setIsPasswordGenOpen(true)}
+                    className="px-4 py-2 whitespace-nowrap text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700"
+                  >
+                    Generate
+                  </Button>
+                </div>
+                {errors.password && (
+                  <p className="text-sm text-red-600 dark:text-red-400 mt-1">{errors.password.message}</p>
+                )}
+                {watchedPassword && (
+                  <div className="mt-2">
+                    <PasswordStrengthMeter
+                      password={watchedPassword}
+                      userInputs={[watchedAccountName, watchedUsername]}
+                    />
+                  </div>
+                )}
+                {policyProblems.length > 0 && (
+                  <ul className="mt-1 space-y-0.5">
+                    {policyProblems.map(problem => (
+                      <li key={problem} className="text-sm text-amber-600 dark:text-amber-400">{problem}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {/* Password Rules */}
+              <div>
+                <Input
+                  label="Password Rules (Optional)"
+                  {...register('passwordRules', {
+                    validate: value => (isLogin && value?.trim() ? PasswordRules.getError(value) : null) ?? true
+                  })}
+                  error={errors.passwordRules?.message}
+                  placeholder="minlength: 12; maxlength: 32; required: lower; required: upper; required: digit;"
+                  className="font-mono text-sm"
                 />
-                <button
-                  type="button"
-                  onClick={() => setShowPassword(!showPassword)}
-                  className="absolute inset-y-0 right-0 pr-3 flex items-center text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
-                >
-                  {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-                </button>
+                <div className="flex items-center justify-between mt-1">
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Uses the Apple password-rules format. The generator follows these rules.
+                  </p>
+                  {suggestedRules && watchedPasswordRules?.trim() !== suggestedRules.rules && (
+                    <button
+                      type="button"
+                      onClick={() => setValue('passwordRules', suggestedRules.rules, { shouldValidate: true })}
+                      className="text-xs text-blue-600 dark:text-blue-400 hover:underline whitespace-nowrap ml-2"
+                    >
+                      Use rules for {suggestedRules.domain}
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {/* Websites */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Websites
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => appendUri({ uri: '', match: 'base_domain' })}
+                    className="flex items-center space-x-1 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    <Plus className="w-4 h-4" />
+                    <span>Add Website</span>
+                  </button>
+                </div>
+                {uriRows.map((row, index) => {
+                  const isRegex = (watchedUris?.[index]?.match ?? row.match) === 'regex';
+                  return (
+                    <div key={row.id} className="flex items-start space-x-2">
+                      <div className="flex-1">
+                        <Input
+                          {...register(`uris.${index}.uri`, {
+                            validate: value => !isLogin || !isRegex || UriMatcher.isValidRegex(value) || 'Invalid regular expression'
+                          })}
+                          error={errors.uris?.[index]?.uri?.message}
+                          placeholder={isRegex ? '^https://(www\\.)?example\\.com/' : 'https://example.com/login'}
+                          autoComplete="off"
+                          className={isRegex ? 'font-mono text-sm' : ''}
+                        />
+                      </div>
+                      <div className="w-40">
+                        <select {...register(`uris.${index}.match`)} className={SELECT_CLASS}>
+                          {URI_MATCH_MODES.map(option => (
+                            <option key={option.match} value={option.match}>{option.label}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => removeUri(index)}
+                        className="p-1 mt-1.5 text-gray-400 hover:text-red-600"
+                        title="Remove website"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  );
+                })}
+                {uriRows.length > 0 && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Base domain matches any subdomain of the site; host also requires the same port.
+                  </p>
+                )}
               </div>
-              <Button
-                type="button"
-                variant="outline"
-                onClick={() => setIsPasswordGenOpen(true)}
-                className="px-4 py-2 whitespace-nowrap text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700"
-              >
-                Generate
-              </Button>
-            </div>
-            {errors.password && (
-              <p className="text-sm text-red-600 dark:text-red-400 mt-1">{errors.password.message}</p>
-            )}
-          </div>
 
-          {/* Optional Fields */}
-          <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
-            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
-              Recovery Information (Optional)
-            </h3>
+              {/* Optional Fields */}
+              <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
+                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                  Recovery Information (Optional)
+                </h3>
             
+                <div className="space-y-4">
+                  <Input
+                    label="Recovery Email"
+                    type="email"
+                    {...register('recoveryEmail')}
+                    placeholder="backup@example.com"
+                  />
+
+                  <Input
+                    label="Recovery Mobile"
+                    type="tel"
+                    {...register('recoveryMobile')}
+                    placeholder="+1 (555) 123-4567"
+                  />
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      2FA Backup Codes
+                    </label>
+                    <textarea
+                      {...register('twoFactorCodes')}
+                      rows={3}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-500"
+                      placeholder="Enter backup codes separated by commas or new lines"
+                    />
+                  </div>
+                </div>
+              </div>
+            </>
+          )}
+
+          {itemType === 'secure_note' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Note
+              </label>
+              <textarea
+                {...register('notes', { required: itemType === 'secure_note' && 'Note is required' })}
+                rows={8}
+                className={TEXTAREA_CLASS}
+                placeholder="Anything you want to keep encrypted"
+              />
+              {errors.notes && (
+                <p className="text-sm text-red-600 dark:text-red-400 mt-1">{errors.notes.message}</p>
+              )}
+            </div>
+          )}
+
+          {itemType === 'card' && (
             <div className="space-y-4">
               <Input
-                label="Recovery Email"
-                type="email"
-                {...register('recoveryEmail')}
-                placeholder="backup@example.com"
+                label="Cardholder Name"
+                {...register('card.cardholderName', { required: itemType === 'card' && 'Cardholder name is required' })}
+                error={errors.card?.cardholderName?.message}
+                placeholder="Name as printed on the card"
+                autoComplete="off"
               />
+              <div>
+                <Input
+                  label="Card Number"
+                  {...register('card.number', {
+                    validate: value => itemType !== 'card' || PaymentCards.isValidNumber(value) || 'Card number is invalid'
+                  })}
+                  error={errors.card?.number?.message}
+                  placeholder="1234 5678 9012 3456"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  className="font-mono"
+                />
+                {PaymentCards.getBrand(watchedCardNumber) && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{PaymentCards.getBrand(watchedCardNumber)}</p>
+                )}
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Expiry Month
+                  </label>
+                  <select
+                    {...register('card.expiryMonth', {
+                      validate: value => itemType !== 'card' || (PaymentCards.getExpiryError(value, watchedExpiryYear) ?? true)
+                    })}
+                    className={SELECT_CLASS}
+                  >
+                    <option value="">MM</option>
+                    {EXPIRY_MONTHS.map(month => (
+                      <option key={month} value={month}>{month}</option>
+                    ))}
+                  </select>
+                </div>
+                <Input
+                  label="Expiry Year"
+                  {...register('card.expiryYear')}
+                  placeholder="YYYY"
+                  inputMode="numeric"
+                  maxLength={4}
+                />
+                <Input
+                  label="Security Code"
+                  type="password"
+                  {...register('card.securityCode', {
+                    pattern: { value: /^\d{3,4}$/, message: 'Security code must be 3 or 4 digits' }
+                  })}
+                  placeholder="CVC"
+                  inputMode="numeric"
+                  maxLength={4}
+                  autoComplete="off"
+                />
+              </div>
+              {errors.card?.expiryMonth && (
+                <p className="text-sm text-red-600 dark:text-red-400">{errors.card.expiryMonth.message}</p>
+              )}
+              {errors.card?.securityCode && (
+                <p className="text-sm text-red-600 dark:text-red-400">{errors.card.securityCode.message}</p>
+              )}
+              {PaymentCards.isExpired(watchedExpiryMonth, watchedExpiryYear) && (
+                <p className="text-sm text-amber-600 dark:text-amber-400">This card has expired.</p>
+              )}
+            </div>
+          )}
+
+          {itemType === 'identity' && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <Input label="Title" {...register('identity.title')} placeholder="Dr." />
+                <Input
+                  label="First Name"
+                  {...register('identity.firstName', { required: itemType === 'identity' && 'First name is required' })}
+                  error={errors.identity?.firstName?.message}
+                />
+                <Input label="Last Name" {...register('identity.lastName')} />
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <Input label="Email" type="email" {...register('identity.email')} placeholder="name@example.com" />
+                <Input label="Phone" type="tel" {...register('identity.phone')} placeholder="+1 (555) 123-4567" />
+              </div>
+              <Input label="Company" {...register('identity.company')} />
+              <Input label="Address Line 1" {...register('identity.address1')} />
+              <Input label="Address Line 2" {...register('identity.address2')} />
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <Input label="City" {...register('identity.city')} />
+                <Input label="State / Region" {...register('identity.state')} />
+                <Input label="Postal Code" {...register('identity.postalCode')} />
+                <Input label="Country" {...register('identity.country')} />
+              </div>
+            </div>
+          )}
 
+          {itemType === 'wifi' && (
+            <div className="space-y-4">
               <Input
-                label="Recovery Mobile"
-                type="tel"
-                {...register('recoveryMobile')}
-                placeholder="+1 (555) 123-4567"
+                label="Network Name (SSID)"
+                {...register('wifi.ssid', { required: itemType === 'wifi' && 'Network name is required' })}
+                error={errors.wifi?.ssid?.message}
+                placeholder="MyNetwork"
               />
-
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                  2FA Backup Codes
+                  Security
                 </label>
-                <textarea
-                  {...register('twoFactorCodes')}
-                  rows={3}
-                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-500"
-                  placeholder="Enter backup codes separated by commas or new lines"
-                />
+                <select {...register('wifi.security')} className={SELECT_CLASS}>
+                  {(Object.keys(WIFI_SECURITY_LABELS) as WifiSecurity[]).map(security => (
+                    <option key={security} value={security}>{WIFI_SECURITY_LABELS[security]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex space-x-2 items-end">
+                <div className="flex-1">
+                  <Input
+                    label="Password"
+                    {...register('wifi.password')}
+                    placeholder="Network password"
+                    showPasswordToggle
+                    autoComplete="off"
+                  />
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsPasswordGenOpen(true)}
+                  className="px-4 py-2 whitespace-nowrap text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  Generate
+                </Button>
               </div>
+              <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                <input type="checkbox" {...register('wifi.hidden')} className="rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+                <span>Hidden network</span>
+              </label>
+            </div>
+          )}
+
+          {itemType === 'api_token' && (
+            <div className="space-y-4">
+              <Input
+                label="Token"
+                {...register('apiToken.token', { required: itemType === 'api_token' && 'Token is required' })}
+                error={errors.apiToken?.token?.message}
+                placeholder="sk_live_..."
+                showPasswordToggle
+                autoComplete="off"
+                className="font-mono text-sm"
+              />
+              <Input label="Key ID (Optional)" {...register('apiToken.keyId')} placeholder="Public key or client ID" />
+              <Input label="Endpoint (Optional)" type="url" {...register('apiToken.endpoint')} placeholder="https://api.example.com" />
+              <Input label="Expires (Optional)" type="date" {...register('apiToken.expiresAt')} />
             </div>
+          )}
+
+          {/* Tags */}
+          <Input
+            label="Tags (Optional)"
+            {...register('tags')}
+            placeholder="work, finance, shared with family"
+            autoComplete="off"
+          />
+
+          {/* Custom Fields */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Custom Fields
+              </label>
+              <button
+                type="button"
+                onClick={() => appendCustomField(CustomFields.create())}
+                className="flex items-center space-x-1 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Add Field</span>
+              </button>
+            </div>
+            {customFieldRows.map((row, index) => {
+              const fieldType = watchedCustomFields?.[index]?.type ?? row.type;
+              const valueName = `customFields.${index}.value` as const;
+              return (
+                <div key={row.id} className="p-3 space-y-2 border border-gray-200 dark:border-gray-700 rounded-lg">
+                  <div className="flex items-start space-x-2">
+                    <div className="flex-1">
+                      <Input
+                        {...register(`customFields.${index}.name`)}
+                        placeholder="Field name"
+                        autoComplete="off"
+                      />
+                    </div>
+                    <div className="w-32">
+                      <select {...register(`customFields.${index}.type`)} className={SELECT_CLASS}>
+                        {CUSTOM_FIELD_TYPES.map(option => (
+                          <option key={option.type} value={option.type}>{option.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="flex items-center pt-1.5">
+                      <button
+                        type="button"
+                        onClick={() => moveCustomField(index, index - 1)}
+                        disabled={index === 0}
+                        className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 disabled:opacity-30"
+                        title="Move up"
+                      >
+                        <ChevronUp className="w-4 h-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => moveCustomField(index, index + 1)}
+                        disabled={index === customFieldRows.length - 1}
+                        className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 disabled:opacity-30"
+                        title="Move down"
+                      >
+                        <ChevronDown className="w-4 h-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => removeCustomField(index)}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        title="Remove field"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                  {fieldType === 'boolean' ? (
+                    <select {...register(valueName)} className={SELECT_CLASS}>
+                      <option value="true">Yes</option>
+                      <option value="false">No</option>
+                    </select>
+                  ) : (
+                    <Input
+                      {...register(valueName)}
+                      type={fieldType === 'date' || fieldType === 'url' ? fieldType : 'text'}
+                      placeholder={fieldType === 'url' ? 'https://' : 'Value'}
+                      showPasswordToggle={fieldType === 'hidden'}
+                      autoComplete="off"
+                    />
+                  )}
+                </div>
+              );
+            })}
           </div>
 
+          {itemType !== 'secure_note' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Notes (Optional)
+              </label>
+              <textarea
+                {...register('notes')}
+                rows={3}
+                className={TEXTAREA_CLASS}
+                placeholder="Encrypted along with the rest of the item"
+              />
+            </div>
+          )}
+
           {/* Actions */}
           <div className="flex space-x-3 pt-4 border-t border-gray-200 dark:border-gray-700">
             <Button
@@ -280,7 +813,7 @@ const CredentialForm: React.FC<CredentialFormProps> = ({
               className="flex-1"
             >
               <Save className="w-4 h-4 mr-2" />
-              {isEditing ? 'Update' : 'Save'} Credential
+              {isEditing ? 'Update' : 'Save'} {ItemTypes.getLabel(itemType)}
             </Button>
           </div>
         </form>
@@ -290,6 +823,9 @@ const CredentialForm: React.FC<CredentialFormProps> = ({
         isOpen={isPasswordGenOpen}
         onClose={() => setIsPasswordGenOpen(false)}
         onPasswordGenerated={handlePasswordGenerated}
+        initialMode={generatorMode}
+        policy={passwordPolicy}
+        accountName={watchedAccountName}
       />
     </>
   );
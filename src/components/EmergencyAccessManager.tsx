@@ -0,0 +1,498 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ArrowLeft, Copy, Eye, EyeOff, HeartPulse, UserPlus } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { DatabaseService } from '../utils/database';
+import { CryptoUtils } from '../utils/crypto';
+import { ItemTypes } from '../utils/itemTypes';
+import { Credential, EmergencyAccess } from '../types';
+import Input from './UI/Input';
+import Button from './UI/Button';
+import toast from 'react-hot-toast';
+
+const WAIT_DAYS = [1, 3, 7, 14, 30];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// When a pending request turns into access unless the owner denies it
+const getAvailableAt = (access: EmergencyAccess) =>
+  access.recoveryInitiatedAt ? new Date(access.recoveryInitiatedAt).getTime() + access.waitDays * DAY_MS : null;
+
+const isGranted = (access: EmergencyAccess) => {
+  const availableAt = getAvailableAt(access);
+  return access.status === 'recovery_approved' ||
+    (access.status === 'recovery_requested' && availableAt !== null && availableAt <= Date.now());
+};
+
+const describeStatus = (access: EmergencyAccess, isGrantor: boolean): string => {
+  const availableAt = getAvailableAt(access);
+  switch (access.status) {
+    case 'invited':
+      return isGrantor ? 'Invitation sent' : 'Wants you as an emergency contact';
+    case 'accepted':
+      return isGrantor ? 'Accepted · confirm their key' : 'Waiting for the owner to confirm';
+    case 'confirmed':
+      return `Confirmed · ${access.waitDays}-day wait`;
+    case 'recovery_requested':
+      if (isGranted(access)) return 'Access granted';
+      return `Access requested · granted ${availableAt ? new Date(availableAt).toLocaleString() : 'later'} unless denied`;
+    case 'recovery_approved':
+      return 'Access granted';
+  }
+};
+
+// Settings panel for both sides of emergency access: contacts this user
+// trusts with their vault, and vaults other users trust this user with
+const EmergencyAccessManager: React.FC = () => {
+  const { user, vaultKey, verifyMonoKey, setMonoKey } = useAuth();
+  const [entries, setEntries] = useState<EmergencyAccess[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [unlockMonoKey, setUnlockMonoKey] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [contactEmail, setContactEmail] = useState('');
+  const [waitDays, setWaitDays] = useState(7);
+  const [isInviting, setIsInviting] = useState(false);
+  const [ownFingerprint, setOwnFingerprint] = useState<string | null>(null);
+  const [confirming, setConfirming] = useState<{ access: EmergencyAccess; fingerprint: string } | null>(null);
+  const [openVault, setOpenVault] = useState<{ access: EmergencyAccess; credentials: Credential[] } | null>(null);
+  const [revealedIds, setRevealedIds] = useState<Set<string>>(new Set());
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setEntries(await DatabaseService.getEmergencyAccess());
+    } catch (error) {
+      console.error('EmergencyAccessManager: Load error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load emergency access');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  useEffect(() => {
+    if (!user) return;
+    DatabaseService.getPublicKey(user.id)
+      .then(publicKey => (publicKey ? CryptoUtils.getPublicKeyFingerprint(publicKey) : null))
+      .then(setOwnFingerprint)
+      .catch(error => console.error('EmergencyAccessManager: Fingerprint error:', error));
+  }, [user, vaultKey]);
+
+  const contacts = entries.filter(entry => entry.grantorId === user?.id);
+  const trustedBy = entries.filter(entry => entry.grantorId !== user?.id);
+
+  // Runs one action against a row, then reloads the list
+  const runAction = async (accessId: string, action: () => Promise<void>, successMessage: string) => {
+    setBusyId(accessId);
+    try {
+      await action();
+      toast.success(successMessage);
+      await loadEntries();
+    } catch (error) {
+      console.error('EmergencyAccessManager: Action error:', error);
+      toast.error(error instanceof Error ? error.message : 'Emergency access action failed');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleUnlock = async () => {
+    setIsUnlocking(true);
+    try {
+      if (!(await verifyMonoKey(unlockMonoKey))) {
+        toast.error('MonoKey is incorrect');
+        return;
+      }
+      await setMonoKey(unlockMonoKey);
+      setUnlockMonoKey('');
+    } catch (error) {
+      console.error('EmergencyAccessManager: Unlock error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to unlock vault');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsInviting(true);
+    try {
+      console.log('EmergencyAccessManager: Inviting emergency contact...');
+      await DatabaseService.inviteEmergencyContact(contactEmail.trim(), waitDays);
+      toast.success('Emergency contact invited');
+      setContactEmail('');
+      await loadEntries();
+    } catch (error) {
+      console.error('EmergencyAccessManager: Invite error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add emergency contact');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const startConfirm = async (access: EmergencyAccess) => {
+    setBusyId(access.id);
+    try {
+      const publicKey = access.granteeId ? await DatabaseService.getPublicKey(access.granteeId) : null;
+      if (!publicKey) {
+        toast.error('This contact has no key yet. Ask them to unlock their vault once.');
+        return;
+      }
+      setConfirming({ access, fingerprint: await CryptoUtils.getPublicKeyFingerprint(publicKey) });
+    } catch (error) {
+      console.error('EmergencyAccessManager: Fingerprint error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to fetch contact key');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!confirming || !vaultKey) return;
+    const { access } = confirming;
+    setConfirming(null);
+    await runAction(access.id, () => DatabaseService.confirmEmergencyAccess(access, vaultKey), 'Emergency contact confirmed');
+  };
+
+  const handleRemove = async (access: EmergencyAccess) => {
+    const name = access.grantorId === user?.id ? access.granteeEmail : access.grantorEmail;
+    if (!window.confirm(`Remove emergency access with ${name}?`)) return;
+    await runAction(access.id, () => DatabaseService.removeEmergencyAccess(access.id), 'Emergency access removed');
+  };
+
+  const handleRequest = async (access: EmergencyAccess) => {
+    if (!window.confirm(`Request access to ${access.grantorEmail}'s vault? They will have ${access.waitDays} ${access.waitDays === 1 ? 'day' : 'days'} to deny it.`)) {
+      return;
+    }
+    await runAction(access.id, () => DatabaseService.requestEmergencyAccess(access.id), 'Emergency access requested');
+  };
+
+  const handleViewVault = async (access: EmergencyAccess) => {
+    if (!vaultKey) return;
+    setBusyId(access.id);
+    try {
+      console.log('EmergencyAccessManager: Opening emergency vault...');
+      const credentials = await DatabaseService.getEmergencyVault(access, vaultKey);
+      setRevealedIds(new Set());
+      setOpenVault({ access, credentials });
+    } catch (error) {
+      console.error('EmergencyAccessManager: Open vault error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to open vault');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const toggleReveal = (id: string) => {
+    setRevealedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleCopy = async (value: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      toast.success(`${label} copied to clipboard`);
+    } catch (error) {
+      console.error('EmergencyAccessManager: Copy failed:', error);
+      toast.error(`Failed to copy ${label.toLowerCase()}`);
+    }
+  };
+
+  if (openVault) {
+    return (
+      <div className="space-y-4">
+        <button
+          type="button"
+          onClick={() => setOpenVault(null)}
+          className="flex items-center text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back
+        </button>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{openVault.access.grantorEmail}</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-300">Read-only emergency access</p>
+        </div>
+
+        {openVault.credentials.length === 0 ? (
+          <p className="text-sm text-center text-gray-500 dark:text-gray-400 py-8">This vault is empty.</p>
+        ) : (
+          <ul className="max-h-96 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700">
+            {openVault.credentials.map(credential => {
+              const fields = ItemTypes.getFields(credential);
+              const plain = fields.find(field => !field.secret);
+              const secret = fields.find(field => field.secret);
+              return (
+                <li key={credential.id} className="py-3 space-y-1">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">
+                    {credential.icon} {credential.accountName}
+                  </p>
+                  <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-300">
+                    <span className="truncate">{ItemTypes.getSummary(credential)}</span>
+                    {plain && (
+                      <button
+                        type="button"
+                        onClick={() => handleCopy(plain.value, plain.label)}
+                        className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                        title={`Copy ${plain.label.toLowerCase()}`}
+                      >
+                        <Copy className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                  {secret && (
+                    <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-300">
+                      <span className="font-mono truncate">
+                        {revealedIds.has(credential.id) ? secret.value : '••••••••'}
+                      </span>
+                      <div className="flex items-center">
+                        <button
+                          type="button"
+                          onClick={() => toggleReveal(credential.id)}
+                          className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                          title={revealedIds.has(credential.id) ? `Hide ${secret.label.toLowerCase()}` : `Show ${secret.label.toLowerCase()}`}
+                        >
+                          {revealedIds.has(credential.id) ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleCopy(secret.value, secret.label)}
+                          className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                          title={`Copy ${secret.label.toLowerCase()}`}
+                        >
+                          <Copy className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <div className="w-16 h-16 bg-blue-100 dark:bg-blue-900/20 rounded-full flex items-center justify-center mx-auto mb-4">
+          <HeartPulse className="w-8 h-8 text-blue-600 dark:text-blue-400" />
+        </div>
+        <p className="text-gray-600 dark:text-gray-300">
+          An emergency contact can request read-only access to your vault. If you do not deny the request within the waiting period, they get it.
+        </p>
+      </div>
+
+      {!vaultKey && (
+        <div className="space-y-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-700 rounded-lg p-4">
+          <p className="text-sm text-yellow-800 dark:text-yellow-200">
+            Unlock your vault to accept, confirm or open emergency access.
+          </p>
+          <Input
+            type="password"
+            value={unlockMonoKey}
+            onChange={(e) => setUnlockMonoKey(e.target.value)}
+            placeholder="Enter your MonoKey"
+            showPasswordToggle
+          />
+          <Button size="sm" onClick={handleUnlock} disabled={!unlockMonoKey} isLoading={isUnlocking} className="w-full">
+            Unlock
+          </Button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <>
+          <div className="space-y-3">
+            <h4 className="text-sm font-semibold text-gray-900 dark:text-white">Your Emergency Contacts</h4>
+
+            {contacts.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No emergency contacts yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                {contacts.map(access => (
+                  <li key={access.id} className="py-3 space-y-2">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{access.granteeEmail}</p>
+                      <p className="text-xs text-gray-600 dark:text-gray-300">{describeStatus(access, true)}</p>
+                    </div>
+
+                    {confirming?.access.id === access.id ? (
+                      <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-3 space-y-2">
+                        <p className="text-xs text-gray-600 dark:text-gray-300">
+                          Check with {access.granteeEmail} that their key fingerprint matches:
+                        </p>
+                        <code className="block font-mono text-sm text-gray-900 dark:text-white">{confirming.fingerprint}</code>
+                        <div className="flex space-x-2">
+                          <Button variant="outline" size="sm" onClick={() => setConfirming(null)} className="flex-1">
+                            Cancel
+                          </Button>
+                          <Button size="sm" onClick={handleConfirm} className="flex-1">
+                            It Matches
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="flex flex-wrap gap-2">
+                        {access.status === 'accepted' && (
+                          <Button
+                            size="sm"
+                            onClick={() => startConfirm(access)}
+                            disabled={!vaultKey}
+                            isLoading={busyId === access.id}
+                          >
+                            Confirm
+                          </Button>
+                        )}
+                        {access.status === 'recovery_requested' && (
+                          <Button
+                            size="sm"
+                            onClick={() => runAction(access.id, () => DatabaseService.approveEmergencyAccess(access.id), 'Emergency access approved')}
+                            isLoading={busyId === access.id}
+                          >
+                            Approve Now
+                          </Button>
+                        )}
+                        {(access.status === 'recovery_requested' || access.status === 'recovery_approved') && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => runAction(access.id, () => DatabaseService.denyEmergencyAccess(access.id), 'Emergency access denied')}
+                            disabled={busyId === access.id}
+                            className="text-red-600 border-red-300 hover:bg-red-50 dark:text-red-400 dark:border-red-700 dark:hover:bg-red-900/20"
+                          >
+                            {isGranted(access) ? 'Revoke Access' : 'Deny'}
+                          </Button>
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRemove(access)}
+                          disabled={busyId === access.id}
+                        >
+                          Remove
+                        </Button>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <form onSubmit={handleInvite} className="space-y-3 pt-2">
+              <Input
+                label="Contact Email"
+                type="email"
+                value={contactEmail}
+                onChange={(e) => setContactEmail(e.target.value)}
+                placeholder="someone@example.com"
+                required
+              />
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Waiting period
+                </label>
+                <div className="grid grid-cols-5 gap-2">
+                  {WAIT_DAYS.map(days => (
+                    <button
+                      key={days}
+                      type="button"
+                      onClick={() => setWaitDays(days)}
+                      className={`px-3 py-2 text-sm rounded-lg border transition-colors ${
+                        waitDays === days
+                          ? 'border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-300'
+                          : 'border-gray-300 text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700'
+                      }`}
+                    >
+                      {days} {days === 1 ? 'day' : 'days'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <Button type="submit" size="sm" disabled={!contactEmail.trim()} isLoading={isInviting} className="w-full">
+                <UserPlus className="w-4 h-4 mr-2" />
+                Add Emergency Contact
+              </Button>
+            </form>
+          </div>
+
+          <div className="space-y-3 border-t border-gray-200 dark:border-gray-700 pt-6">
+            <h4 className="text-sm font-semibold text-gray-900 dark:text-white">People Who Trust You</h4>
+            {ownFingerprint && (
+              <p className="text-xs text-gray-600 dark:text-gray-300">
+                Your key fingerprint: <code className="font-mono">{ownFingerprint}</code>
+              </p>
+            )}
+
+            {trustedBy.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Nobody has added you as an emergency contact.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                {trustedBy.map(access => (
+                  <li key={access.id} className="py-3 space-y-2">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{access.grantorEmail}</p>
+                      <p className="text-xs text-gray-600 dark:text-gray-300">{describeStatus(access, false)}</p>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {access.status === 'invited' && (
+                        <Button
+                          size="sm"
+                          onClick={() => vaultKey && runAction(access.id, () => DatabaseService.acceptEmergencyAccess(access.id, vaultKey), 'Invitation accepted')}
+                          disabled={!vaultKey}
+                          isLoading={busyId === access.id}
+                        >
+                          Accept
+                        </Button>
+                      )}
+                      {access.status === 'confirmed' && (
+                        <Button size="sm" onClick={() => handleRequest(access)} isLoading={busyId === access.id}>
+                          Request Access
+                        </Button>
+                      )}
+                      {isGranted(access) && (
+                        <Button
+                          size="sm"
+                          onClick={() => handleViewVault(access)}
+                          disabled={!vaultKey}
+                          isLoading={busyId === access.id}
+                        >
+                          <Eye className="w-4 h-4 mr-2" />
+                          View Vault
+                        </Button>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRemove(access)}
+                        disabled={busyId === access.id}
+                      >
+                        {access.status === 'invited' ? 'Decline' : 'Remove'}
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default EmergencyAccessManager;
@@ -0,0 +1,254 @@
+import React, { useState } from 'react';
+import { LifeBuoy } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { CryptoUtils } from '../utils/crypto';
+import { CryptoWorker } from '../utils/cryptoWorker';
+import { DatabaseService } from '../utils/database';
+import { PasswordStrength } from '../utils/passwordStrength';
+import { RecoveryShares } from '../utils/recoveryShares';
+import Input from './UI/Input';
+import Button from './UI/Button';
+import PasswordStrengthMeter from './PasswordStrengthMeter';
+import RecoveryKeySheet from './RecoveryKeySheet';
+import toast from 'react-hot-toast';
+
+interface MonoKeyRecoveryProps {
+  onCancel: () => void;
+  // Called with the new MonoKey once the user has saved their new recovery key
+  onRecovered: (newMonoKey: string) => void;
+}
+
+type RecoveryStep = 'recoveryKey' | 'newMonoKey' | 'newRecoveryKey';
+
+// "Forgot MonoKey" flow: the recovery key (typed in, or rebuilt from shares)
+// unwraps the vault key, the user picks a new MonoKey, and a fresh recovery
+// key replaces the one just used
+const MonoKeyRecovery: React.FC<MonoKeyRecoveryProps> = ({ onCancel, onRecovered }) => {
+  const { user, updateUserInContext, refreshMonoKeyLockout } = useAuth();
+  const [step, setStep] = useState<RecoveryStep>('recoveryKey');
+  const [useShares, setUseShares] = useState(!!user?.recoveryShareThreshold);
+  const [recoveryKey, setRecoveryKey] = useState('');
+  const [shareText, setShareText] = useState('');
+  const [vaultKey, setVaultKey] = useState<CryptoKey | null>(null);
+  const [newMonoKey, setNewMonoKey] = useState('');
+  const [confirmMonoKey, setConfirmMonoKey] = useState('');
+  const [newRecoveryKey, setNewRecoveryKey] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const userInputs = [user?.email ?? '', user?.firstName ?? '', user?.lastName ?? ''];
+  const enteredShares = shareText.split('\n').map(line => line.trim()).filter(Boolean);
+
+  const handleRecoveryKeySubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    let key = recoveryKey;
+    if (useShares) {
+      try {
+        key = RecoveryShares.combine(enteredShares);
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to combine recovery shares');
+        return;
+      }
+    } else if (!CryptoUtils.isValidRecoveryKey(recoveryKey)) {
+      toast.error('That does not look like a recovery key. Check for missing characters.');
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      console.log('MonoKeyRecovery: Unlocking vault with recovery key...');
+      setVaultKey(await DatabaseService.unlockWithRecoveryKey(key));
+      setRecoveryKey('');
+      setShareText('');
+      setStep('newMonoKey');
+    } catch (error) {
+      console.error('MonoKeyRecovery: Recovery key error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to check recovery key');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleNewMonoKeySubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!vaultKey) return;
+
+    if (newMonoKey !== confirmMonoKey) {
+      toast.error('MonoKeys do not match');
+      return;
+    }
+
+    if (newMonoKey.length < 8) {
+      toast.error('MonoKey must be at least 8 characters');
+      return;
+    }
+
+    const strength = PasswordStrength.estimate(newMonoKey, userInputs);
+    if (strength.score < PasswordStrength.MIN_MONOKEY_SCORE) {
+      toast.error(strength.warning || 'MonoKey is too easy to guess. Try a longer passphrase.');
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      console.log('MonoKeyRecovery: Setting new MonoKey...');
+      const kdfParams = await CryptoWorker.run('calibrateKdf');
+      const { monoKeyHash, recoveryKey: issuedRecoveryKey } = await DatabaseService.resetMonoKeyWithRecoveryKey(
+        vaultKey,
+        newMonoKey,
+        kdfParams
+      );
+      // The server cleared the failed attempts along with the old MonoKey
+      refreshMonoKeyLockout().catch(lockoutError =>
+        console.error('MonoKeyRecovery: Refresh lockout error:', lockoutError)
+      );
+
+      updateUserInContext({
+        monoPasswordHash: monoKeyHash,
+        kdfParams,
+        recoveryKeyCreatedAt: new Date().toISOString(),
+        recoveryShareThreshold: undefined,
+        recoveryShareCount: undefined
+      });
+      setNewRecoveryKey(issuedRecoveryKey);
+      setStep('newRecoveryKey');
+      toast.success('MonoKey reset successfully');
+    } catch (error) {
+      console.error('MonoKeyRecovery: Reset error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to reset MonoKey');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (step === 'newRecoveryKey' && newRecoveryKey) {
+    return (
+      <RecoveryKeySheet
+        recoveryKey={newRecoveryKey}
+        email={user?.email}
+        onDone={() => onRecovered(newMonoKey)}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <div className="w-16 h-16 bg-blue-100 dark:bg-blue-900/20 rounded-full flex items-center justify-center mx-auto mb-4">
+          <LifeBuoy className="w-8 h-8 text-blue-600 dark:text-blue-400" />
+        </div>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+          {step === 'recoveryKey' ? 'Recover Your Vault' : 'Choose a New MonoKey'}
+        </h3>
+        <p className="text-gray-600 dark:text-gray-300">
+          {step !== 'recoveryKey'
+            ? 'Your recovery key worked. Pick a new MonoKey to unlock your vault from now on.'
+            : useShares
+              ? `Collect ${user?.recoveryShareThreshold ?? 'enough'} recovery shares from your trusted contacts and paste one per line.`
+              : 'Enter the recovery key you saved when you set up your MonoKey.'}
+        </p>
+      </div>
+
+      {step === 'recoveryKey' ? (
+        <form onSubmit={handleRecoveryKeySubmit} className="space-y-4">
+          {useShares ? (
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Recovery Shares
+              </label>
+              <textarea
+                value={shareText}
+                onChange={(e) => setShareText(e.target.value)}
+                rows={4}
+                spellCheck={false}
+                autoFocus
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-500 font-mono text-sm"
+                placeholder="MKS1-..."
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {enteredShares.length} {enteredShares.length === 1 ? 'share' : 'shares'} entered
+                {user?.recoveryShareThreshold ? ` of ${user.recoveryShareThreshold} needed` : ''}
+              </p>
+            </div>
+          ) : (
+            <Input
+              label="Recovery Key"
+              value={recoveryKey}
+              onChange={(e) => setRecoveryKey(e.target.value)}
+              placeholder="XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX"
+              className="font-mono"
+              autoComplete="off"
+              spellCheck={false}
+              autoFocus
+              required
+            />
+          )}
+
+          <div className="text-center">
+            <button
+              type="button"
+              onClick={() => setUseShares(prev => !prev)}
+              className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+            >
+              {useShares ? 'Use a recovery key instead' : 'Use recovery shares instead'}
+            </button>
+          </div>
+
+          <div className="flex space-x-3">
+            <Button type="button" variant="outline" onClick={onCancel} className="flex-1">
+              Back
+            </Button>
+            <Button
+              type="submit"
+              isLoading={isWorking}
+              disabled={useShares ? enteredShares.length === 0 : !recoveryKey.trim()}
+              className="flex-1"
+            >
+              Continue
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <form onSubmit={handleNewMonoKeySubmit} className="space-y-4">
+          <Input
+            label="New MonoKey"
+            type="password"
+            value={newMonoKey}
+            onChange={(e) => setNewMonoKey(e.target.value)}
+            placeholder="Enter a new MonoKey"
+            showPasswordToggle
+            autoFocus
+            required
+          />
+          <PasswordStrengthMeter password={newMonoKey} userInputs={userInputs} />
+
+          <Input
+            label="Confirm New MonoKey"
+            type="password"
+            value={confirmMonoKey}
+            onChange={(e) => setConfirmMonoKey(e.target.value)}
+            placeholder="Confirm the new MonoKey"
+            showPasswordToggle
+            required
+          />
+
+          <div className="flex space-x-3">
+            <Button type="button" variant="outline" onClick={onCancel} disabled={isWorking} className="flex-1">
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              isLoading={isWorking}
+              disabled={!newMonoKey || !confirmMonoKey}
+              className="flex-1"
+            >
+              Set MonoKey
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default MonoKeyRecovery;
@@ -1,8 +1,9 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import Modal from './UI/Modal';
 import Input from './UI/Input';
 import Button from './UI/Button';
+import MonoKeyRecovery from './MonoKeyRecovery';
 import { Shield, AlertTriangle } from 'lucide-react';
 import toast from 'react-hot-toast';
 
@@ -10,39 +11,62 @@ interface MonoKeyPromptProps {
   isOpen: boolean;
   onClose: () => void;
   onVerified: (key: string) => void;
+  // Replaces the default explanation, e.g. to say why the vault locked
+  message?: string | null;
 }
 
+const formatWait = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0
+    ? `${minutes}:${String(seconds % 60).padStart(2, '0')}`
+    : `${seconds}s`;
+};
+
 const MonoKeyPrompt: React.FC<MonoKeyPromptProps> = ({
   isOpen,
   onClose,
-  onVerified
+  onVerified,
+  message
 }) => {
-  const { verifyMonoKey } = useAuth();
+  const { user, verifyMonoKey, monoKeyLockout, refreshMonoKeyLockout } = useAuth();
+  const [isRecovering, setIsRecovering] = useState(false);
   const [key, setKey] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [attempts, setAttempts] = useState(0);
+  const [now, setNow] = useState(Date.now());
+
+  // Pick up failures made on other devices or before a reload
+  useEffect(() => {
+    if (!isOpen) return;
+    refreshMonoKeyLockout().catch(error => {
+      console.error('MonoKeyPrompt: Failed to check lockout:', error);
+    });
+  }, [isOpen, refreshMonoKeyLockout]);
+
+  const lockedUntil = monoKeyLockout?.lockedUntil ?? null;
+  const waitSeconds = lockedUntil !== null ? Math.max(0, Math.ceil((lockedUntil - now) / 1000)) : 0;
+
+  // Tick the countdown while locked out
+  useEffect(() => {
+    if (!isOpen || lockedUntil === null) return;
+    setNow(Date.now());
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [isOpen, lockedUntil]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
 
     try {
-      if (verifyMonoKey(key)) {
+      if (await verifyMonoKey(key)) {
         onVerified(key);
         setKey('');
-        setAttempts(0);
         toast.success('MonoKey verified');
       } else {
-        setAttempts(prev => prev + 1);
         toast.error('Invalid MonoKey');
-        
-        if (attempts >= 2) {
-          toast.error('Too many failed attempts. Please try again later.');
-          onClose();
-        }
       }
     } catch (error) {
-      toast.error('Verification failed');
+      toast.error(error instanceof Error ? error.message : 'Verification failed');
     } finally {
       setIsLoading(false);
     }
@@ -50,10 +74,26 @@ const MonoKeyPrompt: React.FC<MonoKeyPromptProps> = ({
 
   const handleClose = () => {
     setKey('');
-    setAttempts(0);
+    setIsRecovering(false);
     onClose();
   };
 
+  const handleRecovered = (newMonoKey: string) => {
+    setIsRecovering(false);
+    onVerified(newMonoKey);
+  };
+
+  if (isRecovering) {
+    return (
+      <Modal isOpen={isOpen} onClose={handleClose} title="Forgot MonoKey">
+        <MonoKeyRecovery
+          onCancel={() => setIsRecovering(false)}
+          onRecovered={handleRecovered}
+        />
+      </Modal>
+    );
+  }
+
   return (
     <Modal isOpen={isOpen} onClose={handleClose} title="Verify MonoKey">
       <div className="space-y-6">
@@ -65,16 +105,25 @@ const MonoKeyPrompt: React.FC<MonoKeyPromptProps> = ({
             Security Verification Required
           </h3>
           <p className="text-gray-600 dark:text-gray-300">
-            Please enter your MonoKey to access this sensitive information.
+            {message || 'Please enter your MonoKey to access this sensitive information.'}
           </p>
         </div>
 
-        {attempts > 0 && (
+        {waitSeconds > 0 ? (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 rounded-lg p-4 flex items-start space-x-3">
+            <AlertTriangle className="w-5 h-5 text-red-600 dark:text-red-400 mt-0.5" />
+            <div>
+              <p className="text-sm text-red-800 dark:text-red-200">
+                Too many failed attempts. Try again in {formatWait(waitSeconds)}.
+              </p>
+            </div>
+          </div>
+        ) : !!monoKeyLockout?.failedAttempts && (
           <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-700 rounded-lg p-4 flex items-start space-x-3">
             <AlertTriangle className="w-5 h-5 text-yellow-600 dark:text-yellow-400 mt-0.5" />
             <div>
               <p className="text-sm text-yellow-800 dark:text-yellow-200">
-                Invalid MonoKey. {3 - attempts} attempts remaining.
+                {monoKeyLockout.failedAttempts} failed {monoKeyLockout.failedAttempts === 1 ? 'attempt' : 'attempts'}. Each further mistake increases the wait before you can try again.
               </p>
             </div>
           </div>
@@ -104,7 +153,7 @@ const MonoKeyPrompt: React.FC<MonoKeyPromptProps> = ({
             <Button
               type="submit"
               isLoading={isLoading}
-              disabled={!key.trim()}
+              disabled={!key.trim() || waitSeconds > 0}
               className="flex-1"
             >
               Verify
@@ -112,6 +161,18 @@ const MonoKeyPrompt: React.FC<MonoKeyPromptProps> = ({
           </div>
         </form>
 
+        {user?.recoveryKeyCreatedAt && (
+          <div className="text-center">
+            <button
+              type="button"
+              onClick={() => setIsRecovering(true)}
+              className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+            >
+              Forgot MonoKey?
+            </button>
+          </div>
+        )}
+
         <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
           <p className="text-xs text-gray-600 dark:text-gray-300">
             <strong>Security Note:</strong> Your MonoKey is never stored or transmitted. 
@@ -0,0 +1,414 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ArrowLeft, Building2, FolderPlus, Trash2, UserMinus, UserPlus } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useCredentials } from '../contexts/CredentialContext';
+import { DatabaseService } from '../utils/database';
+import { Organization, OrganizationMember, OrganizationRole } from '../types';
+import Input from './UI/Input';
+import Button from './UI/Button';
+import toast from 'react-hot-toast';
+
+const ROLES: { role: OrganizationRole; label: string }[] = [
+  { role: 'owner', label: 'Owner' },
+  { role: 'admin', label: 'Admin' },
+  { role: 'member', label: 'Member' },
+  { role: 'read_only', label: 'Read-only' }
+];
+
+const ROLE_LABELS = Object.fromEntries(ROLES.map(({ role, label }) => [role, label])) as Record<OrganizationRole, string>;
+
+const canManage = (role: OrganizationRole) => role === 'owner' || role === 'admin';
+
+// Settings panel for organizations: creating them, and managing the members
+// and collections of one the user owns or administers
+const OrganizationManager: React.FC = () => {
+  const { user, vaultKey, verifyMonoKey, setMonoKey } = useAuth();
+  const { organizations, collections, reloadOrganizations } = useCredentials();
+  const [unlockMonoKey, setUnlockMonoKey] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [organizationName, setOrganizationName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [openOrganization, setOpenOrganization] = useState<Organization | null>(null);
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [isLoadingMembers, setIsLoadingMembers] = useState(false);
+  const [memberEmail, setMemberEmail] = useState('');
+  const [memberRole, setMemberRole] = useState<OrganizationRole>('member');
+  const [collectionName, setCollectionName] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadMembers = useCallback(async (organizationId: string) => {
+    setIsLoadingMembers(true);
+    try {
+      setMembers(await DatabaseService.getOrganizationMembers(organizationId));
+    } catch (error) {
+      console.error('OrganizationManager: Load members error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load members');
+    } finally {
+      setIsLoadingMembers(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (openOrganization) {
+      setMemberEmail('');
+      setMemberRole('member');
+      setCollectionName('');
+      loadMembers(openOrganization.id);
+    }
+  }, [openOrganization, loadMembers]);
+
+  // Keep the open organization in step with reloads, e.g. after a role change
+  useEffect(() => {
+    if (!openOrganization) return;
+    const current = organizations.find(organization => organization.id === openOrganization.id);
+    if (!current) {
+      setOpenOrganization(null);
+    } else if (current.role !== openOrganization.role || current.name !== openOrganization.name) {
+      setOpenOrganization(current);
+    }
+  }, [organizations, openOrganization]);
+
+  // Runs one action, then reloads the organization data it may have changed.
+  // Resolves to whether the action succeeded.
+  const runAction = async (id: string, action: () => Promise<void>, successMessage: string): Promise<boolean> => {
+    setBusyId(id);
+    try {
+      await action();
+      toast.success(successMessage);
+      await reloadOrganizations();
+      if (openOrganization) {
+        await loadMembers(openOrganization.id);
+      }
+      return true;
+    } catch (error) {
+      console.error('OrganizationManager: Action error:', error);
+      toast.error(error instanceof Error ? error.message : 'Organization action failed');
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleUnlock = async () => {
+    setIsUnlocking(true);
+    try {
+      if (!(await verifyMonoKey(unlockMonoKey))) {
+        toast.error('MonoKey is incorrect');
+        return;
+      }
+      await setMonoKey(unlockMonoKey);
+      setUnlockMonoKey('');
+    } catch (error) {
+      console.error('OrganizationManager: Unlock error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to unlock vault');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleCreateOrganization = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!vaultKey) return;
+
+    setIsCreating(true);
+    try {
+      console.log('OrganizationManager: Creating organization...');
+      await DatabaseService.createOrganization(organizationName.trim(), vaultKey);
+      toast.success('Organization created');
+      setOrganizationName('');
+      await reloadOrganizations();
+    } catch (error) {
+      console.error('OrganizationManager: Create organization error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create organization');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  if (!vaultKey) {
+    return (
+      <div className="space-y-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-700 rounded-lg p-4">
+        <p className="text-sm text-yellow-800 dark:text-yellow-200">
+          Unlock your vault to see and manage your organizations.
+        </p>
+        <Input
+          type="password"
+          value={unlockMonoKey}
+          onChange={(e) => setUnlockMonoKey(e.target.value)}
+          placeholder="Enter your MonoKey"
+          showPasswordToggle
+        />
+        <Button size="sm" onClick={handleUnlock} disabled={!unlockMonoKey} isLoading={isUnlocking} className="w-full">
+          Unlock
+        </Button>
+      </div>
+    );
+  }
+
+  if (openOrganization) {
+    const organization = openOrganization;
+    const isAdmin = canManage(organization.role);
+    const ownMembership = members.find(member => member.userId === user?.id);
+    const organizationCollections = collections.filter(collection => collection.organizationId === organization.id);
+    // Admins can manage everyone except owners; only owners can grant ownership
+    const canManageMember = (member: OrganizationMember) =>
+      isAdmin && member.userId !== user?.id && (member.role !== 'owner' || organization.role === 'owner');
+    const assignableRoles = ROLES.filter(({ role }) => role !== 'owner' || organization.role === 'owner');
+
+    const handleAddMember = async (e: React.FormEvent) => {
+      e.preventDefault();
+      const added = await runAction(
+        'add-member',
+        () => DatabaseService.addOrganizationMember(organization.id, memberEmail.trim(), memberRole, vaultKey),
+        `Added ${memberEmail.trim()}`
+      );
+      if (added) setMemberEmail('');
+    };
+
+    const handleCreateCollection = async (e: React.FormEvent) => {
+      e.preventDefault();
+      const created = await runAction(
+        'add-collection',
+        () => DatabaseService.createCollection(organization.id, collectionName.trim(), vaultKey),
+        'Collection created'
+      );
+      if (created) setCollectionName('');
+    };
+
+    const handleRemoveMember = async (member: OrganizationMember) => {
+      if (!window.confirm(`Remove ${member.email} from ${organization.name}? Every collection will be re-encrypted with a new key.`)) return;
+      await runAction(member.id, () => DatabaseService.removeOrganizationMember(member, vaultKey), 'Member removed');
+    };
+
+    const handleLeave = async () => {
+      if (!ownMembership) return;
+      if (!window.confirm(`Leave ${organization.name}? You will lose access to its items.`)) return;
+      await runAction(ownMembership.id, () => DatabaseService.removeOrganizationMember(ownMembership, vaultKey), `Left ${organization.name}`);
+    };
+
+    const handleDeleteCollection = async (collectionId: string, name: string) => {
+      if (!window.confirm(`Delete the ${name} collection and every item in it? This cannot be undone.`)) return;
+      await runAction(collectionId, () => DatabaseService.deleteCollection(collectionId), 'Collection deleted');
+    };
+
+    const handleDeleteOrganization = async () => {
+      if (!window.confirm(`Delete ${organization.name} with all of its collections and items? This cannot be undone.`)) return;
+      await runAction(organization.id, () => DatabaseService.deleteOrganization(organization.id), 'Organization deleted');
+    };
+
+    return (
+      <div className="space-y-6">
+        <button
+          type="button"
+          onClick={() => setOpenOrganization(null)}
+          className="flex items-center text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back
+        </button>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{organization.name}</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-300">You are {ROLE_LABELS[organization.role].toLowerCase()}</p>
+        </div>
+
+        <div className="space-y-3">
+          <h4 className="text-sm font-semibold text-gray-900 dark:text-white">Members</h4>
+          {isLoadingMembers ? (
+            <div className="flex justify-center py-4">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {members.map(member => (
+                <li key={member.id} className="py-2 flex items-center justify-between space-x-3">
+                  <span className="text-sm text-gray-900 dark:text-white truncate">{member.email}</span>
+                  <div className="flex items-center space-x-2 flex-shrink-0">
+                    {canManageMember(member) ? (
+                      <>
+                        <select
+                          value={member.role}
+                          onChange={(e) => runAction(
+                            member.id,
+                            () => DatabaseService.updateOrganizationMemberRole(member.id, e.target.value as OrganizationRole),
+                            'Role updated'
+                          )}
+                          disabled={busyId === member.id}
+                          className="text-sm px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                        >
+                          {assignableRoles.map(({ role, label }) => (
+                            <option key={role} value={role}>{label}</option>
+                          ))}
+                        </select>
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveMember(member)}
+                          disabled={busyId === member.id}
+                          className="p-1 text-red-600 hover:text-red-900 disabled:opacity-50 transition-colors"
+                          title="Remove member"
+                        >
+                          <UserMinus className="w-4 h-4" />
+                        </button>
+                      </>
+                    ) : (
+                      <span className="text-xs text-gray-600 dark:text-gray-300">{ROLE_LABELS[member.role]}</span>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {isAdmin && (
+            <form onSubmit={handleAddMember} className="space-y-3 pt-2">
+              <Input
+                label="Member Email"
+                type="email"
+                value={memberEmail}
+                onChange={(e) => setMemberEmail(e.target.value)}
+                placeholder="someone@example.com"
+                required
+              />
+              <div className={`grid gap-2 ${assignableRoles.length === 4 ? 'grid-cols-4' : 'grid-cols-3'}`}>
+                {assignableRoles.map(({ role, label }) => (
+                  <button
+                    key={role}
+                    type="button"
+                    onClick={() => setMemberRole(role)}
+                    className={`px-3 py-2 text-sm rounded-lg border transition-colors ${
+                      memberRole === role
+                        ? 'border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-300'
+                        : 'border-gray-300 text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <Button type="submit" size="sm" disabled={!memberEmail.trim()} isLoading={busyId === 'add-member'} className="w-full">
+                <UserPlus className="w-4 h-4 mr-2" />
+                Add Member
+              </Button>
+            </form>
+          )}
+        </div>
+
+        <div className="space-y-3 border-t border-gray-200 dark:border-gray-700 pt-6">
+          <h4 className="text-sm font-semibold text-gray-900 dark:text-white">Collections</h4>
+          {organizationCollections.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">You have no collections in this organization.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {organizationCollections.map(collection => (
+                <li key={collection.id} className="py-2 flex items-center justify-between space-x-3">
+                  <span className="text-sm text-gray-900 dark:text-white truncate">{collection.name}</span>
+                  {isAdmin && (
+                    <button
+                      type="button"
+                      onClick={() => handleDeleteCollection(collection.id, collection.name)}
+                      disabled={busyId === collection.id}
+                      className="p-1 text-red-600 hover:text-red-900 disabled:opacity-50 transition-colors"
+                      title="Delete collection"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {isAdmin && (
+            <form onSubmit={handleCreateCollection} className="flex space-x-2 pt-2">
+              <div className="flex-1">
+                <Input
+                  value={collectionName}
+                  onChange={(e) => setCollectionName(e.target.value)}
+                  placeholder="New collection name"
+                  required
+                />
+              </div>
+              <Button type="submit" size="sm" disabled={!collectionName.trim()} isLoading={busyId === 'add-collection'}>
+                <FolderPlus className="w-4 h-4 mr-2" />
+                Create
+              </Button>
+            </form>
+          )}
+        </div>
+
+        <div className="flex space-x-3 border-t border-gray-200 dark:border-gray-700 pt-6">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleLeave}
+            disabled={!ownMembership || busyId !== null}
+            className="flex-1"
+          >
+            Leave Organization
+          </Button>
+          {organization.role === 'owner' && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleDeleteOrganization}
+              disabled={busyId !== null}
+              className="flex-1 text-red-600 border-red-300 hover:bg-red-50 dark:text-red-400 dark:border-red-700 dark:hover:bg-red-900/20"
+            >
+              Delete Organization
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <div className="w-16 h-16 bg-blue-100 dark:bg-blue-900/20 rounded-full flex items-center justify-center mx-auto mb-4">
+          <Building2 className="w-8 h-8 text-blue-600 dark:text-blue-400" />
+        </div>
+        <p className="text-gray-600 dark:text-gray-300">
+          Organizations share collections of items with a team. Each collection has its own key, encrypted to every member.
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        <h4 className="text-sm font-semibold text-gray-900 dark:text-white">Your Organizations</h4>
+        {organizations.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">You are not in any organization yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {organizations.map(organization => (
+              <li key={organization.id}>
+                <button
+                  type="button"
+                  onClick={() => setOpenOrganization(organization)}
+                  className="w-full py-3 flex items-center justify-between text-left hover:bg-gray-50 dark:hover:bg-gray-700 rounded-lg px-2 transition-colors"
+                >
+                  <span className="text-sm font-medium text-gray-900 dark:text-white truncate">{organization.name}</span>
+                  <span className="text-xs text-gray-600 dark:text-gray-300">{ROLE_LABELS[organization.role]}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <form onSubmit={handleCreateOrganization} className="space-y-3 border-t border-gray-200 dark:border-gray-700 pt-6">
+        <Input
+          label="New Organization"
+          value={organizationName}
+          onChange={(e) => setOrganizationName(e.target.value)}
+          placeholder="Acme Inc."
+          required
+        />
+        <Button type="submit" size="sm" disabled={!organizationName.trim()} isLoading={isCreating} className="w-full">
+          <Building2 className="w-4 h-4 mr-2" />
+          Create Organization
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default OrganizationManager;
@@ -1,84 +1,181 @@
-import React, { useState } from 'react';
-import { motion } from 'framer-motion';
-import { RefreshCw, Copy, Check } from 'lucide-react';
+import React, { useState, useRef } from 'react';
+import { RefreshCw, Copy, Check, History, Trash2 } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
 import { CryptoUtils } from '../utils/crypto';
+import { DatabaseService } from '../utils/database';
+import { GeneratorHistoryEntry, PasswordGeneratorOptions, PasswordPolicy } from '../types';
+import { PasswordRules } from '../utils/passwordRules';
 import Modal from './UI/Modal';
+import PasswordStrengthMeter from './PasswordStrengthMeter';
 import Button from './UI/Button';
 import toast from 'react-hot-toast';
 
 interface PasswordGeneratorProps {
   isOpen: boolean;
   onClose: () => void;
-  onPasswordGenerated: (password: string) => void;
+  onPasswordGenerated: (password: string, options: PasswordGeneratorOptions) => void;
+  initialMode?: PasswordGeneratorOptions['mode'];
+  // Site rules from the credential being edited
+  policy?: PasswordPolicy;
+  // Recorded with history entries so a lost value can be traced back
+  accountName?: string;
 }
 
+const PASSPHRASE_SEPARATORS = [
+  { value: '-', label: 'Hyphen (-)' },
+  { value: ' ', label: 'Space' },
+  { value: '.', label: 'Period (.)' },
+  { value: '_', label: 'Underscore (_)' },
+  { value: '', label: 'None' }
+];
+
 const PasswordGenerator: React.FC<PasswordGeneratorProps> = ({
   isOpen,
   onClose,
-  onPasswordGenerated
+  onPasswordGenerated,
+  initialMode = 'password',
+  policy,
+  accountName
 }) => {
+  const { vaultKey } = useAuth();
   const [password, setPassword] = useState('');
+  const [mode, setMode] = useState<PasswordGeneratorOptions['mode']>(initialMode);
   const [length, setLength] = useState(16);
   const [includeUppercase, setIncludeUppercase] = useState(true);
   const [includeLowercase, setIncludeLowercase] = useState(true);
   const [includeNumbers, setIncludeNumbers] = useState(true);
   const [includeSpecialChars, setIncludeSpecialChars] = useState(true);
+  const [excludeLookAlikes, setExcludeLookAlikes] = useState(false);
+  const [customSymbols, setCustomSymbols] = useState('');
+  const [wordCount, setWordCount] = useState(5);
+  const [separator, setSeparator] = useState('-');
+  const [capitalize, setCapitalize] = useState(true);
+  const [includeNumber, setIncludeNumber] = useState(true);
   const [copied, setCopied] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [history, setHistory] = useState<GeneratorHistoryEntry[]>([]);
+  const [isHistoryLoading, setIsHistoryLoading] = useState(false);
+  const [confirmClearHistory, setConfirmClearHistory] = useState(false);
+  const lastRecordedRef = useRef<string | null>(null);
+
+  const policyHasCharacterRules = !!policy && (policy.required.length > 0 || !!policy.allowed);
+  const minLength = policy?.minLength ?? 4;
+  const maxLength = policy?.maxLength ?? Math.max(50, minLength);
+  const effectiveLength = Math.min(Math.max(length, minLength), maxLength);
+
+  const buildOptions = (): PasswordGeneratorOptions => mode === 'passphrase'
+    ? { mode, wordCount, separator, capitalize, includeNumber }
+    : { mode, length, includeUppercase, includeLowercase, includeNumbers, includeSpecialChars, excludeLookAlikes, customSymbols };
 
   const generatePassword = () => {
-    const newPassword = CryptoUtils.generatePassword({
-      length,
-      includeUppercase,
-      includeLowercase,
-      includeNumbers,
-      includeSpecialChars
-    });
-    setPassword(newPassword);
+    try {
+      const newPassword = CryptoUtils.generatePassword(buildOptions(), policy);
+      setPassword(newPassword);
+    } catch (error) {
+      setPassword('');
+      toast.error(error instanceof Error ? error.message : 'Failed to generate password');
+    }
     setCopied(false);
   };
 
+  // Values are recorded once they leave the generator (copied or applied),
+  // since that is when they may end up set on a site
+  const recordInHistory = (value: string) => {
+    if (!vaultKey || lastRecordedRef.current === value) return;
+    lastRecordedRef.current = value;
+
+    DatabaseService.addGeneratorHistoryEntry({ value, mode, accountName: accountName?.trim() || undefined }, vaultKey)
+      .then(setHistory)
+      .catch(error => console.error('PasswordGenerator: Save history error:', error));
+  };
+
   const copyPassword = async () => {
     if (password) {
       await navigator.clipboard.writeText(password);
       setCopied(true);
       toast.success('Password copied to clipboard');
       setTimeout(() => setCopied(false), 2000);
+      recordInHistory(password);
     }
   };
 
   const usePassword = () => {
     if (password) {
-      onPasswordGenerated(password);
+      recordInHistory(password);
+      onPasswordGenerated(password, buildOptions());
       toast.success('Password applied');
     }
   };
 
+  const toggleHistory = async () => {
+    const opening = !isHistoryOpen;
+    setIsHistoryOpen(opening);
+    setConfirmClearHistory(false);
+    if (!opening || !vaultKey) return;
+
+    setIsHistoryLoading(true);
+    try {
+      setHistory(await DatabaseService.getGeneratorHistory(vaultKey));
+    } catch (error) {
+      console.error('PasswordGenerator: Load history error:', error);
+      toast.error('Failed to load generator history');
+    } finally {
+      setIsHistoryLoading(false);
+    }
+  };
+
+  const copyHistoryEntry = async (entry: GeneratorHistoryEntry) => {
+    await navigator.clipboard.writeText(entry.value);
+    toast.success('Copied to clipboard');
+  };
+
+  const removeHistoryEntry = async (id: string) => {
+    if (!vaultKey) return;
+    try {
+      setHistory(await DatabaseService.removeGeneratorHistoryEntry(id, vaultKey));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update generator history');
+    }
+  };
+
+  const clearHistory = async () => {
+    if (!confirmClearHistory) {
+      setConfirmClearHistory(true);
+      return;
+    }
+
+    try {
+      await DatabaseService.clearGeneratorHistory();
+      setHistory([]);
+      lastRecordedRef.current = null;
+      toast.success('Generator history cleared');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to clear generator history');
+    } finally {
+      setConfirmClearHistory(false);
+    }
+  };
+
+  React.useEffect(() => {
+    if (isOpen) {
+      setMode(initialMode);
+    } else {
+      setIsHistoryOpen(false);
+      setConfirmClearHistory(false);
+    }
+  }, [isOpen, initialMode]);
+
   React.useEffect(() => {
     if (isOpen) {
       generatePassword();
     }
-  }, [isOpen, length, includeUppercase, includeLowercase, includeNumbers, includeSpecialChars]);
-
-  const getPasswordStrength = () => {
-    if (!password) return { score: 0, label: 'None', color: 'gray' };
-    
-    let score = 0;
-    if (password.length >= 12) score += 2;
-    else if (password.length >= 8) score += 1;
-    
-    if (/[a-z]/.test(password)) score += 1;
-    if (/[A-Z]/.test(password)) score += 1;
-    if (/[0-9]/.test(password)) score += 1;
-    if (/[^A-Za-z0-9]/.test(password)) score += 1;
-
-    if (score >= 5) return { score, label: 'Very Strong', color: 'green' };
-    if (score >= 4) return { score, label: 'Strong', color: 'blue' };
-    if (score >= 3) return { score, label: 'Medium', color: 'yellow' };
-    if (score >= 2) return { score, label: 'Weak', color: 'orange' };
-    return { score, label: 'Very Weak', color: 'red' };
-  };
+  }, [
+    isOpen, mode, length, includeUppercase, includeLowercase, includeNumbers, includeSpecialChars,
+    excludeLookAlikes, customSymbols, wordCount, separator, capitalize, includeNumber, policy
+  ]);
 
-  const strength = getPasswordStrength();
+  const policyProblems = policy && password ? PasswordRules.validate(password, policy) : [];
+  const entropyBits = password ? Math.floor(CryptoUtils.getGeneratorEntropyBits(buildOptions(), policy)) : 0;
 
   return (
     <Modal isOpen={isOpen} onClose={onClose} title="Password Generator" size="lg">
@@ -86,7 +183,7 @@ const PasswordGenerator: React.FC<PasswordGeneratorProps> = ({
         {/* Generated Password Display */}
         <div className="space-y-3">
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
-            Generated Password
+            {mode === 'passphrase' ? 'Generated Passphrase' : 'Generated Password'}
           </label>
           <div className="relative">
             <input
@@ -115,82 +212,270 @@ const PasswordGenerator: React.FC<PasswordGeneratorProps> = ({
           </div>
           
           {/* Password Strength Indicator */}
-          <div className="flex items-center space-x-3">
-            <div className="flex-1 bg-gray-200 dark:bg-gray-600 rounded-full h-2">
-              <motion.div
-                initial={{ width: 0 }}
-                animate={{ width: `${(strength.score / 6) * 100}%` }}
-                className={`h-2 rounded-full bg-${strength.color}-500`}
-                transition={{ duration: 0.3 }}
-              />
-            </div>
-            <span className={`text-sm font-medium text-${strength.color}-600 dark:text-${strength.color}-400`}>
-              {strength.label}
-            </span>
-          </div>
+          <PasswordStrengthMeter password={password} showFeedback={false} />
+          {entropyBits > 0 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Entropy: {entropyBits} bits
+            </p>
+          )}
+          {policyProblems.length > 0 && (
+            <ul className="space-y-0.5">
+              {policyProblems.map(problem => (
+                <li key={problem} className="text-xs text-amber-600 dark:text-amber-400">{problem}</li>
+              ))}
+            </ul>
+          )}
         </div>
 
-        {/* Password Options */}
-        <div className="space-y-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-              Password Length: {length}
-            </label>
-            <input
-              type="range"
-              min="4"
-              max="50"
-              value={length}
-              onChange={(e) => setLength(parseInt(e.target.value))}
-              className="w-full h-2 bg-gray-200 dark:bg-gray-600 rounded-lg appearance-none cursor-pointer slider"
-            />
-            <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
-              <span>4</span>
-              <span>50</span>
-            </div>
-          </div>
+        {/* Generator Mode */}
+        <div className="grid grid-cols-2 gap-2 p-1 bg-gray-100 dark:bg-gray-700 rounded-lg">
+          {(['password', 'passphrase'] as const).map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setMode(option)}
+              className={`py-2 text-sm font-medium rounded-md transition-colors ${
+                mode === option
+                  ? 'bg-white dark:bg-gray-800 text-blue-600 dark:text-blue-400 shadow-sm'
+                  : 'text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white'
+              }`}
+            >
+              {option === 'password' ? 'Password' : 'Passphrase'}
+            </button>
+          ))}
+        </div>
 
-          <div className="grid grid-cols-2 gap-4">
-            <label className="flex items-center space-x-3 cursor-pointer">
+        {mode === 'passphrase' ? (
+          /* Passphrase Options */
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Words: {wordCount}
+              </label>
               <input
-                type="checkbox"
-                checked={includeUppercase}
-                onChange={(e) => setIncludeUppercase(e.target.checked)}
-                className="w-4 h-4 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500 bg-white dark:bg-gray-700"
+                type="range"
+                min="3"
+                max="12"
+                value={wordCount}
+                onChange={(e) => setWordCount(parseInt(e.target.value))}
+                className="w-full h-2 bg-gray-200 dark:bg-gray-600 rounded-lg appearance-none cursor-pointer slider"
               />
-              <span className="text-sm text-gray-700 dark:text-gray-300">Uppercase (A-Z)</span>
-            </label>
+              <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+                <span>3</span>
+                <span>12</span>
+              </div>
+            </div>
 
-            <label className="flex items-center space-x-3 cursor-pointer">
-              <input
-                type="checkbox"
-                checked={includeLowercase}
-                onChange={(e) => setIncludeLowercase(e.target.checked)}
-                className="w-4 h-4 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500 bg-white dark:bg-gray-700"
-              />
-              <span className="text-sm text-gray-700 dark:text-gray-300">Lowercase (a-z)</span>
-            </label>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Separator
+              </label>
+              <select
+                value={separator}
+                onChange={(e) => setSeparator(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white"
+              >
+                {PASSPHRASE_SEPARATORS.map(option => (
+                  <option key={option.label} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
 
-            <label className="flex items-center space-x-3 cursor-pointer">
-              <input
-                type="checkbox"
-                checked={includeNumbers}
-                onChange={(e) => setIncludeNumbers(e.target.checked)}
-                className="w-4 h-4 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500 bg-white dark:bg-gray-700"
-              />
-              <span className="text-sm text-gray-700 dark:text-gray-300">Numbers (0-9)</span>
-            </label>
+            <div className="grid grid-cols-2 gap-4">
+              <label className="flex items-center space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={capitalize}
+                  onChange={(e) => setCapitalize(e.target.checked)}
+                  className="w-4 h-4 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500 bg-white dark:bg-gray-700"
+                />
+                <span className="text-sm text-gray-700 dark:text-gray-300">Capitalise words</span>
+              </label>
+
+              <label className="flex items-center space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={includeNumber}
+                  onChange={(e) => setIncludeNumber(e.target.checked)}
+                  className="w-4 h-4 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500 bg-white dark:bg-gray-700"
+                />
+                <span className="text-sm text-gray-700 dark:text-gray-300">Include a digit</span>
+              </label>
+            </div>
 
-            <label className="flex items-center space-x-3 cursor-pointer">
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Words are drawn from the EFF large wordlist (7,776 words).
+            </p>
+          </div>
+        ) : (
+          /* Password Options */
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Password Length: {effectiveLength}
+              </label>
               <input
-                type="checkbox"
-                checked={includeSpecialChars}
-                onChange={(e) => setIncludeSpecialChars(e.target.checked)}
-                className="w-4 h-4 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500 bg-white dark:bg-gray-700"
+                type="range"
+                min={minLength}
+                max={maxLength}
+                value={effectiveLength}
+                onChange={(e) => setLength(parseInt(e.target.value))}
+                className="w-full h-2 bg-gray-200 dark:bg-gray-600 rounded-lg appearance-none cursor-pointer slider"
               />
-              <span className="text-sm text-gray-700 dark:text-gray-300">Special (!@#$)</span>
-            </label>
+              <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+                <span>{minLength}</span>
+                <span>{maxLength}</span>
+              </div>
+            </div>
+
+            {policy && (
+              <p className="text-sm text-blue-600 dark:text-blue-400">
+                {policyHasCharacterRules
+                  ? 'Length and characters follow the password rules for this account.'
+                  : 'Length follows the password rules for this account.'}
+              </p>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              {!policyHasCharacterRules && (
+                <>
+                  <label className="flex items-center space-x-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={includeUppercase}
+                      onChange={(e) => setIncludeUppercase(e.target.checked)}
+                      className="w-4 h-4 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500 bg-white dark:bg-gray-700"
+                    />
+                    <span className="text-sm text-gray-700 dark:text-gray-300">Uppercase (A-Z)</span>
+                  </label>
+
+                  <label className="flex items-center space-x-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={includeLowercase}
+                      onChange={(e) => setIncludeLowercase(e.target.checked)}
+                      className="w-4 h-4 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500 bg-white dark:bg-gray-700"
+                    />
+                    <span className="text-sm text-gray-700 dark:text-gray-300">Lowercase (a-z)</span>
+                  </label>
+
+                  <label className="flex items-center space-x-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={includeNumbers}
+                      onChange={(e) => setIncludeNumbers(e.target.checked)}
+                      className="w-4 h-4 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500 bg-white dark:bg-gray-700"
+                    />
+                    <span className="text-sm text-gray-700 dark:text-gray-300">Numbers (0-9)</span>
+                  </label>
+
+                  <label className="flex items-center space-x-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={includeSpecialChars}
+                      onChange={(e) => setIncludeSpecialChars(e.target.checked)}
+                      className="w-4 h-4 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500 bg-white dark:bg-gray-700"
+                    />
+                    <span className="text-sm text-gray-700 dark:text-gray-300">Special (!@#$)</span>
+                  </label>
+                </>
+              )}
+
+              <label className="flex items-center space-x-3 cursor-pointer col-span-2">
+                <input
+                  type="checkbox"
+                  checked={excludeLookAlikes}
+                  onChange={(e) => setExcludeLookAlikes(e.target.checked)}
+                  className="w-4 h-4 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500 bg-white dark:bg-gray-700"
+                />
+                <span className="text-sm text-gray-700 dark:text-gray-300">Exclude look-alikes (0 O 1 l I)</span>
+              </label>
+            </div>
+
+            {includeSpecialChars && !policyHasCharacterRules && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Symbols
+                </label>
+                <input
+                  type="text"
+                  value={customSymbols}
+                  onChange={(e) => setCustomSymbols(e.target.value)}
+                  placeholder={CryptoUtils.DEFAULT_SYMBOLS}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 font-mono text-sm text-gray-900 dark:text-white"
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Leave empty to use the default set. Letters, digits and spaces are ignored.
+                </p>
+              </div>
+            )}
           </div>
+        )}
+
+        {/* Generator History */}
+        <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
+          <button
+            type="button"
+            onClick={toggleHistory}
+            disabled={!vaultKey}
+            className="flex items-center text-sm font-medium text-gray-700 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400 disabled:opacity-50"
+          >
+            <History className="w-4 h-4 mr-2" />
+            {isHistoryOpen ? 'Hide history' : 'Show history'}
+          </button>
+
+          {isHistoryOpen && (
+            <div className="mt-3 space-y-2">
+              {isHistoryLoading ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Loading history...</p>
+              ) : history.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  Copied or applied values appear here, encrypted with your vault key.
+                </p>
+              ) : (
+                <>
+                  <ul className="max-h-56 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+                    {history.map(entry => (
+                      <li key={entry.id} className="flex items-center justify-between px-3 py-2">
+                        <div className="min-w-0 mr-3">
+                          <p className="font-mono text-sm text-gray-900 dark:text-white truncate">{entry.value}</p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {entry.accountName ? `${entry.accountName} · ` : ''}
+                            {new Date(entry.createdAt).toLocaleString()}
+                          </p>
+                        </div>
+                        <div className="flex items-center space-x-1 flex-shrink-0">
+                          <button
+                            type="button"
+                            onClick={() => copyHistoryEntry(entry)}
+                            className="p-1 text-gray-400 hover:text-blue-600 dark:text-gray-500 dark:hover:text-blue-400 transition-colors"
+                            title="Copy"
+                          >
+                            <Copy className="w-4 h-4" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => removeHistoryEntry(entry.id)}
+                            className="p-1 text-gray-400 hover:text-red-600 dark:text-gray-500 dark:hover:text-red-400 transition-colors"
+                            title="Remove from history"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                  <button
+                    type="button"
+                    onClick={clearHistory}
+                    className="text-sm text-red-600 dark:text-red-400 hover:underline"
+                  >
+                    {confirmClearHistory ? 'Click again to clear all history' : 'Clear history'}
+                  </button>
+                </>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Actions */}
@@ -199,7 +484,7 @@ const PasswordGenerator: React.FC<PasswordGeneratorProps> = ({
             Cancel
           </Button>
           <Button onClick={usePassword} disabled={!password} className="flex-1">
-            Use This Password
+            {mode === 'passphrase' ? 'Use This Passphrase' : 'Use This Password'}
           </Button>
         </div>
       </div>
@@ -0,0 +1,68 @@
+import React, { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { PasswordStrength } from '../utils/passwordStrength';
+
+interface PasswordStrengthMeterProps {
+  password: string;
+  // Strings the password should not be built from (account name, email...)
+  userInputs?: string[];
+  showFeedback?: boolean;
+}
+
+// Full class names so Tailwind keeps them in the build
+const COLOR_CLASSES: Record<string, { bar: string; text: string }> = {
+  red: { bar: 'bg-red-500', text: 'text-red-600 dark:text-red-400' },
+  orange: { bar: 'bg-orange-500', text: 'text-orange-600 dark:text-orange-400' },
+  yellow: { bar: 'bg-yellow-500', text: 'text-yellow-600 dark:text-yellow-400' },
+  blue: { bar: 'bg-blue-500', text: 'text-blue-600 dark:text-blue-400' },
+  green: { bar: 'bg-green-500', text: 'text-green-600 dark:text-green-400' }
+};
+
+const PasswordStrengthMeter: React.FC<PasswordStrengthMeterProps> = ({
+  password,
+  userInputs = [],
+  showFeedback = true
+}) => {
+  const inputsKey = userInputs.join('\n');
+  const strength = useMemo(
+    () => (password ? PasswordStrength.estimate(password, inputsKey.split('\n')) : null),
+    [password, inputsKey]
+  );
+
+  if (!strength) return null;
+
+  const colors = COLOR_CLASSES[strength.color];
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center space-x-3">
+        <div className="flex-1 bg-gray-200 dark:bg-gray-600 rounded-full h-2">
+          <motion.div
+            initial={{ width: 0 }}
+            animate={{ width: `${((strength.score + 1) / 5) * 100}%` }}
+            className={`h-2 rounded-full ${colors.bar}`}
+            transition={{ duration: 0.3 }}
+          />
+        </div>
+        <span className={`text-sm font-medium ${colors.text}`}>
+          {strength.label}
+        </span>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Estimated time to crack: {strength.crackTime} (~10<sup>{Math.floor(strength.guessesLog10)}</sup> guesses)
+      </p>
+      {showFeedback && strength.warning && (
+        <p className={`text-xs ${colors.text}`}>{strength.warning}</p>
+      )}
+      {showFeedback && strength.suggestions.length > 0 && (
+        <ul className="text-xs text-gray-500 dark:text-gray-400 list-disc list-inside">
+          {strength.suggestions.map(suggestion => (
+            <li key={suggestion}>{suggestion}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PasswordStrengthMeter;
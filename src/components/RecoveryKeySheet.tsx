@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { Copy, Download, LifeBuoy, Printer } from 'lucide-react';
+import Button from './UI/Button';
+import toast from 'react-hot-toast';
+
+interface RecoveryKeySheetProps {
+  recoveryKey: string;
+  email?: string;
+  onDone: () => void;
+}
+
+const sheetText = (recoveryKey: string, email?: string) => [
+  'MonoKey Recovery Key',
+  '',
+  ...(email ? [`Account: ${email}`] : []),
+  `Created: ${new Date().toLocaleString()}`,
+  '',
+  recoveryKey,
+  '',
+  'If you forget your MonoKey, choose "Forgot MonoKey?" on the unlock screen',
+  'and enter this key to set a new one. Anyone with this key and access to',
+  'your account can open your vault, so keep it offline and somewhere safe.',
+  'Creating a new recovery key makes this one stop working.'
+].join('\n');
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Shows a newly issued recovery key. It is never shown again, so the user has
+// to confirm they saved it before moving on.
+const RecoveryKeySheet: React.FC<RecoveryKeySheetProps> = ({ recoveryKey, email, onDone }) => {
+  const [hasSaved, setHasSaved] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryKey);
+      toast.success('Recovery key copied to clipboard');
+    } catch (error) {
+      console.error('RecoveryKeySheet: Copy failed:', error);
+      toast.error('Failed to copy recovery key');
+    }
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([sheetText(recoveryKey, email)], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'monokey-recovery-key.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handlePrint = () => {
+    const printWindow = window.open('', '_blank', 'width=600,height=600');
+    if (!printWindow) {
+      toast.error('Allow pop-ups to print your recovery key');
+      return;
+    }
+    printWindow.document.write(
+      `<html><head><title>MonoKey Recovery Key</title></head>` +
+      `<body style="font-family: sans-serif; padding: 40px;">` +
+      `<pre style="font-size: 14px; white-space: pre-wrap;">${escapeHtml(sheetText(recoveryKey, email))}</pre>` +
+      `</body></html>`
+    );
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+    printWindow.close();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <div className="w-16 h-16 bg-green-100 dark:bg-green-900/20 rounded-full flex items-center justify-center mx-auto mb-4">
+          <LifeBuoy className="w-8 h-8 text-green-600 dark:text-green-400" />
+        </div>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+          Save Your Recovery Key
+        </h3>
+        <p className="text-gray-600 dark:text-gray-300">
+          This key can reset your MonoKey if you forget it. It will not be shown again.
+        </p>
+      </div>
+
+      <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4 text-center">
+        <code className="font-mono text-lg tracking-wider text-gray-900 dark:text-white break-all">
+          {recoveryKey}
+        </code>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <Button variant="outline" size="sm" onClick={handleCopy}>
+          <Copy className="w-4 h-4 mr-2" />
+          Copy
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleDownload}>
+          <Download className="w-4 h-4 mr-2" />
+          Download
+        </Button>
+        <Button variant="outline" size="sm" onClick={handlePrint}>
+          <Printer className="w-4 h-4 mr-2" />
+          Print
+        </Button>
+      </div>
+
+      <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-700 rounded-lg p-4">
+        <p className="text-sm text-yellow-800 dark:text-yellow-200">
+          Anyone with this key and access to your account can open your vault. Keep it offline, away from your MonoKey.
+        </p>
+      </div>
+
+      <label className="flex items-center space-x-3 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={hasSaved}
+          onChange={(e) => setHasSaved(e.target.checked)}
+          className="w-4 h-4 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500 bg-white dark:bg-gray-700"
+        />
+        <span className="text-sm text-gray-700 dark:text-gray-300">I have saved my recovery key</span>
+      </label>
+
+      <Button onClick={onDone} disabled={!hasSaved} className="w-full">
+        Done
+      </Button>
+    </div>
+  );
+};
+
+export default RecoveryKeySheet;
@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { Copy, Download, Users } from 'lucide-react';
+import Button from './UI/Button';
+import toast from 'react-hot-toast';
+
+interface RecoveryShareSheetProps {
+  shares: string[];
+  threshold: number;
+  email?: string;
+  onDone: () => void;
+}
+
+const shareText = (share: string, number: number, total: number, threshold: number, email?: string) => [
+  `MonoKey Recovery Share ${number} of ${total}`,
+  '',
+  ...(email ? [`Account: ${email}`] : []),
+  `Created: ${new Date().toLocaleString()}`,
+  '',
+  share,
+  '',
+  `Any ${threshold} of the ${total} shares together can reset the MonoKey for this`,
+  'account. On its own this share reveals nothing. Keep it somewhere safe and',
+  'only hand it back to the account owner when they ask for it.'
+].join('\n');
+
+// Walks through a freshly split set of recovery shares one at a time, so each
+// can be handed to a different trusted person as a QR code or text file. The
+// shares are never shown again once the sheet is closed.
+const RecoveryShareSheet: React.FC<RecoveryShareSheetProps> = ({ shares, threshold, email, onDone }) => {
+  const [current, setCurrent] = useState(0);
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  const share = shares[current];
+  const isLast = current === shares.length - 1;
+
+  useEffect(() => {
+    let isCancelled = false;
+    setQrCode(null);
+    QRCode.toDataURL(share, { errorCorrectionLevel: 'M', margin: 1, width: 200 })
+      .then(url => {
+        if (!isCancelled) setQrCode(url);
+      })
+      .catch(error => console.error('RecoveryShareSheet: QR code error:', error));
+    return () => {
+      isCancelled = true;
+    };
+  }, [share]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(share);
+      toast.success(`Share ${current + 1} copied to clipboard`);
+    } catch (error) {
+      console.error('RecoveryShareSheet: Copy failed:', error);
+      toast.error('Failed to copy recovery share');
+    }
+  };
+
+  const handleDownload = () => {
+    const text = shareText(share, current + 1, shares.length, threshold, email);
+    const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `monokey-recovery-share-${current + 1}.txt`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <div className="w-16 h-16 bg-green-100 dark:bg-green-900/20 rounded-full flex items-center justify-center mx-auto mb-4">
+          <Users className="w-8 h-8 text-green-600 dark:text-green-400" />
+        </div>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+          Share {current + 1} of {shares.length}
+        </h3>
+        <p className="text-gray-600 dark:text-gray-300">
+          Give this share to one trusted person. Any {threshold} shares together can reset your MonoKey.
+        </p>
+      </div>
+
+      <div className="flex justify-center">
+        <div className="w-[200px] h-[200px] bg-white rounded-lg flex items-center justify-center">
+          {qrCode && <img src={qrCode} alt={`Recovery share ${current + 1}`} className="w-full h-full" />}
+        </div>
+      </div>
+
+      <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4 text-center">
+        <code className="font-mono text-sm tracking-wider text-gray-900 dark:text-white break-all">
+          {share}
+        </code>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Button variant="outline" size="sm" onClick={handleCopy}>
+          <Copy className="w-4 h-4 mr-2" />
+          Copy
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleDownload}>
+          <Download className="w-4 h-4 mr-2" />
+          Download
+        </Button>
+      </div>
+
+      <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-700 rounded-lg p-4">
+        <p className="text-sm text-yellow-800 dark:text-yellow-200">
+          Shares will not be shown again. Keep no more than {threshold - 1} of them yourself, or a single lost device could reveal your recovery key.
+        </p>
+      </div>
+
+      <div className="flex space-x-3">
+        <Button
+          variant="outline"
+          onClick={() => setCurrent(prev => prev - 1)}
+          disabled={current === 0}
+          className="flex-1"
+        >
+          Previous
+        </Button>
+        <Button onClick={isLast ? onDone : () => setCurrent(prev => prev + 1)} className="flex-1">
+          {isLast ? 'Done' : 'Next Share'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryShareSheet;
@@ -0,0 +1,193 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Share2, UserMinus } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { DatabaseService } from '../utils/database';
+import { Credential, CredentialShare } from '../types';
+import Modal from './UI/Modal';
+import Input from './UI/Input';
+import Button from './UI/Button';
+import toast from 'react-hot-toast';
+
+interface ShareCredentialModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  credential: Credential | null;
+}
+
+const PERMISSIONS = [
+  { canEdit: false, label: 'Read-only' },
+  { canEdit: true, label: 'Can edit' }
+];
+
+// Shares one credential with other MonoKey users. The item key is encrypted to
+// each recipient's public key, so the server never sees it.
+const ShareCredentialModal: React.FC<ShareCredentialModalProps> = ({ isOpen, onClose, credential }) => {
+  const { vaultKey } = useAuth();
+  const [shares, setShares] = useState<CredentialShare[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [email, setEmail] = useState('');
+  const [canEdit, setCanEdit] = useState(false);
+  const [isSharing, setIsSharing] = useState(false);
+  const [busyShareId, setBusyShareId] = useState<string | null>(null);
+
+  const loadShares = useCallback(async () => {
+    if (!credential) return;
+    setIsLoading(true);
+    try {
+      setShares(await DatabaseService.getCredentialShares(credential.id));
+    } catch (error) {
+      console.error('ShareCredentialModal: Load shares error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load shares');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [credential]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setEmail('');
+      setCanEdit(false);
+      loadShares();
+    }
+  }, [isOpen, loadShares]);
+
+  const handleShare = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!credential || !vaultKey) return;
+
+    setIsSharing(true);
+    try {
+      console.log('ShareCredentialModal: Sharing credential...');
+      await DatabaseService.shareCredential(credential.id, email.trim(), canEdit, vaultKey);
+      toast.success(`Shared with ${email.trim()}`);
+      setEmail('');
+      await loadShares();
+    } catch (error) {
+      console.error('ShareCredentialModal: Share error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to share credential');
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const handlePermissionChange = async (share: CredentialShare, allowEdit: boolean) => {
+    setBusyShareId(share.id);
+    try {
+      await DatabaseService.updateSharePermission(share.id, allowEdit);
+      setShares(prev => prev.map(existing => existing.id === share.id ? { ...existing, canEdit: allowEdit } : existing));
+    } catch (error) {
+      console.error('ShareCredentialModal: Permission error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update permission');
+    } finally {
+      setBusyShareId(null);
+    }
+  };
+
+  const handleRevoke = async (share: CredentialShare) => {
+    if (!vaultKey) return;
+
+    setBusyShareId(share.id);
+    try {
+      console.log('ShareCredentialModal: Revoking share...');
+      await DatabaseService.revokeCredentialShare(share, vaultKey);
+      toast.success(`Stopped sharing with ${share.recipientEmail}`);
+      await loadShares();
+    } catch (error) {
+      console.error('ShareCredentialModal: Revoke error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke share');
+    } finally {
+      setBusyShareId(null);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Share ${credential?.accountName ?? 'Credential'}`}>
+      <div className="space-y-6">
+        <div className="text-center">
+          <div className="w-16 h-16 bg-blue-100 dark:bg-blue-900/20 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Share2 className="w-8 h-8 text-blue-600 dark:text-blue-400" />
+          </div>
+          <p className="text-gray-600 dark:text-gray-300">
+            Share this credential with other MonoKey users. Revoking a share re-encrypts the credential so the old key stops working.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-gray-900 dark:text-white">Shared With</h4>
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+            </div>
+          ) : shares.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Not shared with anyone yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {shares.map(share => (
+                <li key={share.id} className="py-2 flex items-center justify-between space-x-3">
+                  <span className="text-sm text-gray-900 dark:text-white truncate">{share.recipientEmail}</span>
+                  <div className="flex items-center space-x-2 flex-shrink-0">
+                    <select
+                      value={share.canEdit ? 'edit' : 'read'}
+                      onChange={(e) => handlePermissionChange(share, e.target.value === 'edit')}
+                      disabled={busyShareId === share.id}
+                      className="text-sm px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    >
+                      <option value="read">Read-only</option>
+                      <option value="edit">Can edit</option>
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => handleRevoke(share)}
+                      disabled={busyShareId === share.id || !vaultKey}
+                      className="p-1 text-red-600 hover:text-red-900 disabled:opacity-50 transition-colors"
+                      title="Stop sharing"
+                    >
+                      <UserMinus className="w-4 h-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <form onSubmit={handleShare} className="space-y-3 border-t border-gray-200 dark:border-gray-700 pt-4">
+          <Input
+            label="Recipient Email"
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="someone@example.com"
+            required
+          />
+          <div className="grid grid-cols-2 gap-2">
+            {PERMISSIONS.map(permission => (
+              <button
+                key={permission.label}
+                type="button"
+                onClick={() => setCanEdit(permission.canEdit)}
+                className={`px-3 py-2 text-sm rounded-lg border transition-colors ${
+                  canEdit === permission.canEdit
+                    ? 'border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-300'
+                    : 'border-gray-300 text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700'
+                }`}
+              >
+                {permission.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex space-x-3">
+            <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+              Close
+            </Button>
+            <Button type="submit" disabled={!email.trim() || !vaultKey} isLoading={isSharing} className="flex-1">
+              Share
+            </Button>
+          </div>
+        </form>
+      </div>
+    </Modal>
+  );
+};
+
+export default ShareCredentialModal;
@@ -0,0 +1,263 @@
+import React, { useState } from 'react';
+import {
+  ChevronDown,
+  ChevronRight,
+  Folder as FolderIcon,
+  FolderPlus,
+  Inbox,
+  Layers,
+  Pencil,
+  Star,
+  Tag,
+  Trash2
+} from 'lucide-react';
+import { useCredentials } from '../contexts/CredentialContext';
+import { FolderNode } from '../types';
+import { FolderTree } from '../utils/folders';
+import toast from 'react-hot-toast';
+
+export type VaultFilter =
+  | { kind: 'all' }
+  | { kind: 'favorites' }
+  | { kind: 'unfiled' }
+  | { kind: 'folder'; folderId: string }
+  | { kind: 'tag'; tag: string };
+
+// dataTransfer type carrying the id of a credential dragged onto a folder
+export const CREDENTIAL_DRAG_TYPE = 'application/x-monokey-credential';
+
+interface VaultSidebarProps {
+  filter: VaultFilter;
+  onFilterChange: (filter: VaultFilter) => void;
+  onDropCredential: (credentialId: string, folderId: string | null) => void;
+}
+
+// Inline name entry for a new folder (under parentId) or a rename
+type FolderDraft =
+  | { mode: 'create'; parentId?: string }
+  | { mode: 'rename'; folderId: string };
+
+const ROW_CLASS = 'w-full flex items-center space-x-2 px-2 py-1.5 rounded-md text-sm text-left transition-colors';
+
+const VaultSidebar: React.FC<VaultSidebarProps> = ({ filter, onFilterChange, onDropCredential }) => {
+  const { folders, folderTree, tags, createFolder, renameFolder, deleteFolder } = useCredentials();
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [draft, setDraft] = useState<FolderDraft | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const isActive = (candidate: VaultFilter) => JSON.stringify(candidate) === JSON.stringify(filter);
+  const rowClass = (candidate: VaultFilter, dropKey?: string) => `${ROW_CLASS} ${
+    dropKey && dropTarget === dropKey
+      ? 'bg-blue-100 dark:bg-blue-900/40 ring-1 ring-blue-500'
+      : isActive(candidate)
+        ? 'bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300'
+        : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+  }`;
+
+  // Drop handlers for a folder row, or "No folder" when folderId is null
+  const dropProps = (folderId: string | null) => {
+    const key = folderId ?? 'unfiled';
+    return {
+      onDragOver: (event: React.DragEvent) => {
+        if (!event.dataTransfer.types.includes(CREDENTIAL_DRAG_TYPE)) return;
+        event.preventDefault();
+        event.dataTransfer.dropEffect = 'move';
+        setDropTarget(key);
+      },
+      onDragLeave: () => setDropTarget(current => (current === key ? null : current)),
+      onDrop: (event: React.DragEvent) => {
+        event.preventDefault();
+        setDropTarget(null);
+        const credentialId = event.dataTransfer.getData(CREDENTIAL_DRAG_TYPE);
+        if (credentialId) onDropCredential(credentialId, folderId);
+      }
+    };
+  };
+
+  const startDraft = (next: FolderDraft, name = '') => {
+    setDraft(next);
+    setDraftName(name);
+    const parentId = next.mode === 'create' ? next.parentId : undefined;
+    if (parentId) {
+      setCollapsed(prev => {
+        const updated = new Set(prev);
+        updated.delete(parentId);
+        return updated;
+      });
+    }
+  };
+
+  const handleSubmitDraft = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const name = draftName.trim();
+    if (!draft || !name) {
+      setDraft(null);
+      return;
+    }
+
+    try {
+      if (draft.mode === 'create') {
+        await createFolder(name, draft.parentId);
+      } else {
+        await renameFolder(draft.folderId, name);
+      }
+      setDraft(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save folder');
+    }
+  };
+
+  const handleDeleteFolder = async (folder: FolderNode) => {
+    const nested = folder.children.length > 0 ? ' and its subfolders' : '';
+    if (!window.confirm(`Delete the folder "${folder.name}"${nested}? Items inside are kept and moved to No folder.`)) {
+      return;
+    }
+
+    try {
+      await deleteFolder(folder.id);
+      if (filter.kind === 'folder' && FolderTree.getSubtreeIds(folders, folder.id).has(filter.folderId)) {
+        onFilterChange({ kind: 'all' });
+      }
+      toast.success('Folder deleted');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete folder');
+    }
+  };
+
+  const renderDraftInput = (depth: number) => (
+    <form onSubmit={handleSubmitDraft} style={{ paddingLeft: `${depth * 12 + 8}px` }} className="py-1 pr-2">
+      <input
+        autoFocus
+        value={draftName}
+        onChange={(e) => setDraftName(e.target.value)}
+        onBlur={() => !draftName.trim() && setDraft(null)}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') setDraft(null);
+        }}
+        placeholder="Folder name"
+        className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+      />
+    </form>
+  );
+
+  const renderFolder = (folder: FolderNode, depth: number): React.ReactNode => {
+    const candidate: VaultFilter = { kind: 'folder', folderId: folder.id };
+    const isCollapsed = collapsed.has(folder.id);
+
+    if (draft?.mode === 'rename' && draft.folderId === folder.id) {
+      return <div key={folder.id}>{renderDraftInput(depth)}</div>;
+    }
+
+    return (
+      <div key={folder.id}>
+        <div className="group relative" {...dropProps(folder.id)}>
+          <button
+            onClick={() => onFilterChange(candidate)}
+            className={rowClass(candidate, folder.id)}
+            style={{ paddingLeft: `${depth * 12 + 8}px` }}
+          >
+            <span
+              onClick={(e) => {
+                e.stopPropagation();
+                setCollapsed(prev => {
+                  const updated = new Set(prev);
+                  if (updated.has(folder.id)) updated.delete(folder.id);
+                  else updated.add(folder.id);
+                  return updated;
+                });
+              }}
+              className={`flex-shrink-0 ${folder.children.length > 0 ? 'text-gray-400 hover:text-gray-600' : 'invisible'}`}
+            >
+              {isCollapsed ? <ChevronRight className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+            </span>
+            <FolderIcon className="w-4 h-4 flex-shrink-0" />
+            <span className="truncate pr-14">{folder.name}</span>
+          </button>
+          <div className="absolute right-1 top-1/2 -translate-y-1/2 hidden group-hover:flex items-center">
+            <button
+              onClick={() => startDraft({ mode: 'create', parentId: folder.id })}
+              className="p-1 text-gray-400 hover:text-blue-600"
+              title="New subfolder"
+            >
+              <FolderPlus className="w-3 h-3" />
+            </button>
+            <button
+              onClick={() => startDraft({ mode: 'rename', folderId: folder.id }, folder.name)}
+              className="p-1 text-gray-400 hover:text-blue-600"
+              title="Rename folder"
+            >
+              <Pencil className="w-3 h-3" />
+            </button>
+            <button
+              onClick={() => handleDeleteFolder(folder)}
+              className="p-1 text-gray-400 hover:text-red-600"
+              title="Delete folder"
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+        </div>
+        {!isCollapsed && folder.children.map(child => renderFolder(child, depth + 1))}
+        {draft?.mode === 'create' && draft.parentId === folder.id && renderDraftInput(depth + 1)}
+      </div>
+    );
+  };
+
+  return (
+    <nav className="space-y-6">
+      <div className="space-y-1">
+        <button onClick={() => onFilterChange({ kind: 'all' })} className={rowClass({ kind: 'all' })}>
+          <Layers className="w-4 h-4" />
+          <span>All items</span>
+        </button>
+        <button onClick={() => onFilterChange({ kind: 'favorites' })} className={rowClass({ kind: 'favorites' })}>
+          <Star className="w-4 h-4" />
+          <span>Favourites</span>
+        </button>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between px-2 mb-1">
+          <h3 className="text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">Folders</h3>
+          <button
+            onClick={() => startDraft({ mode: 'create' })}
+            className="text-gray-400 hover:text-blue-600"
+            title="New folder"
+          >
+            <FolderPlus className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="space-y-0.5">
+          {folderTree.map(folder => renderFolder(folder, 0))}
+          {draft?.mode === 'create' && !draft.parentId && renderDraftInput(0)}
+          <div {...dropProps(null)}>
+            <button onClick={() => onFilterChange({ kind: 'unfiled' })} className={rowClass({ kind: 'unfiled' }, 'unfiled')}>
+              <Inbox className="w-4 h-4" />
+              <span>No folder</span>
+            </button>
+          </div>
+        </div>
+        {folderTree.length > 0 && (
+          <p className="px-2 mt-2 text-xs text-gray-400 dark:text-gray-500">Drag items from your vault onto a folder to file them.</p>
+        )}
+      </div>
+
+      {tags.length > 0 && (
+        <div>
+          <h3 className="px-2 mb-1 text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">Tags</h3>
+          <div className="space-y-0.5">
+            {tags.map(tag => (
+              <button key={tag} onClick={() => onFilterChange({ kind: 'tag', tag })} className={rowClass({ kind: 'tag', tag })}>
+                <Tag className="w-4 h-4 flex-shrink-0" />
+                <span className="truncate">{tag}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </nav>
+  );
+};
+
+export default VaultSidebar;
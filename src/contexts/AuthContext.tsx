@@ -1,16 +1,28 @@
-import React, { createContext, useContext, useEffect, useState, useRef } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useState, useRef } from 'react';
 import { User as SupabaseUser } from '@supabase/supabase-js';
 import { supabase, authService } from '../utils/supabase';
-import { AuthState, User } from '../types';
+import { AuthState, AutoLockSettings, MonoKeyLockout, User } from '../types';
 import { CryptoUtils } from '../utils/crypto';
+import { DatabaseService } from '../utils/database';
+import { CryptoWorker } from '../utils/cryptoWorker';
+import { SessionVault } from '../utils/sessionVault';
+import { AutoLock } from '../utils/autoLock';
 
 interface AuthContextType extends AuthState {
   signIn: (email: string, password: string) => Promise<void>;
   signUp: (email: string, password: string, userData: any) => Promise<void>;
   signOut: () => Promise<void>;
-  verifyMonoKey: (monoKey: string) => boolean;
-  setMonoKey: (password: string) => void;
-  monoKey: string | null;
+  verifyMonoKey: (monoKey: string) => Promise<boolean>;
+  setMonoKey: (password: string) => Promise<void>;
+  vaultKey: CryptoKey | null;
+  lockVault: (reason?: string | null) => Promise<void>;
+  // Why the vault was last locked automatically, shown on the MonoKey prompt
+  lockReason: string | null;
+  autoLockSettings: AutoLockSettings;
+  // Wrong-MonoKey backoff shared with the server; null until first checked
+  monoKeyLockout: MonoKeyLockout | null;
+  refreshMonoKeyLockout: () => Promise<void>;
+  updateAutoLockSettings: (settings: AutoLockSettings) => void;
   clearAuthData: () => Promise<void>;
   refreshUser: () => Promise<void>;
   updateUserInContext: (updates: Partial<User>) => void;
@@ -29,16 +41,16 @@ export const useAuth = () => {
   return context;
 };
 
-// SessionStorage key for MonoKey
-const MONOKEY_SESSION_KEY = 'monokey_session';
-
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [isInitialLoading, setIsInitialLoading] = useState(true);
   const [isAuthProcessing, setIsAuthProcessing] = useState(false);
-  const [monoKey, setMonoKeyState] = useState<string | null>(null);
+  const [vaultKey, setVaultKey] = useState<CryptoKey | null>(null);
   const [isMonoKeyVerified, setIsMonoKeyVerified] = useState(false);
+  const [lockReason, setLockReason] = useState<string | null>(null);
+  const [monoKeyLockout, setMonoKeyLockout] = useState<MonoKeyLockout | null>(null);
+  const [autoLockSettings, setAutoLockSettings] = useState<AutoLockSettings>(() => AutoLock.load());
   
   const initializationRef = useRef(false);
   const isMountedRef = useRef(true);
@@ -58,16 +70,18 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     if (isMountedRef.current) {
       setUser(null);
       setIsAuthenticated(false);
-      setMonoKeyState(null);
+      setVaultKey(null);
       setIsMonoKeyVerified(false);
+      setLockReason(null);
+      setMonoKeyLockout(null);
     }
     
-    // Clear MonoKey from sessionStorage
+    // Forget the wrapped vault key kept for this tab session
     try {
-      sessionStorage.removeItem(MONOKEY_SESSION_KEY);
-      console.log('MonoKey cleared from sessionStorage');
+      await SessionVault.clear();
+      console.log('Vault session cleared');
     } catch (error) {
-      console.error('Error clearing MonoKey from sessionStorage:', error);
+      console.error('Error clearing vault session:', error);
     }
     
     // Clear all session data from storage
@@ -108,6 +122,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         lastName: profile.last_name,
         phoneNumber: profile.phone_number,
         monoPasswordHash: profile.mono_password_hash,
+        kdfParams: profile.kdf_params ?? undefined,
+        recoveryKeyCreatedAt: profile.recovery_key_created_at ?? undefined,
+        recoveryShareThreshold: profile.recovery_share_threshold ?? undefined,
+        recoveryShareCount: profile.recovery_share_count ?? undefined,
         createdAt: profile.created_at
       };
 
@@ -119,32 +137,50 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
-  const checkStoredMonoKey = (userProfile: User) => {
+  // Verifies a MonoKey and, on success, replaces a verifier that predates the
+  // user's current KDF parameters
+  const checkMonoKeyAgainstProfile = async (key: string, userProfile: User): Promise<boolean> => {
+    if (!userProfile.monoPasswordHash) return false;
+
+    const isValid = await CryptoWorker.run('verifyMonoKey', key, userProfile.monoPasswordHash);
+    const kdfParams = userProfile.kdfParams ?? CryptoUtils.DEFAULT_KDF_PARAMS;
+    if (isValid && CryptoUtils.needsVerifierUpgrade(userProfile.monoPasswordHash, kdfParams)) {
+      try {
+        console.log('Upgrading MonoKey verifier...');
+        const { monoKeyHash, kdfParams: upgradedParams } = await DatabaseService.upgradeMonoKeyVerifier(key);
+        if (isMountedRef.current) {
+          setUser(prev => prev ? { ...prev, monoPasswordHash: monoKeyHash, kdfParams: upgradedParams } : null);
+        }
+      } catch (error) {
+        // The old verifier still works, so retry on the next unlock
+        console.error('Error upgrading MonoKey verifier:', error);
+      }
+    }
+    return isValid;
+  };
+
+  // Reopens the vault after a reload using the wrapped vault key saved for
+  // this tab session; the MonoKey itself is never stored
+  const restoreVaultSession = async (userProfile: User) => {
+    if (!userProfile.monoPasswordHash) return false;
+
     try {
-      const storedMonoKey = sessionStorage.getItem(MONOKEY_SESSION_KEY);
-      if (storedMonoKey && userProfile.monoPasswordHash) {
-        console.log('Found stored MonoKey, verifying...');
-        
-        // Verify the stored MonoKey against the user's hash
-        if (CryptoUtils.compareHash(storedMonoKey, userProfile.monoPasswordHash)) {
-          console.log('Stored MonoKey verified successfully');
-          if (isMountedRef.current) {
-            setMonoKeyState(storedMonoKey);
-            setIsMonoKeyVerified(true);
-          }
-          return true;
-        } else {
-          console.log('Stored MonoKey verification failed, clearing...');
-          sessionStorage.removeItem(MONOKEY_SESSION_KEY);
+      const restoredVaultKey = await SessionVault.restore(userProfile.id);
+      if (restoredVaultKey) {
+        console.log('Vault session restored');
+        if (isMountedRef.current) {
+          setVaultKey(restoredVaultKey);
+          setIsMonoKeyVerified(true);
         }
+        return true;
       }
     } catch (error) {
-      console.error('Error checking stored MonoKey:', error);
+      console.error('Error restoring vault session:', error);
       // Clear potentially corrupted data
       try {
-        sessionStorage.removeItem(MONOKEY_SESSION_KEY);
+        await SessionVault.clear();
       } catch (clearError) {
-        console.error('Error clearing corrupted MonoKey:', clearError);
+        console.error('Error clearing corrupted vault session:', clearError);
       }
     }
     return false;
@@ -164,8 +200,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         if (isMountedRef.current) {
           setUser(null);
           setIsAuthenticated(false);
-          setMonoKeyState(null);
+          setVaultKey(null);
           setIsMonoKeyVerified(false);
+          setLockReason(null);
+          setMonoKeyLockout(null);
         }
         return;
       }
@@ -176,29 +214,35 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           setUser(userProfile);
           setIsAuthenticated(true);
           
-          // Check for stored MonoKey after setting user
-          checkStoredMonoKey(userProfile);
+          // Restore the unlocked vault after setting user
+          await restoreVaultSession(userProfile);
           
           console.log('User refreshed successfully');
         } else if (isMountedRef.current) {
           setUser(null);
           setIsAuthenticated(false);
-          setMonoKeyState(null);
+          setVaultKey(null);
           setIsMonoKeyVerified(false);
+          setLockReason(null);
+          setMonoKeyLockout(null);
         }
       } else if (isMountedRef.current) {
         setUser(null);
         setIsAuthenticated(false);
-        setMonoKeyState(null);
+        setVaultKey(null);
         setIsMonoKeyVerified(false);
+        setLockReason(null);
+        setMonoKeyLockout(null);
       }
     } catch (error) {
       console.error('Error refreshing user:', error);
       if (isMountedRef.current) {
         setUser(null);
         setIsAuthenticated(false);
-        setMonoKeyState(null);
+        setVaultKey(null);
         setIsMonoKeyVerified(false);
+        setLockReason(null);
+        setMonoKeyLockout(null);
       }
     }
   };
@@ -229,6 +273,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       
       try {
         console.log('Initializing auth...');
+
+        // Older builds kept the plaintext MonoKey in sessionStorage
+        SessionVault.removeLegacyMonoKey();
         
         // Get current session with timeout
         const sessionPromise = supabase.auth.getSession();
@@ -261,8 +308,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
             setUser(userProfile);
             setIsAuthenticated(true);
             
-            // Check for stored MonoKey after setting user
-            checkStoredMonoKey(userProfile);
+            // Restore the unlocked vault after setting user
+            await restoreVaultSession(userProfile);
             
             console.log('Auth initialized with existing session');
           } else if (mounted && isMountedRef.current) {
@@ -309,15 +356,17 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
             if (isMountedRef.current) {
               setUser(null);
               setIsAuthenticated(false);
-              setMonoKeyState(null);
+              setVaultKey(null);
               setIsMonoKeyVerified(false);
+              setLockReason(null);
+              setMonoKeyLockout(null);
               setIsAuthProcessing(false);
             }
-            // Clear MonoKey from sessionStorage on sign out
+            // Forget the wrapped vault key on sign out
             try {
-              sessionStorage.removeItem(MONOKEY_SESSION_KEY);
+              await SessionVault.clear();
             } catch (error) {
-              console.error('Error clearing MonoKey on sign out:', error);
+              console.error('Error clearing vault session on sign out:', error);
             }
             return;
           }
@@ -333,16 +382,18 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
               setUser(userProfile);
               setIsAuthenticated(true);
               
-              // Check for stored MonoKey after sign in
-              checkStoredMonoKey(userProfile);
+              // Restore the unlocked vault after sign in
+              await restoreVaultSession(userProfile);
               
               console.log('Sign in completed successfully');
             } else if (mounted && isMountedRef.current) {
               console.error('Failed to fetch user profile after sign in');
               setUser(null);
               setIsAuthenticated(false);
-              setMonoKeyState(null);
+              setVaultKey(null);
               setIsMonoKeyVerified(false);
+              setLockReason(null);
+              setMonoKeyLockout(null);
             }
             
             if (mounted && isMountedRef.current) {
@@ -361,8 +412,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
                 setUser(userProfile);
                 setIsAuthenticated(true);
                 
-                // Check for stored MonoKey after token refresh
-                checkStoredMonoKey(userProfile);
+                // Restore the unlocked vault after token refresh
+                await restoreVaultSession(userProfile);
                 
                 console.log('User profile updated after token refresh');
               }
@@ -374,8 +425,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           if (!session && mounted && isMountedRef.current) {
             setUser(null);
             setIsAuthenticated(false);
-            setMonoKeyState(null);
+            setVaultKey(null);
             setIsMonoKeyVerified(false);
+            setLockReason(null);
+            setMonoKeyLockout(null);
             setIsAuthProcessing(false);
           }
         } catch (error) {
@@ -383,8 +436,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           if (mounted && isMountedRef.current) {
             setUser(null);
             setIsAuthenticated(false);
-            setMonoKeyState(null);
+            setVaultKey(null);
             setIsMonoKeyVerified(false);
+            setLockReason(null);
+            setMonoKeyLockout(null);
             setIsAuthProcessing(false);
           }
         }
@@ -519,20 +574,22 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
     
     try {
-      // Clear state first - including MonoKey
+      // Clear state first - including the vault key
       if (isMountedRef.current) {
         setUser(null);
         setIsAuthenticated(false);
-        setMonoKeyState(null);
+        setVaultKey(null);
         setIsMonoKeyVerified(false);
+        setLockReason(null);
+        setMonoKeyLockout(null);
       }
       
-      // Clear MonoKey from sessionStorage
+      // Forget the wrapped vault key kept for this tab session
       try {
-        sessionStorage.removeItem(MONOKEY_SESSION_KEY);
-        console.log('MonoKey cleared from sessionStorage on sign out');
+        await SessionVault.clear();
+        console.log('Vault session cleared on sign out');
       } catch (error) {
-        console.error('Error clearing MonoKey on sign out:', error);
+        console.error('Error clearing vault session on sign out:', error);
       }
       
       // Clear all session data from storage
@@ -554,29 +611,163 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
-  const verifyMonoKey = (inputKey: string): boolean => {
-    if (!user?.monoPasswordHash) return false;
-    
-    return CryptoUtils.compareHash(inputKey, user.monoPasswordHash);
+  const refreshMonoKeyLockout = useCallback(async () => {
+    const lockout = await DatabaseService.getMonoKeyLockout();
+    if (isMountedRef.current) {
+      setMonoKeyLockout(lockout);
+    }
+  }, []);
+
+  // Every MonoKey check goes through the server-side attempt counter, so the
+  // backoff survives reloads and applies on every device
+  const verifyMonoKey = async (inputKey: string): Promise<boolean> => {
+    if (!user) return false;
+
+    const lockout = await DatabaseService.getMonoKeyLockout();
+    if (isMountedRef.current) {
+      setMonoKeyLockout(lockout);
+    }
+    if (lockout.lockedUntil !== null) {
+      throw new Error('Too many failed attempts. Please wait before trying again.');
+    }
+
+    const isValid = await checkMonoKeyAgainstProfile(inputKey, user);
+    if (isValid) {
+      if (lockout.failedAttempts > 0) {
+        try {
+          await DatabaseService.resetMonoKeyAttempts();
+        } catch (error) {
+          // The next correct MonoKey resets it instead
+          console.error('Error resetting MonoKey attempts:', error);
+        }
+      }
+      if (isMountedRef.current) {
+        setMonoKeyLockout({ failedAttempts: 0, lockedUntil: null });
+      }
+    } else {
+      console.log('Wrong MonoKey - recording failed attempt');
+      const updatedLockout = await DatabaseService.recordFailedMonoKeyAttempt();
+      if (isMountedRef.current) {
+        setMonoKeyLockout(updatedLockout);
+      }
+    }
+    return isValid;
   };
 
-  const setMonoKey = (key: string) => {
-    console.log('Setting MonoKey - storing in sessionStorage for session persistence');
+  const setMonoKey = async (key: string) => {
+    console.log('Setting MonoKey - unlocking vault key');
+    const unlockedVaultKey = await DatabaseService.unlockVault(key);
+
+    console.log('Vault unlocked - wrapping vault key for session persistence');
     if (isMountedRef.current) {
-      setMonoKeyState(key);
+      setVaultKey(unlockedVaultKey);
       setIsMonoKeyVerified(true);
-      
-      // Store MonoKey in sessionStorage for session persistence
+      setLockReason(null);
+    }
+
+    // Keep only the wrapped vault key so a reload can skip the prompt
+    if (isMountedRef.current && user) {
       try {
-        sessionStorage.setItem(MONOKEY_SESSION_KEY, key);
-        console.log('MonoKey stored in sessionStorage successfully');
+        await SessionVault.store(unlockedVaultKey, user.id);
+        console.log('Vault session stored successfully');
       } catch (error) {
-        console.error('Error storing MonoKey in sessionStorage:', error);
-        // Continue without sessionStorage if it fails
+        console.error('Error storing vault session:', error);
+        // Continue without session persistence if it fails
       }
     }
+
+    // Other users encrypt keys to this user's public key, so make sure one exists
+    DatabaseService.ensureKeyPair(unlockedVaultKey).catch(error => {
+      console.error('Error creating keypair:', error);
+    });
+  };
+
+  // Drops the vault key but keeps the user signed in, so unlocking only needs
+  // the MonoKey again. The session copy goes too, or a reload would reopen it.
+  const lockVault = useCallback(async (reason: string | null = null) => {
+    console.log('Locking vault:', reason ?? 'manual lock');
+    if (isMountedRef.current) {
+      setVaultKey(null);
+      setIsMonoKeyVerified(false);
+      setLockReason(reason);
+    }
+
+    try {
+      await SessionVault.clear();
+    } catch (error) {
+      console.error('Error clearing vault session on lock:', error);
+    }
+  }, []);
+
+  const updateAutoLockSettings = (settings: AutoLockSettings) => {
+    console.log('Updating auto-lock settings:', settings);
+    AutoLock.save(settings);
+    setAutoLockSettings(settings);
   };
 
+  // Auto-lock on inactivity, on the tab staying hidden, and when a late timer
+  // shows the system was asleep
+  useEffect(() => {
+    if (!isMonoKeyVerified) return;
+
+    const { idleMinutes, hiddenMinutes, lockOnSleep } = autoLockSettings;
+    let lastActivity = Date.now();
+    let lastCheck = Date.now();
+    let hiddenAt: number | null = document.hidden ? Date.now() : null;
+    let isLocking = false;
+
+    const lock = (reason: string) => {
+      if (isLocking) return;
+      isLocking = true;
+      lockVault(reason);
+    };
+
+    const checkHidden = () => {
+      if (hiddenAt !== null && hiddenMinutes !== null && Date.now() - hiddenAt >= hiddenMinutes * 60 * 1000) {
+        lock(hiddenMinutes === 0
+          ? 'Vault locked when the tab was hidden.'
+          : `Vault locked after the tab was hidden for ${AutoLock.describe(hiddenMinutes)}.`);
+      }
+    };
+
+    const recordActivity = () => {
+      lastActivity = Date.now();
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        hiddenAt = Date.now();
+        checkHidden();
+      } else {
+        checkHidden();
+        hiddenAt = null;
+      }
+    };
+
+    const check = () => {
+      const now = Date.now();
+      if (lockOnSleep && now - lastCheck > AutoLock.CHECK_INTERVAL_MS + AutoLock.CLOCK_JUMP_MS) {
+        lock('Vault locked because your device went to sleep.');
+      } else if (idleMinutes !== null && now - lastActivity >= idleMinutes * 60 * 1000) {
+        lock(`Vault locked after ${AutoLock.describe(idleMinutes)} of inactivity.`);
+      } else {
+        checkHidden();
+      }
+      lastCheck = now;
+    };
+
+    const activityEvents = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel', 'scroll'];
+    activityEvents.forEach(event => window.addEventListener(event, recordActivity, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    const interval = window.setInterval(check, AutoLock.CHECK_INTERVAL_MS);
+
+    return () => {
+      activityEvents.forEach(event => window.removeEventListener(event, recordActivity));
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.clearInterval(interval);
+    };
+  }, [isMonoKeyVerified, autoLockSettings, lockVault]);
+
   const value = {
     user,
     isAuthenticated,
@@ -589,7 +780,13 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     signOut,
     verifyMonoKey,
     setMonoKey,
-    monoKey,
+    vaultKey,
+    lockVault,
+    lockReason,
+    autoLockSettings,
+    updateAutoLockSettings,
+    monoKeyLockout,
+    refreshMonoKeyLockout,
     clearAuthData,
     refreshUser,
     updateUserInContext
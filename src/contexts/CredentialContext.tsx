@@ -1,17 +1,49 @@
-import React, { createContext, useContext, useEffect, useState, useRef } from 'react';
+import React, { createContext, useContext, useEffect, useMemo, useState, useRef } from 'react';
 import { useAuth } from './AuthContext';
 import { DatabaseService } from '../utils/database';
-import { Credential } from '../types';
+import { UriMatcher } from '../utils/uriMatching';
+import { FolderTree } from '../utils/folders';
+import { Tags } from '../utils/tags';
+import { AttachmentStorage } from '../utils/attachments';
+import { Collection, Credential, Folder, FolderNode, Organization, SharedCredential } from '../types';
 import toast from 'react-hot-toast';
 
 interface CredentialContextType {
+  // Personal items followed by organization items, which carry a collectionId
   credentials: Credential[];
+  sharedCredentials: SharedCredential[];
+  organizations: Organization[];
+  collections: Collection[];
+  folders: Folder[];
+  // Personal folders nested under their parents, sorted by name
+  folderTree: FolderNode[];
+  // Every tag used by an item in the vault, sorted
+  tags: string[];
   isLoadingCredentials: boolean;
   hasLoadedCredentials: boolean;
+  loadProgress: { processed: number; total: number } | null;
   addCredential: (credential: Omit<Credential, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
   updateCredential: (id: string, credential: Partial<Credential>) => Promise<void>;
   removeCredential: (id: string) => Promise<void>;
+  updateSharedCredential: (shareId: string, credential: Partial<Credential>) => Promise<void>;
+  leaveSharedCredential: (shareId: string) => Promise<void>;
+  createFolder: (name: string, parentId?: string) => Promise<void>;
+  renameFolder: (id: string, name: string) => Promise<void>;
+  deleteFolder: (id: string) => Promise<void>;
+  moveCredentialToFolder: (credentialId: string, folderId: string | null) => Promise<void>;
+  // Uploads go to storage first and are then recorded in the item's payload;
+  // works for personal, organization and editable shared items
+  addAttachment: (
+    credential: Credential | SharedCredential,
+    file: File,
+    onProgress?: (uploaded: number, total: number) => void
+  ) => Promise<void>;
+  removeAttachment: (credential: Credential | SharedCredential, attachmentId: string) => Promise<void>;
   loadCredentials: () => Promise<void>;
+  reloadOrganizations: () => Promise<void>;
+  // Items with a saved website matching the URL, personal and organization
+  // items first, then those shared with the user
+  findCredentialsForUrl: (url: string) => Credential[];
   clearCredentials: () => void;
 }
 
@@ -26,16 +58,23 @@ export const useCredentials = () => {
 };
 
 export const CredentialProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { user, monoKey, isInitialLoading, isMonoKeyVerified } = useAuth();
+  const { user, vaultKey, isInitialLoading, isMonoKeyVerified } = useAuth();
   const [credentials, setCredentials] = useState<Credential[]>([]);
+  const [sharedCredentials, setSharedCredentials] = useState<SharedCredential[]>([]);
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [folders, setFolders] = useState<Folder[]>([]);
   const [isLoadingCredentials, setIsLoadingCredentials] = useState(false);
   const [hasLoadedCredentials, setHasLoadedCredentials] = useState(false);
+  const [loadProgress, setLoadProgress] = useState<{ processed: number; total: number } | null>(null);
   
   // Use refs to track state without causing re-renders
   const loadingRef = useRef(false);
   const currentUserRef = useRef<string | null>(null);
   const hasLoadedForCurrentUserRef = useRef(false);
   const isMountedRef = useRef(true);
+  // Bumped when the vault locks so a load still in flight discards its results
+  const loadGenerationRef = useRef(0);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -60,11 +99,17 @@ export const CredentialProvider: React.FC<{ children: React.ReactNode }> = ({ ch
       console.log('CredentialContext: User changed, resetting state');
       currentUserRef.current = userId;
       hasLoadedForCurrentUserRef.current = false;
+      loadGenerationRef.current++;
       
       if (isMountedRef.current) {
         setCredentials([]);
+        setSharedCredentials([]);
+        setOrganizations([]);
+        setCollections([]);
+        setFolders([]);
         setHasLoadedCredentials(false);
         setIsLoadingCredentials(false);
+        setLoadProgress(null);
       }
       loadingRef.current = false;
       
@@ -75,10 +120,29 @@ export const CredentialProvider: React.FC<{ children: React.ReactNode }> = ({ ch
       }
     }
 
+    // The vault was locked: wipe decrypted data so unlocking loads it again
+    if (userId && !vaultKey && (hasLoadedForCurrentUserRef.current || loadingRef.current)) {
+      console.log('CredentialContext: Vault locked, wiping credentials');
+      loadGenerationRef.current++;
+      hasLoadedForCurrentUserRef.current = false;
+      loadingRef.current = false;
+      if (isMountedRef.current) {
+        setCredentials([]);
+        setSharedCredentials([]);
+        setOrganizations([]);
+        setCollections([]);
+        setFolders([]);
+        setHasLoadedCredentials(false);
+        setIsLoadingCredentials(false);
+        setLoadProgress(null);
+      }
+      return;
+    }
+
     // Load credentials if ALL conditions are met
     const shouldLoad = userId && 
                       isMonoKeyVerified && 
-                      monoKey && 
+                      vaultKey && 
                       !hasLoadedForCurrentUserRef.current && 
                       !loadingRef.current;
 
@@ -89,17 +153,17 @@ export const CredentialProvider: React.FC<{ children: React.ReactNode }> = ({ ch
       console.log('CredentialContext: Conditions not met for loading:', {
         hasUser: !!userId,
         isMonoKeyVerified,
-        hasMonoKey: !!monoKey,
+        hasVaultKey: !!vaultKey,
         hasLoaded: hasLoadedForCurrentUserRef.current,
         isLoading: loadingRef.current
       });
     }
-  }, [user?.id, isMonoKeyVerified, monoKey, isInitialLoading]);
+  }, [user?.id, isMonoKeyVerified, vaultKey, isInitialLoading]);
 
   const loadCredentials = async () => {
-    if (!monoKey || !user || !isMonoKeyVerified) {
+    if (!vaultKey || !user || !isMonoKeyVerified) {
       console.log('CredentialContext: Missing requirements for loading credentials:', { 
-        hasMonoKey: !!monoKey, 
+        hasVaultKey: !!vaultKey, 
         hasUser: !!user, 
         isVerified: isMonoKeyVerified 
       });
@@ -123,20 +187,66 @@ export const CredentialProvider: React.FC<{ children: React.ReactNode }> = ({ ch
       setIsLoadingCredentials(true);
     }
     
+    // A first load shows rows as they are decrypted; a reload keeps the
+    // current list on screen until the new one is complete
+    const isFirstLoad = !hasLoadedForCurrentUserRef.current;
+    const generation = loadGenerationRef.current;
+    const isCurrentLoad = () => isMountedRef.current && generation === loadGenerationRef.current;
+
     try {
       console.log('CredentialContext: Loading credentials from database...');
-      const creds = await DatabaseService.getCredentials(monoKey);
+      const creds = await DatabaseService.getCredentials(vaultKey, (batch, processed, total) => {
+        if (!isCurrentLoad()) return;
+        setLoadProgress({ processed, total });
+        if (isFirstLoad) {
+          setCredentials(prev => processed === 0 ? [] : [...prev, ...batch]);
+        }
+      });
       console.log('CredentialContext: Loaded', creds.length, 'credentials');
-      
-      if (isMountedRef.current) {
-        setCredentials(creds);
+
+      // Items shared by other users; a failure here should not hide the vault
+      let shared: SharedCredential[] = [];
+      try {
+        shared = await DatabaseService.getSharedWithMe(vaultKey);
+        console.log('CredentialContext: Loaded', shared.length, 'shared credentials');
+      } catch (error) {
+        console.error('CredentialContext: Load shared credentials error:', error);
+      }
+
+      // Organization items, likewise optional
+      let organizationVault: Awaited<ReturnType<typeof DatabaseService.getOrganizationVault>> = {
+        organizations: [],
+        collections: [],
+        credentials: []
+      };
+      try {
+        organizationVault = await DatabaseService.getOrganizationVault(vaultKey);
+        console.log('CredentialContext: Loaded', organizationVault.credentials.length, 'organization credentials');
+      } catch (error) {
+        console.error('CredentialContext: Load organization credentials error:', error);
+      }
+
+      // Folders only organise the vault, so items still show without them
+      let loadedFolders: Folder[] = [];
+      try {
+        loadedFolders = await DatabaseService.getFolders(vaultKey);
+      } catch (error) {
+        console.error('CredentialContext: Load folders error:', error);
+      }
+
+      if (isCurrentLoad()) {
+        setCredentials([...creds, ...organizationVault.credentials]);
+        setSharedCredentials(shared);
+        setOrganizations(organizationVault.organizations);
+        setCollections(organizationVault.collections);
+        setFolders(loadedFolders);
         setHasLoadedCredentials(true);
         hasLoadedForCurrentUserRef.current = true;
         console.log('CredentialContext: Credentials loaded successfully');
       }
     } catch (error: any) {
       console.error('CredentialContext: Load credentials error:', error);
-      if (isMountedRef.current) {
+      if (isCurrentLoad()) {
         toast.error('Failed to load credentials');
         // Don't mark as loaded on error
         setHasLoadedCredentials(false);
@@ -144,20 +254,21 @@ export const CredentialProvider: React.FC<{ children: React.ReactNode }> = ({ ch
       }
     } finally {
       console.log('CredentialContext: Finishing credential load...');
-      if (isMountedRef.current) {
+      if (isCurrentLoad()) {
         setIsLoadingCredentials(false);
+        setLoadProgress(null);
+        loadingRef.current = false;
       }
-      loadingRef.current = false;
     }
   };
 
   const addCredential = async (credentialData: Omit<Credential, 'id' | 'createdAt' | 'updatedAt'>) => {
-    if (!monoKey) {
+    if (!vaultKey) {
       throw new Error('MonoKey required');
     }
 
     try {
-      const savedCredential = await DatabaseService.saveCredential(credentialData, monoKey);
+      const savedCredential = await DatabaseService.saveCredential(credentialData, vaultKey);
       
       const newCredential: Credential = {
         id: savedCredential.id,
@@ -176,12 +287,12 @@ export const CredentialProvider: React.FC<{ children: React.ReactNode }> = ({ ch
   };
 
   const updateCredential = async (id: string, credentialData: Partial<Credential>) => {
-    if (!monoKey) {
+    if (!vaultKey) {
       throw new Error('MonoKey required');
     }
 
     try {
-      await DatabaseService.updateCredential(id, credentialData, monoKey);
+      await DatabaseService.updateCredential(id, credentialData, vaultKey);
       
       if (isMountedRef.current) {
         setCredentials(prev => prev.map(cred => 
@@ -213,26 +324,211 @@ export const CredentialProvider: React.FC<{ children: React.ReactNode }> = ({ ch
     }
   };
 
+  const updateSharedCredential = async (shareId: string, credentialData: Partial<Credential>) => {
+    if (!vaultKey) {
+      throw new Error('MonoKey required');
+    }
+
+    try {
+      await DatabaseService.updateSharedCredential(shareId, credentialData, vaultKey);
+
+      if (isMountedRef.current) {
+        setSharedCredentials(prev => prev.map(cred =>
+          cred.shareId === shareId
+            ? { ...cred, ...credentialData, updatedAt: new Date().toISOString() }
+            : cred
+        ));
+      }
+    } catch (error) {
+      console.error('CredentialContext: Update shared credential error:', error);
+      throw error;
+    }
+  };
+
+  const leaveSharedCredential = async (shareId: string) => {
+    try {
+      await DatabaseService.leaveSharedCredential(shareId);
+
+      if (isMountedRef.current) {
+        setSharedCredentials(prev => prev.filter(cred => cred.shareId !== shareId));
+      }
+    } catch (error) {
+      console.error('CredentialContext: Leave shared credential error:', error);
+      throw error;
+    }
+  };
+
+  // Refreshes organizations, collections and their items after membership
+  // or collection changes, leaving personal items as they are
+  const reloadOrganizations = async () => {
+    if (!vaultKey) {
+      throw new Error('MonoKey required');
+    }
+
+    const generation = loadGenerationRef.current;
+    const organizationVault = await DatabaseService.getOrganizationVault(vaultKey);
+
+    if (isMountedRef.current && generation === loadGenerationRef.current) {
+      setOrganizations(organizationVault.organizations);
+      setCollections(organizationVault.collections);
+      setCredentials(prev => [...prev.filter(cred => !cred.collectionId), ...organizationVault.credentials]);
+    }
+  };
+
+  const createFolder = async (name: string, parentId?: string) => {
+    if (!vaultKey) {
+      throw new Error('MonoKey required');
+    }
+
+    try {
+      const folder = await DatabaseService.createFolder(name, parentId ?? null, vaultKey);
+      if (isMountedRef.current) {
+        setFolders(prev => [...prev, folder]);
+      }
+    } catch (error) {
+      console.error('CredentialContext: Create folder error:', error);
+      throw error;
+    }
+  };
+
+  const renameFolder = async (id: string, name: string) => {
+    if (!vaultKey) {
+      throw new Error('MonoKey required');
+    }
+
+    try {
+      await DatabaseService.renameFolder(id, name, vaultKey);
+      if (isMountedRef.current) {
+        setFolders(prev => prev.map(folder => folder.id === id ? { ...folder, name } : folder));
+      }
+    } catch (error) {
+      console.error('CredentialContext: Rename folder error:', error);
+      throw error;
+    }
+  };
+
+  const deleteFolder = async (id: string) => {
+    try {
+      await DatabaseService.deleteFolder(id);
+      if (isMountedRef.current) {
+        const removed = FolderTree.getSubtreeIds(folders, id);
+        setFolders(prev => prev.filter(folder => !removed.has(folder.id)));
+        setCredentials(prev => prev.map(cred =>
+          cred.folderId && removed.has(cred.folderId) ? { ...cred, folderId: undefined } : cred
+        ));
+      }
+    } catch (error) {
+      console.error('CredentialContext: Delete folder error:', error);
+      throw error;
+    }
+  };
+
+  const moveCredentialToFolder = async (credentialId: string, folderId: string | null) => {
+    try {
+      await DatabaseService.moveCredentialToFolder(credentialId, folderId);
+      if (isMountedRef.current) {
+        setCredentials(prev => prev.map(cred =>
+          cred.id === credentialId ? { ...cred, folderId: folderId ?? undefined } : cred
+        ));
+      }
+    } catch (error) {
+      console.error('CredentialContext: Move credential error:', error);
+      throw error;
+    }
+  };
+
+  // Saves the item's attachment list through the matching update path
+  const saveAttachments = async (credential: Credential | SharedCredential, attachments: Credential['attachments']) => {
+    if ('shareId' in credential) {
+      await updateSharedCredential(credential.shareId, { attachments });
+    } else {
+      await updateCredential(credential.id, { attachments });
+    }
+  };
+
+  const addAttachment = async (
+    credential: Credential | SharedCredential,
+    file: File,
+    onProgress?: (uploaded: number, total: number) => void
+  ) => {
+    const attachment = await AttachmentStorage.upload(credential.id, file, onProgress);
+
+    try {
+      await saveAttachments(credential, [...(credential.attachments ?? []), attachment]);
+    } catch (error) {
+      console.error('CredentialContext: Save attachment error:', error);
+      await AttachmentStorage.remove([attachment.id]).catch(cleanupError =>
+        console.error('CredentialContext: Failed to remove unsaved attachment:', attachment.id, cleanupError)
+      );
+      throw error;
+    }
+  };
+
+  // The item stops referencing the file before its chunks are deleted, so a
+  // failed cleanup never leaves the item pointing at a missing file
+  const removeAttachment = async (credential: Credential | SharedCredential, attachmentId: string) => {
+    await saveAttachments(credential, (credential.attachments ?? []).filter(attachment => attachment.id !== attachmentId));
+
+    try {
+      await AttachmentStorage.remove([attachmentId]);
+    } catch (error) {
+      console.error('CredentialContext: Remove attachment error:', error);
+    }
+  };
+
+  const folderTree = useMemo(() => FolderTree.build(folders), [folders]);
+  const tags = useMemo(
+    () => Tags.collect([...credentials, ...sharedCredentials]),
+    [credentials, sharedCredentials]
+  );
+
+  const findCredentialsForUrl = (url: string): Credential[] => {
+    return [...credentials, ...sharedCredentials].filter(cred => UriMatcher.matchesCredential(cred, url));
+  };
+
   const clearCredentials = () => {
     console.log('CredentialContext: Clearing credentials from context');
     if (isMountedRef.current) {
       setCredentials([]);
+      setSharedCredentials([]);
+      setOrganizations([]);
+      setCollections([]);
+      setFolders([]);
       setHasLoadedCredentials(false);
       setIsLoadingCredentials(false);
+      setLoadProgress(null);
     }
     loadingRef.current = false;
+    loadGenerationRef.current++;
     currentUserRef.current = null;
     hasLoadedForCurrentUserRef.current = false;
   };
 
   const value = {
     credentials,
+    sharedCredentials,
+    organizations,
+    collections,
+    folders,
+    folderTree,
+    tags,
     isLoadingCredentials,
     hasLoadedCredentials,
+    loadProgress,
     addCredential,
     updateCredential,
     removeCredential,
+    updateSharedCredential,
+    leaveSharedCredential,
+    createFolder,
+    renameFolder,
+    deleteFolder,
+    moveCredentialToFolder,
+    addAttachment,
+    removeAttachment,
     loadCredentials,
+    reloadOrganizations,
+    findCredentialsForUrl,
     clearCredentials
   };
 
@@ -0,0 +1,35 @@
+// Password rules for well-known sites, keyed by registrable domain. Uses the
+// same shape and syntax as Apple's password-manager-resources quirks file so
+// entries can be copied across unchanged.
+export const SITE_PASSWORD_RULES: Record<string, { 'password-rules': string }> = {
+  'americanexpress.com': {
+    'password-rules': 'minlength: 8; maxlength: 20; max-consecutive: 4; required: lower, upper; required: digit; allowed: [%&_?#=];'
+  },
+  'apple.com': {
+    'password-rules': 'minlength: 8; maxlength: 63; required: lower; required: upper; required: digit; allowed: ascii-printable;'
+  },
+  'bankofamerica.com': {
+    'password-rules': 'minlength: 8; maxlength: 20; max-consecutive: 3; required: lower; required: upper; required: digit; allowed: [-@#*()+={}/?~;,._];'
+  },
+  'battle.net': {
+    'password-rules': 'minlength: 8; maxlength: 16; required: lower, upper; allowed: digit, special;'
+  },
+  'chase.com': {
+    'password-rules': 'minlength: 8; maxlength: 32; max-consecutive: 2; required: lower, upper; required: digit; required: [!#$%+/=@~];'
+  },
+  'citi.com': {
+    'password-rules': 'minlength: 6; maxlength: 50; max-consecutive: 2; required: lower, upper; required: digit; allowed: [_!@$];'
+  },
+  'ebay.com': {
+    'password-rules': 'minlength: 6; maxlength: 64; required: lower, upper; allowed: digit, [!@#$%^&*];'
+  },
+  'hsbc.com': {
+    'password-rules': 'minlength: 8; maxlength: 30; required: lower; required: upper; required: digit; allowed: [-!$*.=?@_\'];'
+  },
+  'paypal.com': {
+    'password-rules': 'minlength: 8; maxlength: 20; max-consecutive: 3; required: lower, upper; required: digit, [!@#$%^&*()];'
+  },
+  'wellsfargo.com': {
+    'password-rules': 'minlength: 8; maxlength: 32; required: lower; required: upper; required: digit;'
+  }
+};
@@ -13,35 +13,70 @@ import {
   Sun,
   Moon,
   AlertTriangle,
-  Key
+  Key,
+  Share2,
+  Users,
+  LogOut,
+  ExternalLink,
+  Star,
+  Folder as FolderIcon,
+  Paperclip
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useCredentials } from '../contexts/CredentialContext';
 import { useTheme } from '../contexts/ThemeContext';
-import { CryptoUtils } from '../utils/crypto';
-import { Credential } from '../types';
+import { CryptoWorker } from '../utils/cryptoWorker';
+import { PasswordStrength } from '../utils/passwordStrength';
+import { ItemTypes } from '../utils/itemTypes';
+import { CustomFields } from '../utils/customFields';
+import { UriMatcher } from '../utils/uriMatching';
+import { FolderTree } from '../utils/folders';
+import { Tags } from '../utils/tags';
+import { Credential, SharedCredential } from '../types';
 import Button from '../components/UI/Button';
 import Input from '../components/UI/Input';
 import Modal from '../components/UI/Modal';
+import PasswordStrengthMeter from '../components/PasswordStrengthMeter';
 import CredentialForm from '../components/CredentialForm';
 import MonoKeyPrompt from '../components/MonoPasswordPrompt';
+import RecoveryKeySheet from '../components/RecoveryKeySheet';
+import ShareCredentialModal from '../components/ShareCredentialModal';
+import AttachmentsModal from '../components/AttachmentsModal';
+import VaultSidebar, { CREDENTIAL_DRAG_TYPE, VaultFilter } from '../components/VaultSidebar';
 import toast from 'react-hot-toast';
 
+// Collection switcher values besides collection ids
+const ALL_ITEMS = 'all';
+const PERSONAL_VAULT = 'personal';
+
+// Favourites and folders belong to the personal vault
+const isFavorite = (credential: Credential) => !!credential.favorite && !credential.collectionId;
+
 const Dashboard: React.FC = () => {
-  const { user, monoKey, setMonoKey, verifyMonoKey, isInitialLoading, isMonoKeyVerified, refreshUser } = useAuth();
+  const { user, setMonoKey, verifyMonoKey, isInitialLoading, isMonoKeyVerified, refreshUser, lockReason } = useAuth();
   const { 
     credentials, 
+    sharedCredentials,
+    organizations,
+    collections,
+    folders,
     isLoadingCredentials, 
     hasLoadedCredentials,
+    loadProgress,
     addCredential, 
     updateCredential, 
     removeCredential, 
+    updateSharedCredential,
+    leaveSharedCredential,
+    moveCredentialToFolder,
     loadCredentials 
   } = useCredentials();
   const { isDark, toggleTheme } = useTheme();
   
   const [filteredCredentials, setFilteredCredentials] = useState<Credential[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
+  const [activeCollection, setActiveCollection] = useState(ALL_ITEMS);
+  const [vaultFilter, setVaultFilter] = useState<VaultFilter>({ kind: 'all' });
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [isMonoKeyPromptOpen, setIsMonoKeyPromptOpen] = useState(false);
@@ -49,8 +84,11 @@ const Dashboard: React.FC = () => {
   const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
   const [selectedCredential, setSelectedCredential] = useState<Credential | null>(null);
   const [credentialToDelete, setCredentialToDelete] = useState<Credential | null>(null);
+  const [credentialToShare, setCredentialToShare] = useState<Credential | null>(null);
+  // Looked up on every render so the modal shows attachments as they change
+  const [attachmentTarget, setAttachmentTarget] = useState<{ id: string; shareId?: string } | null>(null);
   const [pendingAction, setPendingAction] = useState<{ 
-    type: 'view' | 'copy' | 'load', 
+    type: 'view' | 'copy' | 'load' | 'add' | 'edit', 
     field?: string, 
     value?: string, 
     credentialId?: string
@@ -59,17 +97,94 @@ const Dashboard: React.FC = () => {
   const [monoKeySetup, setMonoKeySetup] = useState('');
   const [confirmMonoKey, setConfirmMonoKey] = useState('');
   const [isSettingUpKey, setIsSettingUpKey] = useState(false);
+  const [setupRecoveryKey, setSetupRecoveryKey] = useState<string | null>(null);
 
   console.log('Dashboard render - user:', user?.email, 'isMonoKeyVerified:', isMonoKeyVerified, 'credentials:', credentials.length, 'hasLoaded:', hasLoadedCredentials, 'isLoading:', isLoadingCredentials);
 
-  // Filter credentials based on search term
+  const collectionsById = new Map(collections.map(collection => [collection.id, collection]));
+  const getOrganization = (collectionId?: string) => {
+    const collection = collectionId ? collectionsById.get(collectionId) : undefined;
+    return collection ? organizations.find(organization => organization.id === collection.organizationId) : undefined;
+  };
+  const canEditCredential = (credential: Credential) =>
+    !credential.collectionId || getOrganization(credential.collectionId)?.role !== 'read_only';
+  const isActiveCollectionReadOnly = getOrganization(activeCollection)?.role === 'read_only';
+
+  // Fall back to all items if the selected collection goes away
   useEffect(() => {
+    if (activeCollection !== ALL_ITEMS && activeCollection !== PERSONAL_VAULT &&
+        !collections.some(collection => collection.id === activeCollection)) {
+      setActiveCollection(ALL_ITEMS);
+    }
+  }, [collections, activeCollection]);
+
+  // Filter credentials based on search term, the selected collection and the
+  // sidebar filter, with favourites pinned to the top
+  useEffect(() => {
+    const folderIds = vaultFilter.kind === 'folder' ? FolderTree.getSubtreeIds(folders, vaultFilter.folderId) : null;
+    const matchesVaultFilter = (cred: Credential) => {
+      switch (vaultFilter.kind) {
+        case 'all':
+          return true;
+        case 'favorites':
+          return isFavorite(cred);
+        case 'unfiled':
+          return !cred.collectionId && !cred.folderId;
+        case 'folder':
+          return !!cred.folderId && !!folderIds?.has(cred.folderId);
+        case 'tag':
+          return Tags.has(cred, vaultFilter.tag);
+      }
+    };
+
     const filtered = credentials.filter(cred =>
-      cred.accountName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      cred.username.toLowerCase().includes(searchTerm.toLowerCase())
+      (activeCollection === ALL_ITEMS ||
+        (activeCollection === PERSONAL_VAULT ? !cred.collectionId : cred.collectionId === activeCollection)) &&
+      matchesVaultFilter(cred) &&
+      ItemTypes.getSearchText(cred).includes(searchTerm.toLowerCase())
     );
-    setFilteredCredentials(filtered);
-  }, [searchTerm, credentials]);
+    setFilteredCredentials([...filtered.filter(isFavorite), ...filtered.filter(cred => !isFavorite(cred))]);
+  }, [searchTerm, credentials, activeCollection, vaultFilter, folders]);
+
+  // Shared items are not in folders or favourites, but can be tagged
+  const filteredSharedCredentials = sharedCredentials.filter(cred =>
+    (vaultFilter.kind === 'all' || (vaultFilter.kind === 'tag' && Tags.has(cred, vaultFilter.tag))) &&
+    ItemTypes.getSearchText(cred).includes(searchTerm.toLowerCase())
+  );
+  const hasFavoritesSection = filteredCredentials.length > 0 && isFavorite(filteredCredentials[0]) &&
+    vaultFilter.kind !== 'favorites';
+
+  // An auto-lock closes open forms and wipes revealed passwords, then asks for
+  // the MonoKey again; an interrupted add or edit resumes after unlocking
+  useEffect(() => {
+    if (!lockReason || isMonoKeyVerified) return;
+
+    if (isEditModalOpen && selectedCredential) {
+      setPendingAction({ type: 'edit', credentialId: selectedCredential.id });
+    } else if (isAddModalOpen) {
+      setPendingAction({ type: 'add' });
+    }
+    setIsAddModalOpen(false);
+    setIsEditModalOpen(false);
+    setSelectedCredential(null);
+    setVisiblePasswords(new Set());
+    setIsMonoKeyPromptOpen(true);
+  }, [lockReason, isMonoKeyVerified, isAddModalOpen, isEditModalOpen, selectedCredential]);
+
+  // Reopen an interrupted edit once its credential has been decrypted again
+  useEffect(() => {
+    if (!isMonoKeyVerified || pendingAction?.type !== 'edit') return;
+
+    const credential = [...credentials, ...sharedCredentials].find(cred => cred.id === pendingAction.credentialId);
+    if (credential) {
+      setSelectedCredential(credential);
+      setIsEditModalOpen(true);
+      setPendingAction(null);
+    } else if (hasLoadedCredentials) {
+      // Deleted elsewhere while the vault was locked
+      setPendingAction(null);
+    }
+  }, [isMonoKeyVerified, pendingAction, credentials, sharedCredentials, hasLoadedCredentials]);
 
   // Removed the automatic modal opening useEffect - this was the bug!
   // Users will now see inline prompts instead of being forced into modals
@@ -85,20 +200,29 @@ const Dashboard: React.FC = () => {
       return;
     }
 
+    const strength = PasswordStrength.estimate(monoKeySetup, [user?.email ?? '', user?.firstName ?? '', user?.lastName ?? '']);
+    if (strength.score < PasswordStrength.MIN_MONOKEY_SCORE) {
+      toast.error(strength.warning || 'MonoKey is too easy to guess. Try a longer passphrase.');
+      return;
+    }
+
     setIsSettingUpKey(true);
     
     try {
       console.log('Setting up MonoKey...');
-      const monoKeyHash = CryptoUtils.hashPassword(monoKeySetup);
-      
       const { DatabaseService } = await import('../utils/database');
-      await DatabaseService.updateMonoPasswordHash(monoKeyHash);
+
+      // Tune Argon2id to this device before deriving anything from the new key
+      const kdfParams = await CryptoWorker.run('calibrateKdf');
+      console.log('Calibrated key derivation:', kdfParams);
+      const { recoveryKey } = await DatabaseService.initializeVault(monoKeySetup, kdfParams);
 
       await refreshUser();
-      setMonoKey(monoKeySetup); // This will set isMonoKeyVerified to true
+      await setMonoKey(monoKeySetup); // This will set isMonoKeyVerified to true
       setIsMonoKeySetupOpen(false);
       setMonoKeySetup('');
       setConfirmMonoKey('');
+      setSetupRecoveryKey(recoveryKey);
       
       toast.success('MonoKey set up successfully!');
     } catch (error: any) {
@@ -143,12 +267,212 @@ const Dashboard: React.FC = () => {
     }
   };
 
+  // Summary of an item with copy actions for its plain fields
+  const renderItemDetails = (credential: Credential) => {
+    const fields = ItemTypes.getFields(credential).filter(field => !field.secret);
+
+    if (ItemTypes.getType(credential) === 'login') {
+      return (
+        <div className="flex items-center space-x-2">
+          <span className={`text-sm ${isDark ? 'text-gray-300' : 'text-gray-900'}`}>{credential.username}</span>
+          <button
+            onClick={() => handleSecureAction('copy', 'Username', credential.username)}
+            className={`hover:text-blue-600 transition-colors ${isDark ? 'text-gray-400' : 'text-gray-400'}`}
+          >
+            <Copy className="w-4 h-4" />
+          </button>
+        </div>
+      );
+    }
+
+    return (
+      <div>
+        <span className={`text-sm ${isDark ? 'text-gray-300' : 'text-gray-900'}`}>{ItemTypes.getSummary(credential)}</span>
+        {fields.length > 0 && (
+          <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1">
+            {fields.map(field => (
+              <button
+                key={field.label}
+                onClick={() => handleSecureAction('copy', field.label, field.value)}
+                className={`inline-flex items-center text-xs hover:text-blue-600 transition-colors ${isDark ? 'text-gray-400' : 'text-gray-500'}`}
+                title={`Copy ${field.label.toLowerCase()}`}
+              >
+                <Copy className="w-3 h-3 mr-1" />
+                {field.label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // The item's main secret, hidden until revealed, plus copy actions for the others
+  const renderItemSecret = (credential: Credential, revealKey: string) => {
+    const [primary, ...others] = ItemTypes.getFields(credential).filter(field => field.secret);
+    if (!primary) {
+      return <span className={`text-sm ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>—</span>;
+    }
+
+    const isVisible = visiblePasswords.has(revealKey);
+    return (
+      <div>
+        <div className="flex items-center space-x-2">
+          <div className="min-w-0 flex-1">
+            <span className={`text-sm font-mono block truncate ${isDark ? 'text-gray-300' : 'text-gray-900'}`} style={{ minWidth: '120px', maxWidth: '200px' }}>
+              {isVisible ? primary.value : '••••••••••••'}
+            </span>
+          </div>
+          <div className="flex items-center space-x-1 flex-shrink-0">
+            <button
+              onClick={() => handleSecureAction('view', primary.label, primary.value, revealKey)}
+              className={`hover:text-blue-600 transition-colors ${isDark ? 'text-gray-400' : 'text-gray-400'}`}
+              title={isVisible ? `Hide ${primary.label.toLowerCase()}` : `Show ${primary.label.toLowerCase()}`}
+            >
+              {isVisible ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+            </button>
+            <button
+              onClick={() => handleSecureAction('copy', primary.label, primary.value)}
+              className={`hover:text-blue-600 transition-colors ${isDark ? 'text-gray-400' : 'text-gray-400'}`}
+              title={`Copy ${primary.label.toLowerCase()}`}
+            >
+              <Copy className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+        {others.length > 0 && (
+          <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1">
+            {others.map(field => (
+              <button
+                key={field.label}
+                onClick={() => handleSecureAction('copy', field.label, field.value)}
+                className={`inline-flex items-center text-xs hover:text-blue-600 transition-colors ${isDark ? 'text-gray-400' : 'text-gray-500'}`}
+                title={`Copy ${field.label.toLowerCase()}`}
+              >
+                <Copy className="w-3 h-3 mr-1" />
+                {field.label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // User-defined fields in their saved order; hidden ones reveal like a password
+  const renderCustomFields = (credential: Credential, revealKey: string) => {
+    if (!credential.customFields?.length) return null;
+
+    return (
+      <div className="mt-2 space-y-1">
+        {credential.customFields.map(field => {
+          const fieldKey = `${revealKey}:${field.id}`;
+          const isHidden = CustomFields.isSecret(field) && !visiblePasswords.has(fieldKey);
+          return (
+            <div key={field.id} className="flex items-center space-x-2 text-xs">
+              <span className="text-gray-500">{field.name}:</span>
+              <span className={`truncate max-w-[160px] ${CustomFields.isSecret(field) ? 'font-mono' : ''} ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+                {isHidden ? '••••••••' : CustomFields.formatValue(field)}
+              </span>
+              {CustomFields.isSecret(field) && (
+                <button
+                  onClick={() => handleSecureAction('view', field.name, field.value, fieldKey)}
+                  className="text-gray-400 hover:text-blue-600 transition-colors"
+                  title={isHidden ? `Show ${field.name}` : `Hide ${field.name}`}
+                >
+                  {isHidden ? <Eye className="w-3 h-3" /> : <EyeOff className="w-3 h-3" />}
+                </button>
+              )}
+              <button
+                onClick={() => handleSecureAction('copy', field.name, CustomFields.formatValue(field))}
+                className="text-gray-400 hover:text-blue-600 transition-colors"
+                title={`Copy ${field.name}`}
+              >
+                <Copy className="w-3 h-3" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  // Tag chips; clicking one filters the vault by that tag
+  const renderTags = (credential: Credential) => {
+    if (!credential.tags?.length) return null;
+
+    return (
+      <div className="flex flex-wrap gap-1 mt-1">
+        {credential.tags.map(tag => (
+          <button
+            key={tag}
+            onClick={() => setVaultFilter({ kind: 'tag', tag })}
+            className={`px-1.5 py-0.5 rounded text-xs transition-colors ${
+              isDark ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            }`}
+          >
+            {tag}
+          </button>
+        ))}
+      </div>
+    );
+  };
+
+  const attachmentCredential = attachmentTarget
+    ? attachmentTarget.shareId
+      ? sharedCredentials.find(cred => cred.shareId === attachmentTarget.shareId) ?? null
+      : credentials.find(cred => cred.id === attachmentTarget.id) ?? null
+    : null;
+
+  // Opens the item's attachments; hidden when there are none to show or add
+  const renderAttachmentsButton = (credential: Credential, canEdit: boolean, shareId?: string) => {
+    const count = credential.attachments?.length ?? 0;
+    if (count === 0 && !canEdit) return null;
+
+    return (
+      <button
+        onClick={() => setAttachmentTarget({ id: credential.id, shareId })}
+        className="inline-flex items-center text-blue-600 hover:text-blue-900 transition-colors"
+        title={count > 0 ? `${count} attachment${count === 1 ? '' : 's'}` : 'Attach files'}
+      >
+        <Paperclip className="w-4 h-4" />
+        {count > 0 && <span className="ml-0.5 text-xs">{count}</span>}
+      </button>
+    );
+  };
+
+  // Opens the item's first website in a new tab; nothing secret is revealed
+  const renderLaunchButton = (credential: Credential) => {
+    const launchUrl = UriMatcher.getLaunchUrl(credential);
+    if (!launchUrl) return null;
+
+    return (
+      <button
+        onClick={() => window.open(launchUrl, '_blank', 'noopener,noreferrer')}
+        className="text-blue-600 hover:text-blue-900 transition-colors"
+        title={`Open ${new URL(launchUrl).hostname}`}
+      >
+        <ExternalLink className="w-4 h-4" />
+      </button>
+    );
+  };
+
   const handleMonoKeyVerified = async (key: string) => {
     console.log('MonoKey verified, setting key...');
-    setMonoKey(key); // This will set isMonoKeyVerified to true and trigger credential loading
     setIsMonoKeyPromptOpen(false);
+    try {
+      await setMonoKey(key); // This will set isMonoKeyVerified to true and trigger credential loading
+    } catch (error) {
+      console.error('Vault unlock error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to unlock vault');
+      setPendingAction(null);
+      return;
+    }
     
-    if (pendingAction) {
+    if (pendingAction?.type === 'add') {
+      setIsAddModalOpen(true);
+      setPendingAction(null);
+    } else if (pendingAction && pendingAction.type !== 'edit') {
       executeSecureAction(
         pendingAction.type as 'view' | 'copy', 
         pendingAction.field!, 
@@ -166,11 +490,21 @@ const Dashboard: React.FC = () => {
     }
 
     try {
-      if (selectedCredential) {
+      if (selectedCredential && 'shareId' in selectedCredential) {
+        await updateSharedCredential((selectedCredential as SharedCredential).shareId, credentialData);
+        toast.success('Credential updated successfully');
+      } else if (selectedCredential) {
         await updateCredential(selectedCredential.id, credentialData);
         toast.success('Credential updated successfully');
       } else {
-        await addCredential(credentialData);
+        // New items go into the collection or folder being viewed, if any
+        await addCredential(
+          collectionsById.has(activeCollection)
+            ? { ...credentialData, collectionId: activeCollection }
+            : vaultFilter.kind === 'folder'
+              ? { ...credentialData, folderId: vaultFilter.folderId }
+              : credentialData
+        );
         toast.success('Credential saved successfully');
       }
 
@@ -182,6 +516,46 @@ const Dashboard: React.FC = () => {
     }
   };
 
+  const handleToggleFavorite = async (credential: Credential) => {
+    try {
+      await updateCredential(credential.id, { favorite: !credential.favorite });
+    } catch (error) {
+      console.error('Dashboard: Toggle favourite error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update favourites');
+    }
+  };
+
+  const handleMoveToFolder = async (credentialId: string, folderId: string | null) => {
+    const credential = credentials.find(cred => cred.id === credentialId);
+    if (!credential || credential.collectionId) {
+      toast.error('Only items in your own vault can be filed in folders');
+      return;
+    }
+    if ((credential.folderId ?? null) === folderId) return;
+
+    try {
+      await moveCredentialToFolder(credentialId, folderId);
+      toast.success(folderId ? `Moved to ${FolderTree.getPath(folders, folderId)}` : 'Removed from folder');
+    } catch (error) {
+      console.error('Dashboard: Move to folder error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to move credential');
+    }
+  };
+
+  const handleLeaveSharedCredential = async (credential: SharedCredential) => {
+    if (!window.confirm(`Remove ${credential.accountName} from your vault? ${credential.ownerEmail} would have to share it again.`)) {
+      return;
+    }
+
+    try {
+      await leaveSharedCredential(credential.shareId);
+      toast.success('Shared credential removed');
+    } catch (error) {
+      console.error('Dashboard: Leave shared credential error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to remove shared credential');
+    }
+  };
+
   const handleDeleteCredential = (credential: Credential) => {
     setCredentialToDelete(credential);
     setIsDeleteConfirmOpen(true);
@@ -291,7 +665,32 @@ const Dashboard: React.FC = () => {
             </div>
           </div>
           <div className="flex space-x-3">
+            {collections.length > 0 && (
+              <select
+                value={activeCollection}
+                onChange={(e) => setActiveCollection(e.target.value)}
+                className={`px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                  isDark
+                    ? 'bg-gray-800 border-gray-600 text-white'
+                    : 'bg-white border-gray-300 text-gray-900'
+                }`}
+                title="Show items from"
+              >
+                <option value={ALL_ITEMS}>All items</option>
+                <option value={PERSONAL_VAULT}>My vault</option>
+                {organizations.map(organization => (
+                  <optgroup key={organization.id} label={organization.name}>
+                    {collections
+                      .filter(collection => collection.organizationId === organization.id)
+                      .map(collection => (
+                        <option key={collection.id} value={collection.id}>{collection.name}</option>
+                      ))}
+                  </optgroup>
+                ))}
+              </select>
+            )}
             <Button
+              disabled={isActiveCollectionReadOnly}
               onClick={() => {
                 if (!isMonoKeyVerified) {
                   if (needsMonoKeySetup) {
@@ -346,7 +745,7 @@ const Dashboard: React.FC = () => {
                     MonoKey Required
                   </h3>
                   <p className={`mb-4 ${isDark ? 'text-gray-300' : 'text-gray-600'}`}>
-                    Please enter your MonoKey to access your secure credentials.
+                    {lockReason || 'Please enter your MonoKey to access your secure credentials.'}
                   </p>
                   <Button onClick={() => setIsMonoKeyPromptOpen(true)}>
                     <Shield className="w-4 h-4 mr-2" />
@@ -358,143 +757,272 @@ const Dashboard: React.FC = () => {
           </div>
         )}
 
-        {/* Credentials Table - Always show structure when MonoKey is verified */}
-        {isMonoKeyVerified && (
-          <div className={`rounded-lg shadow-sm border overflow-hidden ${isDark ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'}`}>
-            {/* Show loading indicator only on first load or when explicitly refreshing */}
-            {isLoadingCredentials && !hasLoadedCredentials ? (
-              <div className="flex items-center justify-center py-12">
-                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-                <span className={`ml-3 ${isDark ? 'text-gray-300' : 'text-gray-600'}`}>Loading credentials...</span>
-              </div>
-            ) : (
-              <div className="overflow-x-auto">
-                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
-                  <thead className={isDark ? 'bg-gray-700' : 'bg-gray-50'}>
-                    <tr>
-                      <th className={`px-6 py-3 text-left text-xs font-medium uppercase tracking-wider ${isDark ? 'text-gray-300' : 'text-gray-500'}`}>
-                        Account
-                      </th>
-                      <th className={`px-6 py-3 text-left text-xs font-medium uppercase tracking-wider ${isDark ? 'text-gray-300' : 'text-gray-500'}`}>
-                        Username
-                      </th>
-                      <th className={`px-6 py-3 text-left text-xs font-medium uppercase tracking-wider ${isDark ? 'text-gray-300' : 'text-gray-500'}`}>
-                        Password
-                      </th>
-                      <th className={`px-6 py-3 text-left text-xs font-medium uppercase tracking-wider ${isDark ? 'text-gray-300' : 'text-gray-500'}`}>
-                        Actions
-                      </th>
-                    </tr>
-                  </thead>
-                  <tbody className={`divide-y ${isDark ? 'bg-gray-800 divide-gray-700' : 'bg-white divide-gray-200'}`}>
-                    {/* Show credentials if available */}
-                    {filteredCredentials.map((credential) => (
-                      <motion.tr
-                        key={credential.id}
-                        initial={{ opacity: 0 }}
-                        animate={{ opacity: 1 }}
-                        className={`hover:${isDark ? 'bg-gray-700' : 'bg-gray-50'}`}
-                      >
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="flex items-center">
-                            {credential.icon?.startsWith('data:') ? (
-                              <img src={credential.icon} alt="Icon" className="w-8 h-8 mr-3 rounded" />
-                            ) : (
-                              <span className="text-2xl mr-3">{credential.icon}</span>
+        <div className="flex gap-6">
+          {/* Folders, tags and favourites */}
+          {isMonoKeyVerified && (
+            <aside className="hidden lg:block w-56 flex-shrink-0">
+              <VaultSidebar
+                filter={vaultFilter}
+                onFilterChange={setVaultFilter}
+                onDropCredential={handleMoveToFolder}
+              />
+            </aside>
+          )}
+
+          <div className="flex-1 min-w-0">
+            {/* Credentials Table - Always show structure when MonoKey is verified */}
+            {isMonoKeyVerified && (
+              <div className={`rounded-lg shadow-sm border overflow-hidden ${isDark ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'}`}>
+                {/* Decryption progress while the vault is loading */}
+                {loadProgress && loadProgress.total > 0 && (
+                  <div className={`h-1 ${isDark ? 'bg-gray-700' : 'bg-gray-100'}`}>
+                    <div
+                      className="h-1 bg-blue-600 transition-all"
+                      style={{ width: `${(loadProgress.processed / loadProgress.total) * 100}%` }}
+                    />
+                  </div>
+                )}
+
+                {/* Show loading indicator only until the first rows are decrypted */}
+                {isLoadingCredentials && !hasLoadedCredentials && credentials.length === 0 ? (
+                  <div className="flex items-center justify-center py-12">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                    <span className={`ml-3 ${isDark ? 'text-gray-300' : 'text-gray-600'}`}>
+                      {loadProgress && loadProgress.total > 0
+                        ? `Decrypting credentials... ${loadProgress.processed} / ${loadProgress.total}`
+                        : 'Loading credentials...'}
+                    </span>
+                  </div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                      <thead className={isDark ? 'bg-gray-700' : 'bg-gray-50'}>
+                        <tr>
+                          <th className={`px-6 py-3 text-left text-xs font-medium uppercase tracking-wider ${isDark ? 'text-gray-300' : 'text-gray-500'}`}>
+                            Account
+                          </th>
+                          <th className={`px-6 py-3 text-left text-xs font-medium uppercase tracking-wider ${isDark ? 'text-gray-300' : 'text-gray-500'}`}>
+                            Details
+                          </th>
+                          <th className={`px-6 py-3 text-left text-xs font-medium uppercase tracking-wider ${isDark ? 'text-gray-300' : 'text-gray-500'}`}>
+                            Secret
+                          </th>
+                          <th className={`px-6 py-3 text-left text-xs font-medium uppercase tracking-wider ${isDark ? 'text-gray-300' : 'text-gray-500'}`}>
+                            Actions
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody className={`divide-y ${isDark ? 'bg-gray-800 divide-gray-700' : 'bg-white divide-gray-200'}`}>
+                        {/* Show credentials if available */}
+                        {filteredCredentials.map((credential, index) => (
+                          <React.Fragment key={credential.id}>
+                            {hasFavoritesSection && (index === 0 || isFavorite(filteredCredentials[index - 1]) !== isFavorite(credential)) && (
+                              <tr className={isDark ? 'bg-gray-900/40' : 'bg-gray-50'}>
+                                <td colSpan={4} className={`px-6 py-2 text-xs font-medium uppercase tracking-wider ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                                  {isFavorite(credential) ? 'Favourites' : 'Other items'}
+                                </td>
+                              </tr>
                             )}
-                            <div>
-                              <div className={`text-sm font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                                {credential.accountName}
-                              </div>
-                            </div>
-                          </div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="flex items-center space-x-2">
-                            <span className={`text-sm ${isDark ? 'text-gray-300' : 'text-gray-900'}`}>{credential.username}</span>
-                            <button
-                              onClick={() => handleSecureAction('copy', 'Username', credential.username)}
-                              className={`hover:text-blue-600 transition-colors ${isDark ? 'text-gray-400' : 'text-gray-400'}`}
+                            <motion.tr
+                              initial={{ opacity: 0 }}
+                              animate={{ opacity: 1 }}
+                              className={`hover:${isDark ? 'bg-gray-700' : 'bg-gray-50'}`}
                             >
-                              <Copy className="w-4 h-4" />
-                            </button>
-                          </div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="flex items-center space-x-2">
-                            <div className="min-w-0 flex-1">
-                              <span className={`text-sm font-mono block truncate ${isDark ? 'text-gray-300' : 'text-gray-900'}`} style={{ minWidth: '120px', maxWidth: '200px' }}>
-                                {visiblePasswords.has(credential.id) ? credential.password : '••••••••••••'}
-                              </span>
+                              <td className="px-6 py-4 whitespace-nowrap">
+                                {/* Personal items can be dragged onto a folder in the sidebar */}
+                                <div
+                                  className={`flex items-center ${credential.collectionId ? '' : 'cursor-grab'}`}
+                                  draggable={!credential.collectionId}
+                                  onDragStart={(e) => {
+                                    e.dataTransfer.setData(CREDENTIAL_DRAG_TYPE, credential.id);
+                                    e.dataTransfer.effectAllowed = 'move';
+                                  }}
+                                >
+                                  {credential.icon?.startsWith('data:') ? (
+                                    <img src={credential.icon} alt="Icon" className="w-8 h-8 mr-3 rounded" />
+                                  ) : (
+                                    <span className="text-2xl mr-3">{credential.icon}</span>
+                                  )}
+                                  <div>
+                                    <div className={`text-sm font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                                      {credential.accountName}
+                                    </div>
+                                    {UriMatcher.getDisplayHost(credential) && (
+                                      <div className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                                        {UriMatcher.getDisplayHost(credential)}
+                                      </div>
+                                    )}
+                                    {credential.collectionId && (
+                                      <div className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                                        {getOrganization(credential.collectionId)?.name} · {collectionsById.get(credential.collectionId)?.name}
+                                      </div>
+                                    )}
+                                    {credential.folderId && (
+                                      <div className={`flex items-center text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                                        <FolderIcon className="w-3 h-3 mr-1" />
+                                        {FolderTree.getPath(folders, credential.folderId)}
+                                      </div>
+                                    )}
+                                    {renderTags(credential)}
+                                  </div>
+                                </div>
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap">
+                                {renderItemDetails(credential)}
+                                {renderCustomFields(credential, credential.id)}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap">
+                                {renderItemSecret(credential, credential.id)}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                                <div className="flex items-center space-x-2">
+                                  {!credential.collectionId && (
+                                    <button
+                                      onClick={() => handleToggleFavorite(credential)}
+                                      className={`transition-colors ${credential.favorite ? 'text-yellow-500 hover:text-yellow-600' : 'text-gray-400 hover:text-yellow-500'}`}
+                                      title={credential.favorite ? 'Remove from favourites' : 'Add to favourites'}
+                                    >
+                                      <Star className={`w-4 h-4 ${credential.favorite ? 'fill-current' : ''}`} />
+                                    </button>
+                                  )}
+                                  {renderLaunchButton(credential)}
+                                  {renderAttachmentsButton(credential, canEditCredential(credential))}
+                                  {canEditCredential(credential) && (
+                                    <button
+                                      onClick={() => {
+                                        setSelectedCredential(credential);
+                                        setIsEditModalOpen(true);
+                                      }}
+                                      className="text-blue-600 hover:text-blue-900 transition-colors"
+                                      title="Edit credential"
+                                    >
+                                      <Edit className="w-4 h-4" />
+                                    </button>
+                                  )}
+                                  {!credential.collectionId && (
+                                    <button
+                                      onClick={() => setCredentialToShare(credential)}
+                                      className="text-blue-600 hover:text-blue-900 transition-colors"
+                                      title="Share credential"
+                                    >
+                                      <Share2 className="w-4 h-4" />
+                                    </button>
+                                  )}
+                                  {canEditCredential(credential) && (
+                                    <button
+                                      onClick={() => handleDeleteCredential(credential)}
+                                      className="text-red-600 hover:text-red-900 transition-colors"
+                                      title="Delete credential"
+                                    >
+                                      <Trash2 className="w-4 h-4" />
+                                    </button>
+                                  )}
+                                </div>
+                              </td>
+                            </motion.tr>
+                          </React.Fragment>
+                        ))}
+                    
+                        {/* Show empty state only when no credentials and has loaded */}
+                        {filteredCredentials.length === 0 && hasLoadedCredentials && (
+                          <tr>
+                            <td colSpan={4} className="px-6 py-12 text-center">
+                              <Shield className={`w-12 h-12 mx-auto mb-4 ${isDark ? 'text-gray-400' : 'text-gray-400'}`} />
+                              <h3 className={`text-lg font-medium mb-2 ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                                {searchTerm || vaultFilter.kind !== 'all' ? 'No matching credentials' : 'No credentials found'}
+                              </h3>
+                              <p className={`mb-4 ${isDark ? 'text-gray-300' : 'text-gray-600'}`}>
+                                {searchTerm || vaultFilter.kind !== 'all'
+                                  ? 'Try adjusting your search terms or filters'
+                                  : 'Get started by adding your first credential'}
+                              </p>
+                              {!searchTerm && vaultFilter.kind === 'all' && (
+                                <Button onClick={() => setIsAddModalOpen(true)}>
+                                  <Plus className="w-4 h-4 mr-2" />
+                                  Add Your First Credential
+                                </Button>
+                              )}
+                            </td>
+                          </tr>
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Credentials other users shared with this one */}
+            {isMonoKeyVerified && filteredSharedCredentials.length > 0 && (
+              <div className={`mt-8 rounded-lg shadow-sm border overflow-hidden ${isDark ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'}`}>
+                <div className={`px-6 py-4 flex items-center space-x-2 border-b ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
+                  <Users className="w-5 h-5 text-blue-600" />
+                  <h2 className={`text-lg font-semibold ${isDark ? 'text-white' : 'text-gray-900'}`}>Shared with me</h2>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                    <tbody className={`divide-y ${isDark ? 'bg-gray-800 divide-gray-700' : 'bg-white divide-gray-200'}`}>
+                      {filteredSharedCredentials.map((credential) => (
+                        <tr key={credential.shareId}>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="flex items-center">
+                              {credential.icon?.startsWith('data:') ? (
+                                <img src={credential.icon} alt="Icon" className="w-8 h-8 mr-3 rounded" />
+                              ) : (
+                                <span className="text-2xl mr-3">{credential.icon}</span>
+                              )}
+                              <div>
+                                <div className={`text-sm font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                                  {credential.accountName}
+                                </div>
+                                <div className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                                  From {credential.ownerEmail} · {credential.canEdit ? 'Can edit' : 'Read-only'}
+                                </div>
+                                {renderTags(credential)}
+                              </div>
                             </div>
-                            <div className="flex items-center space-x-1 flex-shrink-0">
-                              <button
-                                onClick={() => handleSecureAction('view', 'Password', credential.password, credential.id)}
-                                className={`hover:text-blue-600 transition-colors ${isDark ? 'text-gray-400' : 'text-gray-400'}`}
-                                title={visiblePasswords.has(credential.id) ? 'Hide password' : 'Show password'}
-                              >
-                                {visiblePasswords.has(credential.id) ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-                              </button>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            {renderItemDetails(credential)}
+                            {renderCustomFields(credential, credential.shareId)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            {renderItemSecret(credential, credential.shareId)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                            <div className="flex items-center space-x-2">
+                              {renderLaunchButton(credential)}
+                              {renderAttachmentsButton(credential, credential.canEdit, credential.shareId)}
+                              {credential.canEdit && (
+                                <button
+                                  onClick={() => {
+                                    setSelectedCredential(credential);
+                                    setIsEditModalOpen(true);
+                                  }}
+                                  className="text-blue-600 hover:text-blue-900 transition-colors"
+                                  title="Edit credential"
+                                >
+                                  <Edit className="w-4 h-4" />
+                                </button>
+                              )}
                               <button
-                                onClick={() => handleSecureAction('copy', 'Password', credential.password)}
-                                className={`hover:text-blue-600 transition-colors ${isDark ? 'text-gray-400' : 'text-gray-400'}`}
-                                title="Copy password"
+                                onClick={() => handleLeaveSharedCredential(credential)}
+                                className="text-red-600 hover:text-red-900 transition-colors"
+                                title="Remove from my vault"
                               >
-                                <Copy className="w-4 h-4" />
+                                <LogOut className="w-4 h-4" />
                               </button>
                             </div>
-                          </div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                          <div className="flex items-center space-x-2">
-                            <button
-                              onClick={() => {
-                                setSelectedCredential(credential);
-                                setIsEditModalOpen(true);
-                              }}
-                              className="text-blue-600 hover:text-blue-900 transition-colors"
-                              title="Edit credential"
-                            >
-                              <Edit className="w-4 h-4" />
-                            </button>
-                            <button
-                              onClick={() => handleDeleteCredential(credential)}
-                              className="text-red-600 hover:text-red-900 transition-colors"
-                              title="Delete credential"
-                            >
-                              <Trash2 className="w-4 h-4" />
-                            </button>
-                          </div>
-                        </td>
-                      </motion.tr>
-                    ))}
-                    
-                    {/* Show empty state only when no credentials and has loaded */}
-                    {filteredCredentials.length === 0 && hasLoadedCredentials && (
-                      <tr>
-                        <td colSpan={4} className="px-6 py-12 text-center">
-                          <Shield className={`w-12 h-12 mx-auto mb-4 ${isDark ? 'text-gray-400' : 'text-gray-400'}`} />
-                          <h3 className={`text-lg font-medium mb-2 ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                            {searchTerm ? 'No matching credentials' : 'No credentials found'}
-                          </h3>
-                          <p className={`mb-4 ${isDark ? 'text-gray-300' : 'text-gray-600'}`}>
-                            {searchTerm ? 'Try adjusting your search terms' : 'Get started by adding your first credential'}
-                          </p>
-                          {!searchTerm && (
-                            <Button onClick={() => setIsAddModalOpen(true)}>
-                              <Plus className="w-4 h-4 mr-2" />
-                              Add Your First Credential
-                            </Button>
-                          )}
-                        </td>
-                      </tr>
-                    )}
-                  </tbody>
-                </table>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
               </div>
             )}
           </div>
-        )}
+        </div>
       </div>
 
       {/* All Modals */}
@@ -567,6 +1095,11 @@ const Dashboard: React.FC = () => {
               required
             />
 
+            <PasswordStrengthMeter
+              password={monoKeySetup}
+              userInputs={[user?.email ?? '', user?.firstName ?? '', user?.lastName ?? '']}
+            />
+
             <Input
               label="Confirm MonoKey"
               type="password"
@@ -580,11 +1113,17 @@ const Dashboard: React.FC = () => {
 
           <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-700 rounded-lg p-4">
             <p className="text-sm text-yellow-800 dark:text-yellow-200">
-              <strong>Important:</strong> Your MonoKey cannot be recovered if lost. 
-              Please store it securely and remember it.
+              <strong>Important:</strong> Nobody can reset your MonoKey for you. 
+              If you forget it, only the recovery key shown next can restore access.
             </p>
           </div>
 
+          {isSettingUpKey && (
+            <p className="text-sm text-center text-gray-600 dark:text-gray-300">
+              Tuning encryption strength for this device. This can take a few seconds...
+            </p>
+          )}
+
           <div className="flex space-x-3">
             <Button
               variant="outline"
@@ -605,10 +1144,43 @@ const Dashboard: React.FC = () => {
         </div>
       </Modal>
 
+      {/* Recovery key issued at setup; it has to be acknowledged before closing */}
+      <Modal
+        isOpen={!!setupRecoveryKey}
+        onClose={() => toast.error('Save your recovery key before closing')}
+        title="Recovery Key"
+      >
+        {setupRecoveryKey && (
+          <RecoveryKeySheet
+            recoveryKey={setupRecoveryKey}
+            email={user?.email}
+            onDone={() => setSetupRecoveryKey(null)}
+          />
+        )}
+      </Modal>
+
+      <ShareCredentialModal
+        isOpen={!!credentialToShare}
+        onClose={() => setCredentialToShare(null)}
+        credential={credentialToShare}
+      />
+
+      <AttachmentsModal
+        isOpen={!!attachmentCredential}
+        onClose={() => setAttachmentTarget(null)}
+        credential={attachmentCredential}
+        canEdit={attachmentCredential
+          ? 'shareId' in attachmentCredential
+            ? (attachmentCredential as SharedCredential).canEdit
+            : canEditCredential(attachmentCredential)
+          : false}
+      />
+
       <MonoKeyPrompt
         isOpen={isMonoKeyPromptOpen}
         onClose={() => setIsMonoKeyPromptOpen(false)}
         onVerified={handleMonoKeyVerified}
+        message={lockReason}
       />
 
       <CredentialForm
@@ -9,23 +9,131 @@ import {
   Save,
   Key,
   Mail,
-  Phone
+  Phone,
+  Cpu,
+  Lock,
+  LifeBuoy,
+  ScrollText,
+  ShieldAlert,
+  ShieldCheck,
+  Users,
+  HeartPulse,
+  Building2
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '../contexts/ThemeContext';
 import { DatabaseService } from '../utils/database';
 import { CryptoUtils } from '../utils/crypto';
+import { CryptoWorker } from '../utils/cryptoWorker';
+import { PasswordStrength } from '../utils/passwordStrength';
+import { AutoLock } from '../utils/autoLock';
+import { RecoveryShares } from '../utils/recoveryShares';
+import { AutoLockSettings, KdfParams, SecurityEvent } from '../types';
 import Button from '../components/UI/Button';
 import Input from '../components/UI/Input';
 import Modal from '../components/UI/Modal';
+import PasswordStrengthMeter from '../components/PasswordStrengthMeter';
+import RecoveryKeySheet from '../components/RecoveryKeySheet';
+import RecoveryShareSheet from '../components/RecoveryShareSheet';
+import EmergencyAccessManager from '../components/EmergencyAccessManager';
+import OrganizationManager from '../components/OrganizationManager';
 import toast from 'react-hot-toast';
 
+const UNLOCK_TARGETS_MS = [500, 1000, 2000, 3000];
+const IDLE_LOCK_MINUTES = [1, 5, 15, 30, 60, null];
+const HIDDEN_LOCK_MINUTES = [0, 1, 5, 15, 60, null];
+const SHARE_COUNTS = Array.from({ length: RecoveryShares.MAX_SHARES - 1 }, (_, i) => i + 2);
+
+const formatKdfParams = (kdfParams?: KdfParams) => {
+  if (!kdfParams) return 'Not calibrated yet';
+  if (kdfParams.name === 'PBKDF2-SHA256') {
+    return `PBKDF2-SHA256 · ${kdfParams.iterations.toLocaleString()} iterations`;
+  }
+  return `Argon2id · ${Math.round(kdfParams.memoryKiB / 1024)} MiB · ${kdfParams.iterations} passes`;
+};
+
+const describeSecurityEvent = (event: SecurityEvent): { title: string; detail: string; isWarning: boolean } => {
+  const attempts = Number(event.details.failed_attempts ?? 0);
+  switch (event.eventType) {
+    case 'monokey_failed': {
+      const lockedUntil = event.details.locked_until;
+      return {
+        title: 'Wrong MonoKey entered',
+        detail: typeof lockedUntil === 'string'
+          ? `Attempt ${attempts} · locked until ${new Date(lockedUntil).toLocaleTimeString()}`
+          : `Attempt ${attempts}`,
+        isWarning: true
+      };
+    }
+    case 'monokey_unlocked':
+      return {
+        title: 'Vault unlocked',
+        detail: `After ${attempts} failed ${attempts === 1 ? 'attempt' : 'attempts'}`,
+        isWarning: false
+      };
+    case 'recovery_key_created':
+      return { title: 'New recovery key created', detail: 'Any earlier recovery key stopped working', isWarning: false };
+    case 'monokey_recovered':
+      return { title: 'MonoKey reset with recovery key', detail: 'A new recovery key was issued', isWarning: true };
+    case 'recovery_shares_created':
+      return {
+        title: 'Recovery shares created',
+        detail: `${event.details.threshold} of ${event.details.share_count} shares needed · earlier recovery stopped working`,
+        isWarning: false
+      };
+    case 'recovery_revoked':
+      return { title: 'Recovery revoked', detail: 'No recovery key or shares can reset the MonoKey', isWarning: true };
+    case 'emergency_contact_invited':
+      return {
+        title: 'Emergency contact added',
+        detail: `${event.details.contact} · ${event.details.wait_days}-day wait`,
+        isWarning: false
+      };
+    case 'emergency_access_requested':
+      return {
+        title: 'Emergency access requested',
+        detail: `${event.details.contact} gets access in ${event.details.wait_days} days unless you deny it`,
+        isWarning: true
+      };
+    case 'emergency_access_approved':
+      return { title: 'Emergency access approved', detail: String(event.details.contact ?? ''), isWarning: true };
+    case 'emergency_access_denied':
+      return { title: 'Emergency access denied', detail: String(event.details.contact ?? ''), isWarning: false };
+    default:
+      return { title: event.eventType.replace(/_/g, ' '), detail: '', isWarning: false };
+  }
+};
+
 const Settings: React.FC = () => {
-  const { user, verifyMonoKey, updateUserInContext } = useAuth();
+  const { user, verifyMonoKey, setMonoKey, updateUserInContext, autoLockSettings, updateAutoLockSettings } = useAuth();
   const { isDark } = useTheme();
   const navigate = useNavigate();
   const [isLoading, setIsLoading] = useState(false);
   const [isChangeKeyOpen, setIsChangeKeyOpen] = useState(false);
+  const [rotationProgress, setRotationProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [isKdfOpen, setIsKdfOpen] = useState(false);
+  const [unlockTargetMs, setUnlockTargetMs] = useState(CryptoUtils.DEFAULT_UNLOCK_TARGET_MS);
+  const [proposedKdf, setProposedKdf] = useState<KdfParams | null>(null);
+  const [kdfMonoKey, setKdfMonoKey] = useState('');
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [isUpdatingKdf, setIsUpdatingKdf] = useState(false);
+  const [isAutoLockOpen, setIsAutoLockOpen] = useState(false);
+  const [autoLockDraft, setAutoLockDraft] = useState<AutoLockSettings>(autoLockSettings);
+  const [isRecoveryKeyOpen, setIsRecoveryKeyOpen] = useState(false);
+  const [recoveryMonoKey, setRecoveryMonoKey] = useState('');
+  const [isCreatingRecoveryKey, setIsCreatingRecoveryKey] = useState(false);
+  const [issuedRecoveryKey, setIssuedRecoveryKey] = useState<string | null>(null);
+  const [isRecoverySharesOpen, setIsRecoverySharesOpen] = useState(false);
+  const [shareSettings, setShareSettings] = useState({ shareCount: 3, threshold: 2 });
+  const [sharesMonoKey, setSharesMonoKey] = useState('');
+  const [isCreatingShares, setIsCreatingShares] = useState(false);
+  const [isRevokingRecovery, setIsRevokingRecovery] = useState(false);
+  const [issuedShares, setIssuedShares] = useState<string[] | null>(null);
+  const [isEmergencyAccessOpen, setIsEmergencyAccessOpen] = useState(false);
+  const [isOrganizationsOpen, setIsOrganizationsOpen] = useState(false);
+  const [isSecurityLogOpen, setIsSecurityLogOpen] = useState(false);
+  const [securityEvents, setSecurityEvents] = useState<SecurityEvent[]>([]);
+  const [isLoadingSecurityLog, setIsLoadingSecurityLog] = useState(false);
   const [userSettings, setUserSettings] = useState({
     firstName: user?.firstName || '',
     lastName: user?.lastName || '',
@@ -37,6 +145,21 @@ const Settings: React.FC = () => {
     confirmNewMonoKey: ''
   });
 
+  const isRotatingKey = rotationProgress !== null;
+
+  // Warn before leaving while the vault is being re-encrypted
+  useEffect(() => {
+    if (!isRotatingKey) return;
+
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isRotatingKey]);
+
   useEffect(() => {
     if (user) {
       setUserSettings({
@@ -87,20 +210,37 @@ const Settings: React.FC = () => {
       return;
     }
 
-    if (!verifyMonoKey(keyChange.currentMonoKey)) {
-      toast.error('Current MonoKey is incorrect');
+    const strength = PasswordStrength.estimate(keyChange.newMonoKey, [user?.email ?? '', user?.firstName ?? '', user?.lastName ?? '']);
+    if (strength.score < PasswordStrength.MIN_MONOKEY_SCORE) {
+      toast.error(strength.warning || 'MonoKey is too easy to guess. Try a longer passphrase.');
       return;
     }
 
     try {
-      console.log('Settings: Updating MonoKey...');
-      const newMonoKeyHash = CryptoUtils.hashPassword(keyChange.newMonoKey);
-      await DatabaseService.updateMonoPasswordHash(newMonoKeyHash);
+      if (!(await verifyMonoKey(keyChange.currentMonoKey))) {
+        toast.error('Current MonoKey is incorrect');
+        return;
+      }
+    } catch (error) {
+      console.error('Settings: MonoKey verification error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to verify MonoKey');
+      return;
+    }
+
+    setRotationProgress({ completed: 0, total: 0 });
+    try {
+      console.log('Settings: Rotating MonoKey...');
+      const newMonoKeyHash = await DatabaseService.rotateMonoKey(
+        keyChange.currentMonoKey,
+        keyChange.newMonoKey,
+        (completed, total) => setRotationProgress({ completed, total })
+      );
       
-      // Update the user in context with new hash
+      // Update the user in context with new hash and keep the session unlocked
       updateUserInContext({
         monoPasswordHash: newMonoKeyHash
       });
+      await setMonoKey(keyChange.newMonoKey);
       
       toast.success('MonoKey updated successfully');
       setIsChangeKeyOpen(false);
@@ -112,9 +252,197 @@ const Settings: React.FC = () => {
     } catch (error: any) {
       console.error('Settings: MonoKey update error:', error);
       toast.error(error.message || 'Failed to update MonoKey');
+    } finally {
+      setRotationProgress(null);
+    }
+  };
+
+  const handleCalibrate = async () => {
+    setIsCalibrating(true);
+    try {
+      const kdfParams = await CryptoWorker.run('calibrateKdf', unlockTargetMs);
+      console.log('Settings: Calibrated key derivation:', kdfParams);
+      setProposedKdf(kdfParams);
+    } catch (error) {
+      console.error('Settings: Calibration error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to calibrate key derivation');
+    } finally {
+      setIsCalibrating(false);
+    }
+  };
+
+  const closeKdfModal = () => {
+    setIsKdfOpen(false);
+    setProposedKdf(null);
+    setKdfMonoKey('');
+  };
+
+  const handleUpdateKdf = async () => {
+    if (!proposedKdf) return;
+
+    if (CryptoUtils.isKdfBelowMinimum(proposedKdf)) {
+      toast.error('These settings are below the minimum recommended cost');
+      return;
+    }
+
+    setIsUpdatingKdf(true);
+    try {
+      if (!(await verifyMonoKey(kdfMonoKey))) {
+        toast.error('MonoKey is incorrect');
+        return;
+      }
+
+      console.log('Settings: Re-wrapping vault key with new KDF params...');
+      const monoKeyHash = await DatabaseService.updateKdfParams(kdfMonoKey, proposedKdf);
+      updateUserInContext({
+        monoPasswordHash: monoKeyHash,
+        kdfParams: proposedKdf
+      });
+
+      toast.success('Unlock cost updated successfully');
+      closeKdfModal();
+    } catch (error) {
+      console.error('Settings: KDF update error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update unlock cost');
+    } finally {
+      setIsUpdatingKdf(false);
+    }
+  };
+
+  const openAutoLockModal = () => {
+    setAutoLockDraft(autoLockSettings);
+    setIsAutoLockOpen(true);
+  };
+
+  const handleSaveAutoLock = () => {
+    try {
+      updateAutoLockSettings(autoLockDraft);
+      toast.success('Auto-lock settings saved');
+      setIsAutoLockOpen(false);
+    } catch (error) {
+      console.error('Settings: Auto-lock update error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save auto-lock settings');
+    }
+  };
+
+  const closeRecoveryKeyModal = () => {
+    setIsRecoveryKeyOpen(false);
+    setRecoveryMonoKey('');
+    setIssuedRecoveryKey(null);
+  };
+
+  const handleCreateRecoveryKey = async () => {
+    setIsCreatingRecoveryKey(true);
+    try {
+      if (!(await verifyMonoKey(recoveryMonoKey))) {
+        toast.error('MonoKey is incorrect');
+        return;
+      }
+
+      console.log('Settings: Creating recovery key...');
+      const vaultKey = await DatabaseService.unlockVault(recoveryMonoKey);
+      const recoveryKey = await DatabaseService.createRecoveryKey(vaultKey);
+      updateUserInContext({
+        recoveryKeyCreatedAt: new Date().toISOString(),
+        recoveryShareThreshold: undefined,
+        recoveryShareCount: undefined
+      });
+      setRecoveryMonoKey('');
+      setIssuedRecoveryKey(recoveryKey);
+    } catch (error) {
+      console.error('Settings: Recovery key error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create recovery key');
+    } finally {
+      setIsCreatingRecoveryKey(false);
     }
   };
 
+  const openRecoverySharesModal = () => {
+    setShareSettings({
+      shareCount: user?.recoveryShareCount ?? 3,
+      threshold: user?.recoveryShareThreshold ?? 2
+    });
+    setIsRecoverySharesOpen(true);
+  };
+
+  const closeRecoverySharesModal = () => {
+    setIsRecoverySharesOpen(false);
+    setSharesMonoKey('');
+    setIssuedShares(null);
+  };
+
+  const handleShareCountChange = (shareCount: number) => {
+    setShareSettings(prev => ({ shareCount, threshold: Math.min(prev.threshold, shareCount) }));
+  };
+
+  const handleCreateRecoveryShares = async () => {
+    setIsCreatingShares(true);
+    try {
+      if (!(await verifyMonoKey(sharesMonoKey))) {
+        toast.error('MonoKey is incorrect');
+        return;
+      }
+
+      console.log('Settings: Creating recovery shares...');
+      const { shareCount, threshold } = shareSettings;
+      const vaultKey = await DatabaseService.unlockVault(sharesMonoKey);
+      const shares = await DatabaseService.createRecoveryShares(vaultKey, shareCount, threshold);
+      updateUserInContext({
+        recoveryKeyCreatedAt: new Date().toISOString(),
+        recoveryShareThreshold: threshold,
+        recoveryShareCount: shareCount
+      });
+      setSharesMonoKey('');
+      setIssuedShares(shares);
+    } catch (error) {
+      console.error('Settings: Recovery shares error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create recovery shares');
+    } finally {
+      setIsCreatingShares(false);
+    }
+  };
+
+  const handleRevokeRecovery = async () => {
+    if (!window.confirm('Revoke recovery? Your recovery key and all shares will stop working, and a forgotten MonoKey can no longer be reset.')) {
+      return;
+    }
+
+    setIsRevokingRecovery(true);
+    try {
+      console.log('Settings: Revoking recovery...');
+      await DatabaseService.revokeRecovery();
+      updateUserInContext({
+        recoveryKeyCreatedAt: undefined,
+        recoveryShareThreshold: undefined,
+        recoveryShareCount: undefined
+      });
+      toast.success('Recovery revoked');
+      closeRecoverySharesModal();
+    } catch (error) {
+      console.error('Settings: Revoke recovery error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke recovery');
+    } finally {
+      setIsRevokingRecovery(false);
+    }
+  };
+
+  const openSecurityLog = async () => {
+    setIsSecurityLogOpen(true);
+    setIsLoadingSecurityLog(true);
+    try {
+      setSecurityEvents(await DatabaseService.getSecurityEvents());
+    } catch (error) {
+      console.error('Settings: Security log error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load security log');
+    } finally {
+      setIsLoadingSecurityLog(false);
+    }
+  };
+
+  const isProposedKdfWeaker = !!proposedKdf && !!user?.kdfParams &&
+    proposedKdf.name === 'Argon2id' && user.kdfParams.name === 'Argon2id' &&
+    proposedKdf.memoryKiB * proposedKdf.iterations < user.kdfParams.memoryKiB * user.kdfParams.iterations;
+
   return (
     <div className={`min-h-screen transition-colors ${isDark ? 'bg-gray-900' : 'bg-gray-50'}`}>
       <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -278,6 +606,69 @@ const Settings: React.FC = () => {
                   <Database className="w-4 h-4 mr-2" />
                   Export Data
                 </Button>
+
+                <Button
+                  variant="outline"
+                  onClick={() => setIsKdfOpen(true)}
+                  className={`w-full justify-start ${isDark ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : ''}`}
+                >
+                  <Cpu className="w-4 h-4 mr-2" />
+                  Unlock Cost
+                </Button>
+
+                <Button
+                  variant="outline"
+                  onClick={openAutoLockModal}
+                  className={`w-full justify-start ${isDark ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : ''}`}
+                >
+                  <Lock className="w-4 h-4 mr-2" />
+                  Auto-Lock
+                </Button>
+
+                <Button
+                  variant="outline"
+                  onClick={() => setIsRecoveryKeyOpen(true)}
+                  className={`w-full justify-start ${isDark ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : ''}`}
+                >
+                  <LifeBuoy className="w-4 h-4 mr-2" />
+                  Recovery Key
+                </Button>
+
+                <Button
+                  variant="outline"
+                  onClick={openRecoverySharesModal}
+                  className={`w-full justify-start ${isDark ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : ''}`}
+                >
+                  <Users className="w-4 h-4 mr-2" />
+                  Recovery Shares
+                </Button>
+
+                <Button
+                  variant="outline"
+                  onClick={() => setIsEmergencyAccessOpen(true)}
+                  className={`w-full justify-start ${isDark ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : ''}`}
+                >
+                  <HeartPulse className="w-4 h-4 mr-2" />
+                  Emergency Access
+                </Button>
+
+                <Button
+                  variant="outline"
+                  onClick={() => setIsOrganizationsOpen(true)}
+                  className={`w-full justify-start ${isDark ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : ''}`}
+                >
+                  <Building2 className="w-4 h-4 mr-2" />
+                  Organizations
+                </Button>
+
+                <Button
+                  variant="outline"
+                  onClick={openSecurityLog}
+                  className={`w-full justify-start ${isDark ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : ''}`}
+                >
+                  <ScrollText className="w-4 h-4 mr-2" />
+                  Security Log
+                </Button>
               </div>
             </div>
 
@@ -313,7 +704,7 @@ const Settings: React.FC = () => {
       {/* Change MonoKey Modal */}
       <Modal
         isOpen={isChangeKeyOpen}
-        onClose={() => setIsChangeKeyOpen(false)}
+        onClose={() => !isRotatingKey && setIsChangeKeyOpen(false)}
         title="Change MonoKey"
       >
         <div className="space-y-6">
@@ -350,6 +741,11 @@ const Settings: React.FC = () => {
               required
             />
 
+            <PasswordStrengthMeter
+              password={keyChange.newMonoKey}
+              userInputs={[user?.email ?? '', user?.firstName ?? '', user?.lastName ?? '']}
+            />
+
             <Input
               label="Confirm New MonoKey"
               type="password"
@@ -361,17 +757,36 @@ const Settings: React.FC = () => {
             />
           </div>
 
-          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 rounded-lg p-4">
-            <p className="text-sm text-red-800 dark:text-red-200">
-              <strong>Warning:</strong> Changing your MonoKey will require you to re-enter it 
-              to access your credentials. Make sure you remember the new key.
-            </p>
-          </div>
+          {rotationProgress ? (
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm text-gray-600 dark:text-gray-300">
+                <span>Re-encrypting credentials...</span>
+                <span>{rotationProgress.completed} / {rotationProgress.total}</span>
+              </div>
+              <div className="bg-gray-200 dark:bg-gray-600 rounded-full h-2">
+                <div
+                  className="h-2 rounded-full bg-blue-600 transition-all"
+                  style={{ width: `${rotationProgress.total ? (rotationProgress.completed / rotationProgress.total) * 100 : 0}%` }}
+                />
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Keep this tab open. If it closes before the update finishes, your vault stays on the current MonoKey.
+              </p>
+            </div>
+          ) : (
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 rounded-lg p-4">
+              <p className="text-sm text-red-800 dark:text-red-200">
+                <strong>Warning:</strong> All of your credentials will be re-encrypted with the new 
+                MonoKey. Make sure you remember the new key.
+              </p>
+            </div>
+          )}
 
           <div className="flex space-x-3">
             <Button
               variant="outline"
               onClick={() => setIsChangeKeyOpen(false)}
+              disabled={isRotatingKey}
               className="flex-1"
             >
               Cancel
@@ -379,6 +794,7 @@ const Settings: React.FC = () => {
             <Button
               onClick={handleChangeMonoKey}
               disabled={!keyChange.currentMonoKey || !keyChange.newMonoKey || !keyChange.confirmNewMonoKey}
+              isLoading={isRotatingKey}
               className="flex-1"
             >
               Update MonoKey
@@ -386,6 +802,474 @@ const Settings: React.FC = () => {
           </div>
         </div>
       </Modal>
+
+      {/* Key Derivation Modal */}
+      <Modal
+        isOpen={isKdfOpen}
+        onClose={() => !isUpdatingKdf && closeKdfModal()}
+        title="Unlock Cost"
+      >
+        <div className="space-y-6">
+          <div className="text-center">
+            <div className="w-16 h-16 bg-blue-100 dark:bg-blue-900/20 rounded-full flex items-center justify-center mx-auto mb-4">
+              <Cpu className="w-8 h-8 text-blue-600 dark:text-blue-400" />
+            </div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+              Key Derivation Strength
+            </h3>
+            <p className="text-gray-600 dark:text-gray-300">
+              A slower unlock makes your MonoKey much harder to brute-force if the encrypted data ever leaks.
+            </p>
+          </div>
+
+          <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4 text-sm">
+            <span className="font-medium text-gray-700 dark:text-gray-300">Current: </span>
+            <span className="text-gray-600 dark:text-gray-400">{formatKdfParams(user?.kdfParams)}</span>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Target unlock time on this device
+            </label>
+            <div className="grid grid-cols-4 gap-2">
+              {UNLOCK_TARGETS_MS.map(targetMs => (
+                <button
+                  key={targetMs}
+                  type="button"
+                  onClick={() => {
+                    setUnlockTargetMs(targetMs);
+                    setProposedKdf(null);
+                  }}
+                  className={`px-3 py-2 text-sm rounded-lg border transition-colors ${
+                    unlockTargetMs === targetMs
+                      ? 'border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-300'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  {targetMs / 1000}s
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <Button
+            variant="outline"
+            onClick={handleCalibrate}
+            isLoading={isCalibrating}
+            className="w-full"
+          >
+            Calibrate
+          </Button>
+
+          {proposedKdf && (
+            <div className="space-y-4">
+              <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-700 rounded-lg p-4 text-sm text-blue-800 dark:text-blue-200">
+                <strong>New: </strong>{formatKdfParams(proposedKdf)}
+              </div>
+
+              {isProposedKdfWeaker && (
+                <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-700 rounded-lg p-4">
+                  <p className="text-sm text-yellow-800 dark:text-yellow-200">
+                    These settings are cheaper than your current ones. Other devices may unlock faster, but so would an attacker.
+                  </p>
+                </div>
+              )}
+
+              <Input
+                label="Current MonoKey"
+                type="password"
+                value={kdfMonoKey}
+                onChange={(e) => setKdfMonoKey(e.target.value)}
+                placeholder="Enter current MonoKey"
+                showPasswordToggle
+                required
+              />
+            </div>
+          )}
+
+          <div className="flex space-x-3">
+            <Button
+              variant="outline"
+              onClick={closeKdfModal}
+              disabled={isUpdatingKdf}
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleUpdateKdf}
+              disabled={!proposedKdf || !kdfMonoKey}
+              isLoading={isUpdatingKdf}
+              className="flex-1"
+            >
+              Apply
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Auto-Lock Modal */}
+      <Modal
+        isOpen={isAutoLockOpen}
+        onClose={() => setIsAutoLockOpen(false)}
+        title="Auto-Lock"
+      >
+        <div className="space-y-6">
+          <div className="text-center">
+            <div className="w-16 h-16 bg-blue-100 dark:bg-blue-900/20 rounded-full flex items-center justify-center mx-auto mb-4">
+              <Lock className="w-8 h-8 text-blue-600 dark:text-blue-400" />
+            </div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+              Lock the Vault Automatically
+            </h3>
+            <p className="text-gray-600 dark:text-gray-300">
+              A locked vault stays signed in but needs your MonoKey again. These settings apply to this device.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              After inactivity
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              {IDLE_LOCK_MINUTES.map(minutes => (
+                <button
+                  key={String(minutes)}
+                  type="button"
+                  onClick={() => setAutoLockDraft(prev => ({ ...prev, idleMinutes: minutes }))}
+                  className={`px-3 py-2 text-sm rounded-lg border transition-colors ${
+                    autoLockDraft.idleMinutes === minutes
+                      ? 'border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-300'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  {AutoLock.describe(minutes)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              When the tab is hidden for
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              {HIDDEN_LOCK_MINUTES.map(minutes => (
+                <button
+                  key={String(minutes)}
+                  type="button"
+                  onClick={() => setAutoLockDraft(prev => ({ ...prev, hiddenMinutes: minutes }))}
+                  className={`px-3 py-2 text-sm rounded-lg border transition-colors ${
+                    autoLockDraft.hiddenMinutes === minutes
+                      ? 'border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-300'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  {AutoLock.describe(minutes)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center space-x-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={autoLockDraft.lockOnSleep}
+              onChange={(e) => setAutoLockDraft(prev => ({ ...prev, lockOnSleep: e.target.checked }))}
+              className="w-4 h-4 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500 bg-white dark:bg-gray-700"
+            />
+            <span className="text-sm text-gray-700 dark:text-gray-300">Lock when the device wakes from sleep</span>
+          </label>
+
+          <div className="flex space-x-3">
+            <Button
+              variant="outline"
+              onClick={() => setIsAutoLockOpen(false)}
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSaveAutoLock}
+              className="flex-1"
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Emergency Access Modal */}
+      <Modal
+        isOpen={isEmergencyAccessOpen}
+        onClose={() => setIsEmergencyAccessOpen(false)}
+        title="Emergency Access"
+      >
+        <EmergencyAccessManager />
+      </Modal>
+
+      {/* Organizations Modal */}
+      <Modal
+        isOpen={isOrganizationsOpen}
+        onClose={() => setIsOrganizationsOpen(false)}
+        title="Organizations"
+      >
+        <OrganizationManager />
+      </Modal>
+
+      {/* Security Log Modal */}
+      <Modal
+        isOpen={isSecurityLogOpen}
+        onClose={() => setIsSecurityLogOpen(false)}
+        title="Security Log"
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            Recent MonoKey activity on your account from every device.
+          </p>
+
+          {isLoadingSecurityLog ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : securityEvents.length === 0 ? (
+            <p className="text-sm text-center text-gray-500 dark:text-gray-400 py-8">
+              No security events yet.
+            </p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700">
+              {securityEvents.map(event => {
+                const { title, detail, isWarning } = describeSecurityEvent(event);
+                return (
+                  <li key={event.id} className="py-3 flex items-start space-x-3">
+                    {isWarning ? (
+                      <ShieldAlert className="w-5 h-5 text-red-500 mt-0.5 flex-shrink-0" />
+                    ) : (
+                      <ShieldCheck className="w-5 h-5 text-green-500 mt-0.5 flex-shrink-0" />
+                    )}
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center justify-between space-x-2">
+                        <p className="text-sm font-medium text-gray-900 dark:text-white">{title}</p>
+                        <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                          {new Date(event.createdAt).toLocaleString()}
+                        </span>
+                      </div>
+                      {detail && (
+                        <p className="text-xs text-gray-600 dark:text-gray-300">{detail}</p>
+                      )}
+                      {event.userAgent && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400 truncate" title={event.userAgent}>
+                          {event.userAgent}
+                        </p>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          <Button
+            variant="outline"
+            onClick={() => setIsSecurityLogOpen(false)}
+            className="w-full"
+          >
+            Close
+          </Button>
+        </div>
+      </Modal>
+
+      {/* Recovery Key Modal */}
+      <Modal
+        isOpen={isRecoveryKeyOpen}
+        onClose={() => !isCreatingRecoveryKey && !issuedRecoveryKey && closeRecoveryKeyModal()}
+        title="Recovery Key"
+      >
+        {issuedRecoveryKey ? (
+          <RecoveryKeySheet
+            recoveryKey={issuedRecoveryKey}
+            email={user?.email}
+            onDone={closeRecoveryKeyModal}
+          />
+        ) : (
+          <div className="space-y-6">
+            <div className="text-center">
+              <div className="w-16 h-16 bg-blue-100 dark:bg-blue-900/20 rounded-full flex items-center justify-center mx-auto mb-4">
+                <LifeBuoy className="w-8 h-8 text-blue-600 dark:text-blue-400" />
+              </div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+                Recover a Forgotten MonoKey
+              </h3>
+              <p className="text-gray-600 dark:text-gray-300">
+                A recovery key can set a new MonoKey if you forget yours. Creating a new one makes the old one stop working.
+              </p>
+            </div>
+
+            <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4 text-sm">
+              <span className="font-medium text-gray-700 dark:text-gray-300">Current: </span>
+              <span className="text-gray-600 dark:text-gray-400">
+                {!user?.recoveryKeyCreatedAt
+                  ? 'No recovery key'
+                  : user.recoveryShareThreshold
+                    ? `Split into ${user.recoveryShareCount} shares on ${new Date(user.recoveryKeyCreatedAt).toLocaleDateString()}`
+                    : `Created ${new Date(user.recoveryKeyCreatedAt).toLocaleDateString()}`}
+              </span>
+            </div>
+
+            <Input
+              label="Current MonoKey"
+              type="password"
+              value={recoveryMonoKey}
+              onChange={(e) => setRecoveryMonoKey(e.target.value)}
+              placeholder="Enter current MonoKey"
+              showPasswordToggle
+              required
+            />
+
+            <div className="flex space-x-3">
+              <Button
+                variant="outline"
+                onClick={closeRecoveryKeyModal}
+                disabled={isCreatingRecoveryKey}
+                className="flex-1"
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleCreateRecoveryKey}
+                disabled={!recoveryMonoKey}
+                isLoading={isCreatingRecoveryKey}
+                className="flex-1"
+              >
+                {user?.recoveryKeyCreatedAt ? 'Replace Key' : 'Create Key'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+      {/* Recovery Shares Modal */}
+      <Modal
+        isOpen={isRecoverySharesOpen}
+        onClose={() => !isCreatingShares && !isRevokingRecovery && !issuedShares && closeRecoverySharesModal()}
+        title="Recovery Shares"
+      >
+        {issuedShares ? (
+          <RecoveryShareSheet
+            shares={issuedShares}
+            threshold={shareSettings.threshold}
+            email={user?.email}
+            onDone={closeRecoverySharesModal}
+          />
+        ) : (
+          <div className="space-y-6">
+            <div className="text-center">
+              <div className="w-16 h-16 bg-blue-100 dark:bg-blue-900/20 rounded-full flex items-center justify-center mx-auto mb-4">
+                <Users className="w-8 h-8 text-blue-600 dark:text-blue-400" />
+              </div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+                Split Recovery Among Trusted People
+              </h3>
+              <p className="text-gray-600 dark:text-gray-300">
+                Your recovery key is split into shares. Any chosen number of them together can reset your MonoKey, while fewer reveal nothing. This replaces your current recovery key or shares.
+              </p>
+            </div>
+
+            <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4 text-sm">
+              <span className="font-medium text-gray-700 dark:text-gray-300">Current: </span>
+              <span className="text-gray-600 dark:text-gray-400">
+                {user?.recoveryShareThreshold
+                  ? `${user.recoveryShareThreshold} of ${user.recoveryShareCount} shares needed`
+                  : 'No recovery shares'}
+              </span>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Number of shares
+              </label>
+              <div className="grid grid-cols-5 gap-2">
+                {SHARE_COUNTS.map(count => (
+                  <button
+                    key={count}
+                    type="button"
+                    onClick={() => handleShareCountChange(count)}
+                    className={`px-3 py-2 text-sm rounded-lg border transition-colors ${
+                      shareSettings.shareCount === count
+                        ? 'border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-300'
+                        : 'border-gray-300 text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    {count}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Shares needed to recover
+              </label>
+              <div className="grid grid-cols-5 gap-2">
+                {SHARE_COUNTS.filter(count => count <= shareSettings.shareCount).map(count => (
+                  <button
+                    key={count}
+                    type="button"
+                    onClick={() => setShareSettings(prev => ({ ...prev, threshold: count }))}
+                    className={`px-3 py-2 text-sm rounded-lg border transition-colors ${
+                      shareSettings.threshold === count
+                        ? 'border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-300'
+                        : 'border-gray-300 text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    {count}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <Input
+              label="Current MonoKey"
+              type="password"
+              value={sharesMonoKey}
+              onChange={(e) => setSharesMonoKey(e.target.value)}
+              placeholder="Enter current MonoKey"
+              showPasswordToggle
+              required
+            />
+
+            <div className="flex space-x-3">
+              <Button
+                variant="outline"
+                onClick={closeRecoverySharesModal}
+                disabled={isCreatingShares || isRevokingRecovery}
+                className="flex-1"
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleCreateRecoveryShares}
+                disabled={!sharesMonoKey || isRevokingRecovery}
+                isLoading={isCreatingShares}
+                className="flex-1"
+              >
+                {user?.recoveryShareThreshold ? 'Rotate Shares' : 'Create Shares'}
+              </Button>
+            </div>
+
+            {user?.recoveryKeyCreatedAt && (
+              <Button
+                variant="outline"
+                onClick={handleRevokeRecovery}
+                disabled={isCreatingShares}
+                isLoading={isRevokingRecovery}
+                className="w-full text-red-600 border-red-300 hover:bg-red-50 dark:text-red-400 dark:border-red-700 dark:hover:bg-red-900/20"
+              >
+                Revoke Recovery
+              </Button>
+            )}
+          </div>
+        )}
+      </Modal>
     </div>
   );
 };
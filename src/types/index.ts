@@ -5,22 +5,154 @@ export interface User {
   lastName: string;
   phoneNumber?: string;
   monoPasswordHash?: string;
+  kdfParams?: KdfParams;
+  // Set once a recovery key wraps the vault key
+  recoveryKeyCreatedAt?: string;
+  // Set when the recovery key was split into shares instead
+  recoveryShareThreshold?: number;
+  recoveryShareCount?: number;
   createdAt: string;
 }
 
+// Cost parameters for deriving keys from the MonoKey, stored per user
+export type KdfParams =
+  | { name: 'Argon2id'; memoryKiB: number; iterations: number; parallelism: number }
+  | { name: 'PBKDF2-SHA256'; iterations: number };
+
+export type ItemType = 'login' | 'secure_note' | 'card' | 'identity' | 'wifi' | 'api_token';
+
+export interface PaymentCard {
+  cardholderName: string;
+  // Digits only
+  number: string;
+  // Two digits, "01" to "12"
+  expiryMonth: string;
+  // Four digits
+  expiryYear: string;
+  securityCode?: string;
+}
+
+export interface Identity {
+  title?: string;
+  firstName: string;
+  lastName: string;
+  email?: string;
+  phone?: string;
+  company?: string;
+  address1?: string;
+  address2?: string;
+  city?: string;
+  state?: string;
+  postalCode?: string;
+  country?: string;
+}
+
+export type WifiSecurity = 'WPA3' | 'WPA2' | 'WEP' | 'none';
+
+export interface WifiNetwork {
+  ssid: string;
+  password?: string;
+  security: WifiSecurity;
+  hidden?: boolean;
+}
+
+export interface ApiToken {
+  token: string;
+  keyId?: string;
+  endpoint?: string;
+  // ISO date (YYYY-MM-DD)
+  expiresAt?: string;
+}
+
+export type CustomFieldType = 'text' | 'hidden' | 'boolean' | 'date' | 'url';
+
+// A user-defined value such as a PIN or customer number. Booleans are stored
+// as "true" or "false", dates as YYYY-MM-DD.
+export interface CustomField {
+  id: string;
+  name: string;
+  type: CustomFieldType;
+  value: string;
+}
+
+// A file attached to an item, stored encrypted in 1 MiB chunks. Only this
+// record, inside the item's encrypted payload, holds the name and key.
+export interface Attachment {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  chunkCount: number;
+  // Base64 AES-256-GCM key used for this file only
+  key: string;
+  createdAt: string;
+}
+
+// How a website URI is compared with the page being visited: the registrable
+// domain from the Public Suffix List, the exact host and port, a prefix of the
+// full URL, a regular expression, or not at all
+export type UriMatchMode = 'base_domain' | 'host' | 'starts_with' | 'regex' | 'never';
+
+export interface CredentialUri {
+  uri: string;
+  match: UriMatchMode;
+}
+
+// A vault item. Logins use username and password; other types keep those
+// empty and carry their fields in the object matching their type.
 export interface Credential {
   id: string;
+  // Missing on items saved before item types existed, which are logins
+  type?: ItemType;
   accountName: string;
   username: string;
   password: string;
   recoveryEmail?: string;
   recoveryMobile?: string;
   twoFactorCodes?: string;
+  // Site password policy in Apple password-rules syntax
+  passwordRules?: string;
+  // Websites the login belongs to; the first one is opened by the launch button
+  uris?: CredentialUri[];
+  // The body of a secure note; free-form notes for other types
+  notes?: string;
+  card?: PaymentCard;
+  identity?: Identity;
+  wifi?: WifiNetwork;
+  apiToken?: ApiToken;
+  // Shown in this order
+  customFields?: CustomField[];
+  attachments?: Attachment[];
   icon?: string;
+  // Free-form labels, kept in the encrypted payload
+  tags?: string[];
+  // Personal items only; pinned to the top of the vault
+  favorite?: boolean;
+  // Set for organization items; absent for the personal vault
+  collectionId?: string;
+  // Personal items only; absent when the item is not filed in a folder
+  folderId?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+// A credential another user shared with this one
+export interface SharedCredential extends Credential {
+  shareId: string;
+  ownerEmail: string;
+  canEdit: boolean;
+}
+
+// One recipient of a credential this user owns
+export interface CredentialShare {
+  id: string;
+  credentialId: string;
+  recipientId: string;
+  recipientEmail: string;
+  canEdit: boolean;
+  createdAt: string;
+}
+
 export interface EncryptedCredential {
   id: string;
   accountName: string;
@@ -36,10 +168,128 @@ export interface AuthState {
   isLoading: boolean;
 }
 
-export interface PasswordGeneratorOptions {
+export interface RandomPasswordOptions {
+  mode: 'password';
   length: number;
   includeUppercase: boolean;
   includeLowercase: boolean;
   includeNumbers: boolean;
   includeSpecialChars: boolean;
-}
\ No newline at end of file
+  // Drop characters that are easy to misread: 0 O 1 l I
+  excludeLookAlikes: boolean;
+  // Replaces the default symbol set when includeSpecialChars is on
+  customSymbols?: string;
+}
+
+// Diceware-style passphrase drawn from the bundled EFF large wordlist
+export interface PassphraseOptions {
+  mode: 'passphrase';
+  wordCount: number;
+  separator: string;
+  capitalize: boolean;
+  // Appends one random digit to one random word
+  includeNumber: boolean;
+}
+
+export type PasswordGeneratorOptions = RandomPasswordOptions | PassphraseOptions;
+
+// Parsed form of a password-rules string. Each entry in `required` is a
+// character set the password must draw at least one character from.
+export interface PasswordPolicy {
+  minLength?: number;
+  maxLength?: number;
+  required: string[];
+  allowed: string;
+  maxConsecutive?: number;
+}
+
+// A generated value kept so it is not lost if the credential is never saved
+export interface GeneratorHistoryEntry {
+  id: string;
+  value: string;
+  mode: PasswordGeneratorOptions['mode'];
+  accountName?: string;
+  createdAt: string;
+}
+
+// Per-device auto-lock thresholds in minutes; null turns a trigger off
+export interface AutoLockSettings {
+  idleMinutes: number | null;
+  // 0 locks as soon as the tab is hidden
+  hiddenMinutes: number | null;
+  lockOnSleep: boolean;
+}
+
+// Server-side count of wrong MonoKey entries, shared by all devices
+export interface MonoKeyLockout {
+  failedAttempts: number;
+  // Client timestamp (ms) before which no attempt is allowed; null when unlocked
+  lockedUntil: number | null;
+}
+
+export interface SecurityEvent {
+  id: string;
+  eventType: string;
+  details: Record<string, unknown>;
+  userAgent?: string;
+  createdAt: string;
+}
+
+export type EmergencyAccessStatus =
+  | 'invited'
+  | 'accepted'
+  | 'confirmed'
+  | 'recovery_requested'
+  | 'recovery_approved';
+
+export interface EmergencyAccess {
+  id: string;
+  grantorId: string;
+  grantorEmail: string;
+  granteeId?: string;
+  granteeEmail: string;
+  waitDays: number;
+  status: EmergencyAccessStatus;
+  recoveryInitiatedAt?: string;
+  createdAt: string;
+}
+
+export type OrganizationRole = 'owner' | 'admin' | 'member' | 'read_only';
+
+// An organization this user belongs to, with their role in it
+export interface Organization {
+  id: string;
+  name: string;
+  role: OrganizationRole;
+  createdAt: string;
+}
+
+export interface OrganizationMember {
+  id: string;
+  organizationId: string;
+  userId: string;
+  email: string;
+  role: OrganizationRole;
+  createdAt: string;
+}
+
+// A group of organization items sharing one key
+export interface Collection {
+  id: string;
+  organizationId: string;
+  name: string;
+  createdAt: string;
+}
+
+// A folder in the personal vault; the name is encrypted with the vault key
+export interface Folder {
+  id: string;
+  name: string;
+  // Absent for top-level folders
+  parentId?: string;
+  createdAt: string;
+}
+
+export interface FolderNode extends Folder {
+  children: FolderNode[];
+}
@@ -0,0 +1,260 @@
+import { supabase } from './supabase';
+import { CryptoWorker } from './cryptoWorker';
+import { Attachment } from '../types';
+
+const BUCKET = 'attachments';
+
+// Limits mirrored by the attachments migration
+export const ATTACHMENT_CHUNK_SIZE = 1024 * 1024;
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024;
+export const ATTACHMENT_QUOTA = 100 * 1024 * 1024;
+
+// Storage paths are limited to 1000 objects per remove call
+const REMOVE_BATCH_SIZE = 1000;
+
+type AttachmentRow = {
+  id: string;
+  user_id: string;
+  chunk_count: number;
+};
+
+// Minimal File System Access API surface, missing from TypeScript's DOM types
+type SaveFilePicker = (options: { suggestedName: string }) => Promise<{
+  createWritable: () => Promise<WritableStream<Uint8Array>>;
+}>;
+
+// Encrypted file attachments in Supabase Storage. Each file is split into
+// chunks that are encrypted with the file's own key on the crypto worker and
+// stored as <uploader id>/<attachment id>/<index>.
+export class AttachmentStorage {
+  private static chunkPath(userId: string, attachmentId: string, index: number): string {
+    return `${userId}/${attachmentId}/${index}`;
+  }
+
+  private static chunkAdditionalData(attachment: Pick<Attachment, 'id' | 'chunkCount'>, index: number): string {
+    return `${attachment.id}:${index}:${attachment.chunkCount}`;
+  }
+
+  static getChunkCount(size: number): number {
+    return Math.max(1, Math.ceil(size / ATTACHMENT_CHUNK_SIZE));
+  }
+
+  static formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+
+  // Bytes of attachments this user has uploaded, counted against the quota
+  static async getUsage(): Promise<number> {
+    const { data, error } = await supabase.rpc('attachment_bytes_used');
+
+    if (error) {
+      console.error('AttachmentStorage: Get usage error:', error);
+      throw new Error(`Failed to load attachment usage: ${error.message}`);
+    }
+    return Number(data ?? 0);
+  }
+
+  // Encrypts and uploads a file for the item. The returned record must be
+  // saved in the item's payload; until then only the uploader can use it.
+  static async upload(
+    credentialId: string,
+    file: File,
+    onProgress?: (uploaded: number, total: number) => void
+  ): Promise<Attachment> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      throw new Error(`Failed to attach file: files can be at most ${this.formatSize(MAX_ATTACHMENT_SIZE)}`);
+    }
+    if (await this.getUsage() + file.size > ATTACHMENT_QUOTA) {
+      throw new Error(`Failed to attach file: this would exceed your ${this.formatSize(ATTACHMENT_QUOTA)} of attachment storage`);
+    }
+
+    const chunkCount = this.getChunkCount(file.size);
+    // The quota is checked again on the server, under a lock
+    const { data, error } = await supabase
+      .rpc('create_attachment', { target_credential_id: credentialId, attachment_size: file.size })
+      .single<{ id: string; created_at: string }>();
+
+    if (error) {
+      console.error('AttachmentStorage: Create attachment error:', error);
+      throw new Error(`Failed to attach file: ${error.message}`);
+    }
+
+    const attachment: Attachment = {
+      id: data.id,
+      fileName: file.name,
+      mimeType: file.type || 'application/octet-stream',
+      size: file.size,
+      chunkCount,
+      key: await CryptoWorker.run('generateFileKey'),
+      createdAt: data.created_at
+    };
+
+    try {
+      for (let index = 0; index < chunkCount; index++) {
+        const start = index * ATTACHMENT_CHUNK_SIZE;
+        const plaintext = await file.slice(start, start + ATTACHMENT_CHUNK_SIZE).arrayBuffer();
+        const sealed = await CryptoWorker.run(
+          'encryptChunk',
+          plaintext,
+          attachment.key,
+          this.chunkAdditionalData(attachment, index)
+        );
+
+        const { error: uploadError } = await supabase.storage
+          .from(BUCKET)
+          .upload(this.chunkPath(user.id, attachment.id, index), new Blob([sealed]), {
+            contentType: 'application/octet-stream',
+            upsert: false
+          });
+        if (uploadError) throw uploadError;
+
+        onProgress?.(Math.min(start + ATTACHMENT_CHUNK_SIZE, file.size), file.size);
+      }
+    } catch (error) {
+      console.error('AttachmentStorage: Upload error:', error);
+      await this.removeRows([{ id: attachment.id, user_id: user.id, chunk_count: chunkCount }]).catch(cleanupError =>
+        console.error('AttachmentStorage: Failed to clean up partial upload:', attachment.id, cleanupError)
+      );
+      throw new Error(`Failed to upload attachment: ${error instanceof Error ? error.message : 'upload failed'}`);
+    }
+
+    return attachment;
+  }
+
+  // Decrypted file contents. Each chunk is downloaded and decrypted only when
+  // the reader asks for it, so a large file is never held in memory twice.
+  static download(attachment: Attachment): ReadableStream<Uint8Array> {
+    let uploaderId = '';
+    let index = 0;
+
+    return new ReadableStream<Uint8Array>({
+      start: async () => {
+        const { data, error } = await supabase
+          .from('attachments')
+          .select('user_id')
+          .eq('id', attachment.id)
+          .single();
+
+        if (error) {
+          console.error('AttachmentStorage: Get attachment error:', error);
+          throw new Error(`Failed to download attachment: ${error.message}`);
+        }
+        uploaderId = data.user_id;
+      },
+      pull: async (controller) => {
+        if (index >= attachment.chunkCount) {
+          controller.close();
+          return;
+        }
+
+        const { data, error } = await supabase.storage
+          .from(BUCKET)
+          .download(this.chunkPath(uploaderId, attachment.id, index));
+
+        if (error || !data) {
+          console.error('AttachmentStorage: Download chunk error:', attachment.id, index, error);
+          throw new Error(`Failed to download attachment: ${error?.message ?? 'a chunk is missing'}`);
+        }
+
+        const plaintext = await CryptoWorker.run(
+          'decryptChunk',
+          await data.arrayBuffer(),
+          attachment.key,
+          this.chunkAdditionalData(attachment, index)
+        );
+        index++;
+        controller.enqueue(new Uint8Array(plaintext));
+      }
+    });
+  }
+
+  // Writes the decrypted file straight to disk where the browser lets us
+  // pick a file; otherwise assembles it in memory and downloads it
+  static async saveToDisk(attachment: Attachment): Promise<void> {
+    const showSaveFilePicker = (window as Window & { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+
+    if (showSaveFilePicker) {
+      let handle;
+      try {
+        handle = await showSaveFilePicker({ suggestedName: attachment.fileName });
+      } catch (error) {
+        // The user closed the picker
+        if (error instanceof DOMException && error.name === 'AbortError') return;
+        throw error;
+      }
+      await this.download(attachment).pipeTo(await handle.createWritable());
+      return;
+    }
+
+    const blob = await new Response(this.download(attachment)).blob();
+    const url = URL.createObjectURL(new Blob([blob], { type: attachment.mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = attachment.fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+
+  // Chunks go first, so a failure never leaves chunks without their row
+  private static async removeRows(rows: AttachmentRow[]): Promise<void> {
+    if (rows.length === 0) return;
+
+    const paths = rows.flatMap(row =>
+      Array.from({ length: row.chunk_count }, (_, index) => this.chunkPath(row.user_id, row.id, index))
+    );
+    for (let start = 0; start < paths.length; start += REMOVE_BATCH_SIZE) {
+      const { error } = await supabase.storage.from(BUCKET).remove(paths.slice(start, start + REMOVE_BATCH_SIZE));
+      if (error) {
+        console.error('AttachmentStorage: Remove chunks error:', error);
+        throw new Error(`Failed to delete attachment: ${error.message}`);
+      }
+    }
+
+    const { error } = await supabase
+      .from('attachments')
+      .delete()
+      .in('id', rows.map(row => row.id));
+
+    if (error) {
+      console.error('AttachmentStorage: Delete attachment error:', error);
+      throw new Error(`Failed to delete attachment: ${error.message}`);
+    }
+  }
+
+  static async remove(attachmentIds: string[]): Promise<void> {
+    if (attachmentIds.length === 0) return;
+
+    const { data, error } = await supabase
+      .from('attachments')
+      .select('id, user_id, chunk_count')
+      .in('id', attachmentIds);
+
+    if (error) {
+      console.error('AttachmentStorage: Get attachments error:', error);
+      throw new Error(`Failed to delete attachment: ${error.message}`);
+    }
+    await this.removeRows(data || []);
+  }
+
+  // Called before items are deleted, since the database cascade only
+  // removes the rows and would leave their chunks behind
+  static async removeForCredentials(credentialIds: string[]): Promise<void> {
+    if (credentialIds.length === 0) return;
+
+    const { data, error } = await supabase
+      .from('attachments')
+      .select('id, user_id, chunk_count')
+      .in('credential_id', credentialIds);
+
+    if (error) {
+      console.error('AttachmentStorage: Get attachments error:', error);
+      throw new Error(`Failed to delete attachments: ${error.message}`);
+    }
+    await this.removeRows(data || []);
+  }
+}
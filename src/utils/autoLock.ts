@@ -0,0 +1,42 @@
+import { AutoLockSettings } from '../types';
+
+const STORAGE_KEY = 'monokey_auto_lock';
+
+// Auto-lock thresholds are a per-device preference, stored like the theme
+export class AutoLock {
+  static readonly DEFAULT_SETTINGS: AutoLockSettings = {
+    idleMinutes: 15,
+    hiddenMinutes: 5,
+    lockOnSleep: true
+  };
+
+  // How often the idle, hidden and clock checks run while the vault is open
+  static readonly CHECK_INTERVAL_MS = 15 * 1000;
+
+  // A check running this much later than scheduled means the system slept.
+  // Browsers throttle timers in background tabs to about once a minute, so
+  // this stays well above that.
+  static readonly CLOCK_JUMP_MS = 2 * 60 * 1000;
+
+  static load(): AutoLockSettings {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      if (saved) {
+        return { ...this.DEFAULT_SETTINGS, ...JSON.parse(saved) };
+      }
+    } catch (error) {
+      console.error('AutoLock: Failed to read settings:', error);
+    }
+    return this.DEFAULT_SETTINGS;
+  }
+
+  static save(settings: AutoLockSettings): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  }
+
+  static describe(minutes: number | null): string {
+    if (minutes === null) return 'Never';
+    if (minutes === 0) return 'Immediately';
+    return minutes < 60 ? `${minutes} min` : `${minutes / 60} h`;
+  }
+}
@@ -1,28 +1,227 @@
 import CryptoJS from 'crypto-js';
+import { argon2id } from 'hash-wasm';
+import { KdfParams, PassphraseOptions, PasswordGeneratorOptions, PasswordPolicy, RandomPasswordOptions } from '../types';
+import { EFF_WORDLIST } from './wordlist';
+import { PasswordRules } from './passwordRules';
+
+// Current ciphertext envelope. Anything else is a legacy CryptoJS string:
+//   v0  salt:iv:ciphertext  AES-CBC under a PBKDF2 key derived from the MonoKey
+//   v1  iv:ciphertext       AES-CBC under the vault key
+const ENVELOPE_VERSION = 2;
+const VERIFIER_VERSION = 2;
+
+// Argon2id calibration bounds (OWASP floor: 19 MiB, 2 passes)
+const ARGON2_MIN_MEMORY_KIB = 19 * 1024;
+const ARGON2_MAX_MEMORY_KIB = 256 * 1024;
+const ARGON2_START_MEMORY_KIB = 64 * 1024;
+const ARGON2_MIN_ITERATIONS = 2;
+const ARGON2_MAX_ITERATIONS = 10;
+
+// An unlock derives the verifier and the vault key wrapping key separately
+const DERIVATIONS_PER_UNLOCK = 2;
+
+const LOOK_ALIKE_CHARS = '0O1lI';
+
+// Candidates drawn before giving up on a policy's max-consecutive limit
+const MAX_GENERATION_ATTEMPTS = 100;
+
+// Recovery keys are 160 random bits written in Crockford base32, which skips
+// I, L, O and U so the printed sheet cannot be misread
+const RECOVERY_KEY_BYTES = 20;
+const RECOVERY_KEY_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const RECOVERY_KEY_GROUP_SIZE = 4;
+
+// Per-user keypair for encrypting keys to another user. RSA-OAEP rather than
+// X25519 because every browser's WebCrypto supports it.
+const KEY_PAIR_ALGORITHM: RsaHashedKeyGenParams = {
+  name: 'RSA-OAEP',
+  modulusLength: 3072,
+  publicExponent: new Uint8Array([1, 0, 1]),
+  hash: 'SHA-256'
+};
+
+// Cost parameters plus the per-blob salt they were used with
+type SaltedKdfParams = KdfParams & { salt: string };
+
+// Stored in user_profiles.mono_password_hash. Legacy verifiers are a bare
+// unsalted SHA-256 hex digest of the MonoKey.
+interface MonoKeyVerifier {
+  v: number;
+  kdf: SaltedKdfParams;
+  alg: 'HKDF-SHA256';
+  check: string;
+}
+
+// A symmetric key encrypted to a user's public key
+interface PublicKeyEnvelope {
+  v: number;
+  alg: 'RSA-OAEP-256';
+  ct: string;
+}
+
+interface CipherEnvelope {
+  v: number;
+  alg: 'AES-256-GCM';
+  kdf?: SaltedKdfParams;
+  iv: string;
+  ct: string;
+}
 
 export class CryptoUtils {
-  private static deriveKey(monoPassword: string, salt: string): string {
+  static readonly DEFAULT_KDF_PARAMS: KdfParams = {
+    name: 'Argon2id',
+    memoryKiB: ARGON2_START_MEMORY_KIB,
+    iterations: 3,
+    parallelism: 1
+  };
+
+  static readonly DEFAULT_UNLOCK_TARGET_MS = 1000;
+
+  static readonly DEFAULT_SYMBOLS = '!@#$%^&*()_+-=[]{}|;:,.<>?';
+
+  private static toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) {
+      binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+  }
+
+  private static fromBase64(encoded: string): Uint8Array {
+    const binary = atob(encoded);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+
+  private static withSalt(kdfParams: KdfParams): SaltedKdfParams {
+    return { ...kdfParams, salt: this.toBase64(crypto.getRandomValues(new Uint8Array(16))) };
+  }
+
+  private static async deriveKeyMaterial(monoPassword: string, kdf: SaltedKdfParams): Promise<Uint8Array> {
+    if (kdf.name === 'Argon2id') {
+      return argon2id({
+        password: monoPassword,
+        salt: this.fromBase64(kdf.salt),
+        memorySize: kdf.memoryKiB,
+        iterations: kdf.iterations,
+        parallelism: kdf.parallelism,
+        hashLength: 32,
+        outputType: 'binary'
+      });
+    }
+
+    if (kdf.name === 'PBKDF2-SHA256') {
+      const passwordKey = await crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(monoPassword),
+        'PBKDF2',
+        false,
+        ['deriveBits']
+      );
+      const bits = await crypto.subtle.deriveBits(
+        { name: 'PBKDF2', hash: 'SHA-256', salt: this.fromBase64(kdf.salt), iterations: kdf.iterations },
+        passwordKey,
+        256
+      );
+      return new Uint8Array(bits);
+    }
+
+    throw new Error(`Unsupported key derivation function: ${(kdf as { name: string }).name}`);
+  }
+
+  private static async deriveKey(monoPassword: string, kdf: SaltedKdfParams): Promise<CryptoKey> {
+    const material = await this.deriveKeyMaterial(monoPassword, kdf);
+    return crypto.subtle.importKey('raw', material, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+  }
+
+  private static deriveLegacyKey(monoPassword: string, salt: string): string {
     return CryptoJS.PBKDF2(monoPassword, salt, {
       keySize: 256 / 32,
       iterations: 10000
     }).toString();
   }
 
-  static encrypt(data: string, monoPassword: string): string {
-    const salt = CryptoJS.lib.WordArray.random(128 / 8).toString();
-    const key = this.deriveKey(monoPassword, salt);
-    const iv = CryptoJS.lib.WordArray.random(128 / 8);
-    
-    const encrypted = CryptoJS.AES.encrypt(data, key, {
-      iv: iv,
-      mode: CryptoJS.mode.CBC,
-      padding: CryptoJS.pad.Pkcs7
-    });
+  private static parseEnvelope(encryptedData: string): CipherEnvelope | null {
+    if (!encryptedData.startsWith('{')) return null;
+
+    let envelope: CipherEnvelope;
+    try {
+      envelope = JSON.parse(encryptedData);
+    } catch {
+      throw new Error('Invalid encrypted data format');
+    }
+
+    if (envelope.v !== ENVELOPE_VERSION || envelope.alg !== 'AES-256-GCM') {
+      throw new Error(`Unsupported encrypted data version: ${envelope.v}`);
+    }
+    return envelope;
+  }
+
+  private static async seal(plaintext: Uint8Array, key: CryptoKey, kdf?: SaltedKdfParams): Promise<string> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+
+    const envelope: CipherEnvelope = {
+      v: ENVELOPE_VERSION,
+      alg: 'AES-256-GCM',
+      ...(kdf && { kdf }),
+      iv: this.toBase64(iv),
+      ct: this.toBase64(new Uint8Array(ciphertext))
+    };
+    return JSON.stringify(envelope);
+  }
+
+  // GCM authentication fails for both a wrong key and modified data, so
+  // either way nothing unauthenticated is ever returned to the caller.
+  private static async open(envelope: CipherEnvelope, key: CryptoKey): Promise<Uint8Array> {
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: this.fromBase64(envelope.iv) },
+        key,
+        this.fromBase64(envelope.ct)
+      );
+      return new Uint8Array(plaintext);
+    } catch {
+      throw new Error('Failed to decrypt data. Wrong key or data has been tampered with.');
+    }
+  }
+
+  private static decodeUtf8(bytes: Uint8Array): string {
+    try {
+      return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    } catch {
+      throw new Error('Failed to decrypt data. Decrypted content is not valid text.');
+    }
+  }
+
+  private static async decryptLegacyWithKey(encryptedData: string, vaultKey: CryptoKey): Promise<string> {
+    try {
+      const parts = encryptedData.split(':');
+      if (parts.length !== 2) {
+        throw new Error('Invalid encrypted data format');
+      }
+
+      const [ivString, encrypted] = parts;
+      const rawKey = new Uint8Array(await crypto.subtle.exportKey('raw', vaultKey));
+      const key = CryptoJS.enc.Hex.parse(Array.from(rawKey, b => b.toString(16).padStart(2, '0')).join(''));
+      const iv = CryptoJS.enc.Hex.parse(ivString);
 
-    return salt + ':' + iv.toString() + ':' + encrypted.toString();
+      const decrypted = CryptoJS.AES.decrypt(encrypted, key, {
+        iv: iv,
+        mode: CryptoJS.mode.CBC,
+        padding: CryptoJS.pad.Pkcs7
+      });
+
+      return decrypted.toString(CryptoJS.enc.Utf8);
+    } catch {
+      throw new Error('Failed to decrypt data. Invalid vault key or corrupted data.');
+    }
   }
 
-  static decrypt(encryptedData: string, monoPassword: string): string {
+  private static decryptLegacyWithPassword(encryptedData: string, monoPassword: string): string {
     try {
       const parts = encryptedData.split(':');
       if (parts.length !== 3) {
@@ -30,7 +229,7 @@ export class CryptoUtils {
       }
 
       const [salt, ivString, encrypted] = parts;
-      const key = this.deriveKey(monoPassword, salt);
+      const key = this.deriveLegacyKey(monoPassword, salt);
       const iv = CryptoJS.enc.Hex.parse(ivString);
 
       const decrypted = CryptoJS.AES.decrypt(encrypted, key, {
@@ -40,41 +239,552 @@ export class CryptoUtils {
       });
 
       return decrypted.toString(CryptoJS.enc.Utf8);
-    } catch (error) {
+    } catch {
       throw new Error('Failed to decrypt data. Invalid MonoPassword or corrupted data.');
     }
   }
 
-  static hashPassword(password: string): string {
-    return CryptoJS.SHA256(password).toString();
+  static isLegacyFormat(encryptedData: string): boolean {
+    return !encryptedData.startsWith('{');
+  }
+
+  static async generateVaultKey(): Promise<CryptoKey> {
+    return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  }
+
+  static async encrypt(data: string, vaultKey: CryptoKey): Promise<string> {
+    return this.seal(new TextEncoder().encode(data), vaultKey);
+  }
+
+  static async decrypt(encryptedData: string, vaultKey: CryptoKey): Promise<string> {
+    const envelope = this.parseEnvelope(encryptedData);
+    if (!envelope) {
+      return this.decryptLegacyWithKey(encryptedData, vaultKey);
+    }
+    return this.decodeUtf8(await this.open(envelope, vaultKey));
+  }
+
+  static async encryptWithPassword(
+    data: string,
+    monoPassword: string,
+    kdfParams: KdfParams = this.DEFAULT_KDF_PARAMS
+  ): Promise<string> {
+    const kdf = this.withSalt(kdfParams);
+    const key = await this.deriveKey(monoPassword, kdf);
+    return this.seal(new TextEncoder().encode(data), key, kdf);
+  }
+
+  static async decryptWithPassword(encryptedData: string, monoPassword: string): Promise<string> {
+    const envelope = this.parseEnvelope(encryptedData);
+    if (!envelope) {
+      return this.decryptLegacyWithPassword(encryptedData, monoPassword);
+    }
+    if (!envelope.kdf) {
+      throw new Error('Invalid encrypted data format');
+    }
+
+    const key = await this.deriveKey(monoPassword, envelope.kdf);
+    return this.decodeUtf8(await this.open(envelope, key));
+  }
+
+  // The vault key is wrapped with the MonoKey-derived key, so changing the
+  // MonoKey only re-wraps this one value instead of every credential.
+  static async wrapVaultKey(
+    vaultKey: CryptoKey,
+    monoPassword: string,
+    kdfParams: KdfParams = this.DEFAULT_KDF_PARAMS
+  ): Promise<string> {
+    const rawKey = new Uint8Array(await crypto.subtle.exportKey('raw', vaultKey));
+    return this.encryptWithPassword(this.toBase64(rawKey), monoPassword, kdfParams);
+  }
+
+  static async unwrapVaultKey(wrappedVaultKey: string, monoPassword: string): Promise<CryptoKey> {
+    const encodedKey = await this.decryptWithPassword(wrappedVaultKey, monoPassword);
+
+    let rawKey: Uint8Array;
+    if (this.isLegacyFormat(wrappedVaultKey)) {
+      // Legacy wraps store the key as hex
+      if (!/^[0-9a-f]{64}$/.test(encodedKey)) {
+        throw new Error('Failed to unlock vault. Invalid MonoPassword or corrupted data.');
+      }
+      rawKey = new Uint8Array(encodedKey.match(/../g)!.map(byte => parseInt(byte, 16)));
+    } else {
+      rawKey = this.fromBase64(encodedKey);
+    }
+
+    return crypto.subtle.importKey('raw', rawKey, { name: 'AES-GCM' }, true, ['encrypt', 'decrypt']);
+  }
+
+  // Crockford base32 without padding; used for recovery keys and their shares
+  static encodeBase32(bytes: Uint8Array): string {
+    let bits = 0;
+    let value = 0;
+    let encoded = '';
+    for (const byte of bytes) {
+      value = ((value << 8) | byte) & 0xffff;
+      bits += 8;
+      while (bits >= 5) {
+        encoded += RECOVERY_KEY_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+    if (bits > 0) {
+      encoded += RECOVERY_KEY_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return encoded;
+  }
+
+  // Accepts text as printed or retyped: any case, with or without dashes and
+  // spaces, and with the usual O/0 and I/L/1 mix-ups
+  static decodeBase32(encoded: string): Uint8Array {
+    const normalized = encoded
+      .toUpperCase()
+      .replace(/[\s-]/g, '')
+      .replace(/O/g, '0')
+      .replace(/[IL]/g, '1');
+
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+    for (const char of normalized) {
+      const index = RECOVERY_KEY_ALPHABET.indexOf(char);
+      if (index === -1) throw new Error('Recovery key contains invalid characters');
+      value = ((value << 5) | index) & 0xffff;
+      bits += 5;
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 0xff);
+        bits -= 8;
+      }
+    }
+    return new Uint8Array(bytes);
+  }
+
+  static encodeRecoveryKey(bytes: Uint8Array): string {
+    return this.encodeBase32(bytes).match(new RegExp(`.{1,${RECOVERY_KEY_GROUP_SIZE}}`, 'g'))!.join('-');
+  }
+
+  static decodeRecoveryKey(recoveryKey: string): Uint8Array {
+    const bytes = this.decodeBase32(recoveryKey);
+    if (bytes.length !== RECOVERY_KEY_BYTES) {
+      throw new Error('Recovery key has the wrong length');
+    }
+    return bytes;
+  }
+
+  static generateRecoveryKey(): string {
+    return this.encodeRecoveryKey(crypto.getRandomValues(new Uint8Array(RECOVERY_KEY_BYTES)));
+  }
+
+  static isValidRecoveryKey(recoveryKey: string): boolean {
+    try {
+      this.decodeRecoveryKey(recoveryKey);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // The recovery key is already full-entropy, so HKDF is enough here; a slow
+  // KDF would add nothing but unlock time
+  private static async deriveRecoveryWrappingKey(recoveryKey: string): Promise<CryptoKey> {
+    const hkdfKey = await crypto.subtle.importKey('raw', this.decodeRecoveryKey(recoveryKey), 'HKDF', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+      { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: new TextEncoder().encode('monokey-recovery-key') },
+      hkdfKey,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  // A second wrap of the vault key, so a forgotten MonoKey can be replaced
+  // without re-encrypting any credential
+  static async wrapVaultKeyWithRecoveryKey(vaultKey: CryptoKey, recoveryKey: string): Promise<string> {
+    const rawKey = new Uint8Array(await crypto.subtle.exportKey('raw', vaultKey));
+    return this.seal(new TextEncoder().encode(this.toBase64(rawKey)), await this.deriveRecoveryWrappingKey(recoveryKey));
+  }
+
+  static async unwrapVaultKeyWithRecoveryKey(wrappedVaultKey: string, recoveryKey: string): Promise<CryptoKey> {
+    const envelope = this.parseEnvelope(wrappedVaultKey);
+    if (!envelope) {
+      throw new Error('Invalid encrypted data format');
+    }
+
+    let encodedKey: string;
+    try {
+      encodedKey = this.decodeUtf8(await this.open(envelope, await this.deriveRecoveryWrappingKey(recoveryKey)));
+    } catch {
+      throw new Error('Recovery key is incorrect');
+    }
+
+    return crypto.subtle.importKey('raw', this.fromBase64(encodedKey), { name: 'AES-GCM' }, true, ['encrypt', 'decrypt']);
+  }
+
+  // Shared items get their own key, kept encrypted with the owner's vault key,
+  // so the item can be given to other users without the vault key
+  static async wrapItemKey(itemKey: CryptoKey, vaultKey: CryptoKey): Promise<string> {
+    const rawKey = new Uint8Array(await crypto.subtle.exportKey('raw', itemKey));
+    return this.encrypt(this.toBase64(rawKey), vaultKey);
+  }
+
+  static async unwrapItemKey(wrappedItemKey: string, vaultKey: CryptoKey): Promise<CryptoKey> {
+    const encodedKey = await this.decrypt(wrappedItemKey, vaultKey);
+    return crypto.subtle.importKey('raw', this.fromBase64(encodedKey), { name: 'AES-GCM' }, true, ['encrypt', 'decrypt']);
+  }
+
+  // Attachments get their own key, kept as base64 in the item's encrypted
+  // payload so everyone who can read the item can read its files
+  static async generateFileKey(): Promise<string> {
+    const key = await this.generateVaultKey();
+    return this.toBase64(new Uint8Array(await crypto.subtle.exportKey('raw', key)));
+  }
+
+  private static importFileKey(encodedKey: string): Promise<CryptoKey> {
+    return crypto.subtle.importKey('raw', this.fromBase64(encodedKey), { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+  }
+
+  // One attachment chunk as IV followed by ciphertext. The additional data
+  // binds the chunk to its file, position and the file's chunk count, so
+  // chunks cannot be swapped, reordered or dropped from the end unnoticed.
+  static async encryptChunk(chunk: ArrayBuffer, encodedKey: string, additionalData: string): Promise<ArrayBuffer> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(additionalData) },
+      await this.importFileKey(encodedKey),
+      chunk
+    );
+
+    const sealed = new Uint8Array(iv.length + ciphertext.byteLength);
+    sealed.set(iv);
+    sealed.set(new Uint8Array(ciphertext), iv.length);
+    return sealed.buffer;
+  }
+
+  static async decryptChunk(sealed: ArrayBuffer, encodedKey: string, additionalData: string): Promise<ArrayBuffer> {
+    try {
+      return await crypto.subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv: new Uint8Array(sealed, 0, 12),
+          additionalData: new TextEncoder().encode(additionalData)
+        },
+        await this.importFileKey(encodedKey),
+        new Uint8Array(sealed, 12)
+      );
+    } catch {
+      throw new Error('Failed to decrypt attachment. Wrong key or the file has been tampered with.');
+    }
+  }
+
+  // The private key is stored encrypted with the vault key, so it unlocks
+  // together with the vault and needs no secret of its own
+  static async generateKeyPair(vaultKey: CryptoKey): Promise<{ publicKey: string; encryptedPrivateKey: string }> {
+    const keyPair = await crypto.subtle.generateKey(KEY_PAIR_ALGORITHM, true, ['encrypt', 'decrypt']);
+    const publicKey = new Uint8Array(await crypto.subtle.exportKey('spki', keyPair.publicKey));
+    const privateKey = new Uint8Array(await crypto.subtle.exportKey('pkcs8', keyPair.privateKey));
+
+    return {
+      publicKey: this.toBase64(publicKey),
+      encryptedPrivateKey: await this.encrypt(this.toBase64(privateKey), vaultKey)
+    };
+  }
+
+  static async unwrapPrivateKey(encryptedPrivateKey: string, vaultKey: CryptoKey): Promise<CryptoKey> {
+    const encodedKey = await this.decrypt(encryptedPrivateKey, vaultKey);
+    return crypto.subtle.importKey('pkcs8', this.fromBase64(encodedKey), KEY_PAIR_ALGORITHM, false, ['decrypt']);
+  }
+
+  // Short hex digest of a public key, for people to compare out of band
+  static async getPublicKeyFingerprint(publicKey: string): Promise<string> {
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', this.fromBase64(publicKey)));
+    const hex = Array.from(digest.slice(0, 16), b => b.toString(16).padStart(2, '0')).join('');
+    return hex.match(/.{4}/g)!.join(' ');
+  }
+
+  static async encryptKeyForPublicKey(key: CryptoKey, publicKey: string): Promise<string> {
+    const recipientKey = await crypto.subtle.importKey('spki', this.fromBase64(publicKey), KEY_PAIR_ALGORITHM, false, ['encrypt']);
+    const rawKey = await crypto.subtle.exportKey('raw', key);
+    const ciphertext = await crypto.subtle.encrypt({ name: 'RSA-OAEP' }, recipientKey, rawKey);
+
+    const envelope: PublicKeyEnvelope = {
+      v: 1,
+      alg: 'RSA-OAEP-256',
+      ct: this.toBase64(new Uint8Array(ciphertext))
+    };
+    return JSON.stringify(envelope);
+  }
+
+  static async decryptKeyWithPrivateKey(encryptedKey: string, privateKey: CryptoKey): Promise<CryptoKey> {
+    let envelope: PublicKeyEnvelope;
+    try {
+      envelope = JSON.parse(encryptedKey);
+    } catch {
+      throw new Error('Invalid encrypted key format');
+    }
+    if (envelope.v !== 1 || envelope.alg !== 'RSA-OAEP-256') {
+      throw new Error(`Unsupported encrypted key version: ${envelope.v}`);
+    }
+
+    let rawKey: ArrayBuffer;
+    try {
+      rawKey = await crypto.subtle.decrypt({ name: 'RSA-OAEP' }, privateKey, this.fromBase64(envelope.ct));
+    } catch {
+      throw new Error('Failed to decrypt key. It was encrypted for a different user.');
+    }
+
+    return crypto.subtle.importKey('raw', rawKey, { name: 'AES-GCM' }, true, ['encrypt', 'decrypt']);
+  }
+
+  static isLegacyVerifier(verifier: string): boolean {
+    return !verifier.startsWith('{');
+  }
+
+  // True when the stored verifier was not produced with the user's current
+  // KDF parameters, e.g. a SHA-256 hash or a PBKDF2 verifier after the switch
+  // to Argon2id.
+  static needsVerifierUpgrade(storedVerifier: string, kdfParams: KdfParams): boolean {
+    if (this.isLegacyVerifier(storedVerifier)) return true;
+
+    try {
+      const { kdf } = JSON.parse(storedVerifier) as MonoKeyVerifier;
+      return !this.isSameKdf(kdf, kdfParams);
+    } catch {
+      return true;
+    }
+  }
+
+  static isSameKdf(a: KdfParams, b: KdfParams): boolean {
+    if (a.name === 'Argon2id' && b.name === 'Argon2id') {
+      return a.memoryKiB === b.memoryKiB && a.iterations === b.iterations && a.parallelism === b.parallelism;
+    }
+    if (a.name === 'PBKDF2-SHA256' && b.name === 'PBKDF2-SHA256') {
+      return a.iterations === b.iterations;
+    }
+    return false;
+  }
+
+  // Picks Argon2id parameters so that a full unlock on this device takes
+  // roughly targetUnlockMs. Memory is preferred over passes, since it is
+  // what makes GPU cracking expensive.
+  static async calibrateKdf(targetUnlockMs: number = this.DEFAULT_UNLOCK_TARGET_MS): Promise<KdfParams> {
+    const budgetMs = targetUnlockMs / DERIVATIONS_PER_UNLOCK;
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+
+    const timePass = async (memoryKiB: number) => {
+      const start = performance.now();
+      await argon2id({
+        password: 'calibration',
+        salt,
+        memorySize: memoryKiB,
+        iterations: 1,
+        parallelism: 1,
+        hashLength: 32,
+        outputType: 'binary'
+      });
+      return performance.now() - start;
+    };
+
+    let memoryKiB = ARGON2_START_MEMORY_KIB;
+    let passMs = await timePass(memoryKiB);
+
+    while (passMs * ARGON2_MIN_ITERATIONS * 2 <= budgetMs && memoryKiB < ARGON2_MAX_MEMORY_KIB) {
+      memoryKiB = Math.min(memoryKiB * 2, ARGON2_MAX_MEMORY_KIB);
+      passMs = await timePass(memoryKiB);
+    }
+
+    while (passMs * ARGON2_MIN_ITERATIONS > budgetMs && memoryKiB > ARGON2_MIN_MEMORY_KIB) {
+      memoryKiB = Math.max(Math.floor(memoryKiB / 2), ARGON2_MIN_MEMORY_KIB);
+      passMs = await timePass(memoryKiB);
+    }
+
+    const iterations = Math.min(
+      ARGON2_MAX_ITERATIONS,
+      Math.max(ARGON2_MIN_ITERATIONS, Math.floor(budgetMs / Math.max(passMs, 1)))
+    );
+
+    return { name: 'Argon2id', memoryKiB, iterations, parallelism: 1 };
+  }
+
+  static isKdfBelowMinimum(kdfParams: KdfParams): boolean {
+    if (kdfParams.name !== 'Argon2id') return true;
+    return kdfParams.memoryKiB < ARGON2_MIN_MEMORY_KIB || kdfParams.iterations < ARGON2_MIN_ITERATIONS;
+  }
+
+  private static async deriveCheckValue(monoPassword: string, kdf: SaltedKdfParams): Promise<Uint8Array> {
+    const stretched = await this.deriveKeyMaterial(monoPassword, kdf);
+
+    // Domain-separate the check value from the stretched key material
+    const hkdfKey = await crypto.subtle.importKey('raw', stretched, 'HKDF', false, ['deriveBits']);
+    const check = await crypto.subtle.deriveBits(
+      { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: new TextEncoder().encode('monokey-verifier') },
+      hkdfKey,
+      256
+    );
+    return new Uint8Array(check);
+  }
+
+  static async createMonoKeyVerifier(
+    monoPassword: string,
+    kdfParams: KdfParams = this.DEFAULT_KDF_PARAMS
+  ): Promise<string> {
+    const kdf = this.withSalt(kdfParams);
+
+    const verifier: MonoKeyVerifier = {
+      v: VERIFIER_VERSION,
+      kdf,
+      alg: 'HKDF-SHA256',
+      check: this.toBase64(await this.deriveCheckValue(monoPassword, kdf))
+    };
+    return JSON.stringify(verifier);
+  }
+
+  static async verifyMonoKey(monoPassword: string, storedVerifier: string): Promise<boolean> {
+    if (this.isLegacyVerifier(storedVerifier)) {
+      return CryptoJS.SHA256(monoPassword).toString() === storedVerifier;
+    }
+
+    let verifier: MonoKeyVerifier;
+    try {
+      verifier = JSON.parse(storedVerifier);
+    } catch {
+      throw new Error('Invalid MonoKey verifier format');
+    }
+    if (verifier.v !== VERIFIER_VERSION || verifier.alg !== 'HKDF-SHA256') {
+      throw new Error(`Unsupported MonoKey verifier version: ${verifier.v}`);
+    }
+
+    const expected = this.fromBase64(verifier.check);
+    const actual = await this.deriveCheckValue(monoPassword, verifier.kdf);
+    if (expected.length !== actual.length) return false;
+
+    // Constant-time comparison
+    let diff = 0;
+    for (let i = 0; i < expected.length; i++) {
+      diff |= expected[i] ^ actual[i];
+    }
+    return diff === 0;
+  }
+
+  // Uniform integer in [0, max) from the CSPRNG. Draws at or above the
+  // largest multiple of max are rejected so no value is favoured by modulo.
+  private static randomInt(max: number): number {
+    const limit = Math.floor(0x100000000 / max) * max;
+    const buffer = new Uint32Array(1);
+    do {
+      crypto.getRandomValues(buffer);
+    } while (buffer[0] >= limit);
+    return buffer[0] % max;
+  }
+
+  private static pickChar(charset: string): string {
+    return charset.charAt(this.randomInt(charset.length));
   }
 
-  static compareHash(input: string, hashed: string): boolean {
-    const inputHash = CryptoJS.SHA256(input).toString();
-    return inputHash === hashed;
+  private static withoutLookAlikes(chars: string, options: RandomPasswordOptions): string {
+    return options.excludeLookAlikes ? chars.split('').filter(c => !LOOK_ALIKE_CHARS.includes(c)).join('') : chars;
   }
 
-  static generatePassword(options: {
-    length: number;
-    includeUppercase: boolean;
-    includeLowercase: boolean;
-    includeNumbers: boolean;
-    includeSpecialChars: boolean;
-  }): string {
-    let charset = '';
-    
-    if (options.includeLowercase) charset += 'abcdefghijklmnopqrstuvwxyz';
-    if (options.includeUppercase) charset += 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
-    if (options.includeNumbers) charset += '0123456789';
-    if (options.includeSpecialChars) charset += '!@#$%^&*()_+-=[]{}|;:,.<>?';
+  private static characterClasses(options: RandomPasswordOptions): string[] {
+    // Custom symbols are de-duplicated and kept disjoint from letters and digits
+    const symbols = Array.from(new Set((options.customSymbols ?? '').replace(/[\sA-Za-z0-9]/g, ''))).join('');
+
+    const classes: string[] = [];
+    if (options.includeLowercase) classes.push(this.withoutLookAlikes('abcdefghijklmnopqrstuvwxyz', options));
+    if (options.includeUppercase) classes.push(this.withoutLookAlikes('ABCDEFGHIJKLMNOPQRSTUVWXYZ', options));
+    if (options.includeNumbers) classes.push(this.withoutLookAlikes('0123456789', options));
+    if (options.includeSpecialChars) classes.push(symbols || this.DEFAULT_SYMBOLS);
+    return classes;
+  }
+
+  // Resolves the sets to draw from. A site policy with character rules
+  // replaces the selected classes; its length limits clamp the length.
+  private static randomPasswordSets(
+    options: RandomPasswordOptions,
+    policy?: PasswordPolicy
+  ): { required: string[]; charset: string; length: number } {
+    let required = this.characterClasses(options);
+    let charset = required.join('');
+    let length = options.length;
+
+    if (policy) {
+      if (policy.required.length > 0 || policy.allowed) {
+        // Never filter a set away entirely; the site may only accept look-alikes
+        required = policy.required.map(set => this.withoutLookAlikes(set, options) || set);
+        charset = this.withoutLookAlikes(PasswordRules.getCharset(policy), options) || PasswordRules.getCharset(policy);
+      }
+      length = Math.max(length, policy.minLength ?? 0);
+      length = Math.min(length, policy.maxLength ?? length);
+    }
+
+    return { required, charset, length };
+  }
+
+  private static generateRandomPassword(options: RandomPasswordOptions, policy?: PasswordPolicy): string {
+    const { required, charset, length } = this.randomPasswordSets(options, policy);
 
     if (!charset) return '';
+    if (length < required.length) {
+      throw new Error(`Password length must be at least ${required.length} to include every selected character type`);
+    }
+
+    // Whole candidates are rejected rather than patched, so run limits do
+    // not skew the distribution of the passwords that are accepted
+    for (let attempt = 0; attempt < MAX_GENERATION_ATTEMPTS; attempt++) {
+      // One character from every required set, the rest from the combined set
+      const chars = required.map(set => this.pickChar(set));
+      while (chars.length < length) {
+        chars.push(this.pickChar(charset));
+      }
+
+      // Fisher-Yates so the guaranteed characters are not always up front
+      for (let i = chars.length - 1; i > 0; i--) {
+        const j = this.randomInt(i + 1);
+        [chars[i], chars[j]] = [chars[j], chars[i]];
+      }
+
+      const password = chars.join('');
+      if (policy?.maxConsecutive === undefined || !PasswordRules.hasRunLongerThan(password, policy.maxConsecutive)) {
+        return password;
+      }
+    }
+
+    throw new Error('Could not generate a password that satisfies the password rules');
+  }
+
+  private static generatePassphrase(options: PassphraseOptions): string {
+    if (options.wordCount < 1) return '';
+
+    const words = Array.from({ length: options.wordCount }, () => {
+      const word = EFF_WORDLIST[this.randomInt(EFF_WORDLIST.length)];
+      return options.capitalize ? word.charAt(0).toUpperCase() + word.slice(1) : word;
+    });
+
+    if (options.includeNumber) {
+      const index = this.randomInt(words.length);
+      words[index] += this.randomInt(10).toString();
+    }
+
+    return words.join(options.separator);
+  }
+
+  // A policy shapes random passwords only; passphrases are checked against
+  // it by the caller with PasswordRules.validate
+  static generatePassword(options: PasswordGeneratorOptions, policy?: PasswordPolicy): string {
+    return options.mode === 'passphrase'
+      ? this.generatePassphrase(options)
+      : this.generateRandomPassword(options, policy);
+  }
 
-    let password = '';
-    for (let i = 0; i < options.length; i++) {
-      password += charset.charAt(Math.floor(Math.random() * charset.length));
+  // Entropy of the generator itself, not of a particular output: separators
+  // and capitalisation are fixed choices and add nothing
+  static getGeneratorEntropyBits(options: PasswordGeneratorOptions, policy?: PasswordPolicy): number {
+    if (options.mode === 'passphrase') {
+      if (options.wordCount < 1) return 0;
+      const wordBits = options.wordCount * Math.log2(EFF_WORDLIST.length);
+      return wordBits + (options.includeNumber ? Math.log2(10 * options.wordCount) : 0);
     }
 
-    return password;
+    const { charset, length } = this.randomPasswordSets(options, policy);
+    return charset.length > 0 ? length * Math.log2(charset.length) : 0;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,71 @@
+import { cryptoOperations, CryptoOperation, CryptoOperations, CryptoWorkerRequest, CryptoWorkerResponse } from '../workers/cryptoOperations';
+
+type OperationResult<T extends CryptoOperation> = Awaited<ReturnType<CryptoOperations[T]>>;
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+// Runs CryptoUtils work in a dedicated worker so key derivation and bulk
+// decryption never block rendering. Requests are matched to responses by id;
+// environments without Worker support fall back to the main thread.
+export class CryptoWorker {
+  private static worker: Worker | null = null;
+  private static nextRequestId = 0;
+  private static pending = new Map<number, PendingRequest>();
+
+  private static getWorker(): Worker | null {
+    if (typeof Worker === 'undefined') return null;
+    if (this.worker) return this.worker;
+
+    const worker = new Worker(new URL('../workers/crypto.worker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<CryptoWorkerResponse>) => {
+      const response = event.data;
+      const request = this.pending.get(response.id);
+      if (!request) return;
+
+      this.pending.delete(response.id);
+      if ('error' in response) {
+        request.reject(new Error(response.error));
+      } else {
+        request.resolve(response.result);
+      }
+    };
+
+    worker.onerror = (event) => {
+      console.error('CryptoWorker: Worker error:', event.message);
+      this.terminate(new Error(`Crypto worker failed: ${event.message}`));
+    };
+
+    this.worker = worker;
+    return worker;
+  }
+
+  static run<T extends CryptoOperation>(
+    operation: T,
+    ...args: Parameters<CryptoOperations[T]>
+  ): Promise<OperationResult<T>> {
+    const worker = this.getWorker();
+    if (!worker) {
+      const runLocally = cryptoOperations[operation] as (...operationArgs: unknown[]) => Promise<OperationResult<T>>;
+      return runLocally(...args);
+    }
+
+    const id = ++this.nextRequestId;
+    return new Promise<OperationResult<T>>((resolve, reject) => {
+      this.pending.set(id, { resolve: result => resolve(result as OperationResult<T>), reject });
+      const request: CryptoWorkerRequest = { id, operation, args };
+      worker.postMessage(request);
+    });
+  }
+
+  // Stops the worker and fails anything still in flight; the next call starts a new one
+  static terminate(reason: Error = new Error('Crypto worker terminated')): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.pending.forEach(request => request.reject(reason));
+    this.pending.clear();
+  }
+}
@@ -0,0 +1,34 @@
+import { CustomField, CustomFieldType } from '../types';
+
+export const CUSTOM_FIELD_TYPES: { type: CustomFieldType; label: string }[] = [
+  { type: 'text', label: 'Text' },
+  { type: 'hidden', label: 'Hidden' },
+  { type: 'boolean', label: 'Yes / No' },
+  { type: 'date', label: 'Date' },
+  { type: 'url', label: 'URL' }
+];
+
+// Helpers for the user-defined fields stored in an item's encrypted payload
+export class CustomFields {
+  static create(type: CustomFieldType = 'text'): CustomField {
+    return { id: crypto.randomUUID(), name: '', type, value: type === 'boolean' ? 'false' : '' };
+  }
+
+  // Hidden fields are masked until revealed, like a password
+  static isSecret(field: CustomField): boolean {
+    return field.type === 'hidden';
+  }
+
+  static formatValue(field: CustomField): string {
+    if (field.type === 'boolean') return field.value === 'true' ? 'Yes' : 'No';
+    return field.value;
+  }
+
+  // Drops rows left without a name and trims names, keeping the order.
+  // Rows that lost their id in a form get a new one.
+  static normalize(fields: CustomField[]): CustomField[] {
+    return fields
+      .filter(field => field.name.trim())
+      .map(field => ({ ...field, id: field.id || crypto.randomUUID(), name: field.name.trim() }));
+  }
+}
@@ -1,30 +1,170 @@
 import { supabase } from './supabase';
 import { CryptoUtils } from './crypto';
-import { Credential, EncryptedCredential } from '../types';
+import { CryptoWorker } from './cryptoWorker';
+import { RecoveryShares } from './recoveryShares';
+import { AttachmentStorage } from './attachments';
+import {
+  Collection,
+  Credential,
+  CredentialShare,
+  EmergencyAccess,
+  EncryptedCredential,
+  Folder,
+  GeneratorHistoryEntry,
+  KdfParams,
+  MonoKeyLockout,
+  Organization,
+  OrganizationMember,
+  OrganizationRole,
+  SecurityEvent,
+  SharedCredential
+} from '../types';
+
+// Rows sent to the crypto worker per message while loading the vault
+const DECRYPT_BATCH_SIZE = 25;
+
+// Most recent generated values kept in the encrypted generator history
+const GENERATOR_HISTORY_LIMIT = 50;
+
+// Number of entries shown in the Settings security log
+const SECURITY_LOG_LIMIT = 50;
+
+// Name of the collection every new organization starts with
+const DEFAULT_COLLECTION_NAME = 'Default';
+
+// The server reports the remaining wait rather than a timestamp, so a skewed
+// client clock cannot shorten or stretch the lockout
+const toMonoKeyLockout = (state: { failed_attempts: number; retry_after_seconds: number }): MonoKeyLockout => ({
+  failedAttempts: state.failed_attempts,
+  lockedUntil: state.retry_after_seconds > 0 ? Date.now() + state.retry_after_seconds * 1000 : null
+});
+
+type CredentialRow = {
+  id: string;
+  account_name: string | null;
+  icon: string | null;
+  collection_id?: string | null;
+  folder_id?: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+// Decrypted encrypted_data of a credential row. Older rows may lack any field.
+type CredentialPayload = Partial<Omit<Credential, 'id' | 'createdAt' | 'updatedAt'>>;
+
+type EmergencyAccessRow = {
+  id: string;
+  grantor_id: string;
+  grantor_email: string;
+  grantee_id: string | null;
+  grantee_email: string;
+  wait_days: number;
+  status: EmergencyAccess['status'];
+  recovery_initiated_at: string | null;
+  created_at: string;
+};
+
+type OrganizationMemberRow = {
+  id: string;
+  organization_id: string;
+  user_id: string;
+  email: string;
+  role: OrganizationRole;
+  created_at: string;
+};
+
+const toOrganizationMember = (row: OrganizationMemberRow): OrganizationMember => ({
+  id: row.id,
+  organizationId: row.organization_id,
+  userId: row.user_id,
+  email: row.email,
+  role: row.role,
+  createdAt: row.created_at
+});
+
+const toEmergencyAccess = (row: EmergencyAccessRow): EmergencyAccess => ({
+  id: row.id,
+  grantorId: row.grantor_id,
+  grantorEmail: row.grantor_email,
+  granteeId: row.grantee_id ?? undefined,
+  granteeEmail: row.grantee_email,
+  waitDays: row.wait_days,
+  status: row.status,
+  recoveryInitiatedAt: row.recovery_initiated_at ?? undefined,
+  createdAt: row.created_at
+});
 
 export class DatabaseService {
-  static async saveCredential(credential: Omit<Credential, 'id' | 'createdAt' | 'updatedAt'>, monoKey: string): Promise<{ id: string; createdAt: string; updatedAt: string }> {
+  // Rows from before metadata encryption keep the name and icon in plaintext columns
+  private static toCredential(row: CredentialRow, sensitiveData: CredentialPayload): Credential {
+    return {
+      id: row.id,
+      type: sensitiveData.type ?? 'login',
+      accountName: sensitiveData.accountName ?? row.account_name ?? '',
+      username: sensitiveData.username ?? '',
+      password: sensitiveData.password ?? '',
+      recoveryEmail: sensitiveData.recoveryEmail,
+      recoveryMobile: sensitiveData.recoveryMobile,
+      twoFactorCodes: sensitiveData.twoFactorCodes,
+      passwordRules: sensitiveData.passwordRules,
+      notes: sensitiveData.notes,
+      card: sensitiveData.card,
+      identity: sensitiveData.identity,
+      wifi: sensitiveData.wifi,
+      apiToken: sensitiveData.apiToken,
+      customFields: sensitiveData.customFields,
+      attachments: sensitiveData.attachments,
+      uris: sensitiveData.uris,
+      icon: sensitiveData.icon ?? row.icon ?? undefined,
+      tags: sensitiveData.tags,
+      favorite: sensitiveData.favorite,
+      collectionId: row.collection_id ?? undefined,
+      folderId: row.folder_id ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  static async saveCredential(credential: Omit<Credential, 'id' | 'createdAt' | 'updatedAt'>, vaultKey: CryptoKey): Promise<{ id: string; createdAt: string; updatedAt: string }> {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) throw new Error('User not authenticated');
 
-    // Encrypt the credential data
+    // Encrypt the credential data, including the account name and icon so the
+    // server cannot tell which services a user has accounts with
     const sensitiveData = {
+      type: credential.type ?? 'login',
+      accountName: credential.accountName,
+      icon: credential.icon || '🔐',
       username: credential.username,
       password: credential.password,
       recoveryEmail: credential.recoveryEmail,
       recoveryMobile: credential.recoveryMobile,
-      twoFactorCodes: credential.twoFactorCodes
+      twoFactorCodes: credential.twoFactorCodes,
+      passwordRules: credential.passwordRules,
+      notes: credential.notes,
+      card: credential.card,
+      identity: credential.identity,
+      wifi: credential.wifi,
+      apiToken: credential.apiToken,
+      customFields: credential.customFields,
+      attachments: credential.attachments,
+      uris: credential.uris,
+      tags: credential.tags,
+      favorite: credential.favorite
     };
 
-    const encryptedData = CryptoUtils.encrypt(JSON.stringify(sensitiveData), monoKey);
+    // Organization items are encrypted with their collection's key
+    const key = credential.collectionId ? await this.getCollectionKey(credential.collectionId, vaultKey) : vaultKey;
+    const encryptedData = await CryptoWorker.run('encrypt', JSON.stringify(sensitiveData), key);
 
     const { data, error } = await supabase
       .from('credentials')
       .insert({
         user_id: user.id,
-        account_name: credential.accountName,
         encrypted_data: encryptedData,
-        icon: credential.icon || '🔐'
+        collection_id: credential.collectionId ?? null,
+        // Folders belong to the personal vault
+        folder_id: credential.collectionId ? null : credential.folderId ?? null
       })
       .select('id, created_at, updated_at')
       .single();
@@ -41,7 +181,12 @@ export class DatabaseService {
     };
   }
 
-  static async getCredentials(monoKey: string): Promise<Credential[]> {
+  // Decrypts in batches on the crypto worker. onProgress receives each batch
+  // in list order as soon as it is ready, so callers can render progressively.
+  static async getCredentials(
+    vaultKey: CryptoKey,
+    onProgress?: (batch: Credential[], processed: number, total: number) => void
+  ): Promise<Credential[]> {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) throw new Error('User not authenticated');
 
@@ -49,6 +194,7 @@ export class DatabaseService {
       .from('credentials')
       .select('*')
       .eq('user_id', user.id)
+      .is('collection_id', null)
       .order('created_at', { ascending: false });
 
     if (error) {
@@ -56,44 +202,92 @@ export class DatabaseService {
       throw new Error(`Failed to load credentials: ${error.message}`);
     }
 
-    // Decrypt credentials
+    const rows = encryptedCredentials || [];
     const credentials: Credential[] = [];
-    for (const encCred of encryptedCredentials || []) {
+    const plaintextMetadataRows: { row: (typeof rows)[number]; sensitiveData: Record<string, unknown> }[] = [];
+    onProgress?.([], 0, rows.length);
+
+    for (let start = 0; start < rows.length; start += DECRYPT_BATCH_SIZE) {
+      const batchRows = rows.slice(start, start + DECRYPT_BATCH_SIZE);
+      const results = await CryptoWorker.run(
+        'decryptMany',
+        batchRows.map(row => ({ encryptedData: row.encrypted_data, encryptedItemKey: row.encrypted_item_key })),
+        vaultKey
+      );
+
+      const batch: Credential[] = [];
+      batchRows.forEach((encCred, index) => {
+        const result = results[index];
+        try {
+          if ('error' in result) throw new Error(result.error);
+          const sensitiveData: CredentialPayload = JSON.parse(result.plaintext);
+          // Shared rows were cleared when they got an item key
+          if (!encCred.encrypted_item_key && (encCred.account_name !== null || encCred.icon !== null)) {
+            plaintextMetadataRows.push({ row: encCred, sensitiveData });
+          }
+
+          batch.push(this.toCredential(encCred, sensitiveData));
+        } catch (error) {
+          console.error('DatabaseService: Failed to decrypt credential:', encCred.id, error);
+          // Skip corrupted credentials
+        }
+      });
+
+      credentials.push(...batch);
+      onProgress?.(batch, start + batchRows.length, rows.length);
+    }
+
+    if (plaintextMetadataRows.length > 0) {
+      await this.encryptPlaintextMetadata(plaintextMetadataRows, vaultKey);
+    }
+
+    return credentials;
+  }
+
+  // One-time move of account_name and icon from plaintext columns into the
+  // encrypted payload. Each row is updated only if it has not changed since
+  // it was read; a skipped row is simply picked up on the next load.
+  private static async encryptPlaintextMetadata(
+    rows: { row: { id: string; account_name: string | null; icon: string | null; updated_at: string }; sensitiveData: Record<string, unknown> }[],
+    vaultKey: CryptoKey
+  ): Promise<void> {
+    console.log('DatabaseService: Encrypting plaintext metadata for', rows.length, 'credentials...');
+
+    for (const { row, sensitiveData } of rows) {
       try {
-        const decryptedData = CryptoUtils.decrypt(encCred.encrypted_data, monoKey);
-        const sensitiveData = JSON.parse(decryptedData);
+        const payload = {
+          ...sensitiveData,
+          accountName: sensitiveData.accountName ?? row.account_name,
+          icon: sensitiveData.icon ?? row.icon ?? '🔐'
+        };
 
-        credentials.push({
-          id: encCred.id,
-          accountName: encCred.account_name,
-          username: sensitiveData.username,
-          password: sensitiveData.password,
-          recoveryEmail: sensitiveData.recoveryEmail,
-          recoveryMobile: sensitiveData.recoveryMobile,
-          twoFactorCodes: sensitiveData.twoFactorCodes,
-          icon: encCred.icon,
-          createdAt: encCred.created_at,
-          updatedAt: encCred.updated_at
-        });
+        const { error } = await supabase
+          .from('credentials')
+          .update({
+            encrypted_data: await CryptoWorker.run('encrypt', JSON.stringify(payload), vaultKey),
+            account_name: null,
+            icon: null
+          })
+          .eq('id', row.id)
+          .eq('updated_at', row.updated_at);
+
+        if (error) throw error;
       } catch (error) {
-        console.error('DatabaseService: Failed to decrypt credential:', encCred.id, error);
-        // Skip corrupted credentials
+        console.error('DatabaseService: Failed to encrypt metadata for credential:', row.id, error);
       }
     }
-
-    return credentials;
   }
 
-  static async updateCredential(id: string, credential: Partial<Credential>, monoKey: string): Promise<void> {
+  static async updateCredential(id: string, credential: Partial<Credential>, vaultKey: CryptoKey): Promise<void> {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) throw new Error('User not authenticated');
 
-    // Get current credential to merge with updates
+    // Get current credential to merge with updates. Row-level security limits
+    // this to the owner or, for organization items, members who can edit.
     const { data: currentCred, error: fetchError } = await supabase
       .from('credentials')
       .select('*')
       .eq('id', id)
-      .eq('user_id', user.id)
       .single();
 
     if (fetchError) {
@@ -101,29 +295,25 @@ export class DatabaseService {
       throw new Error(`Failed to fetch credential: ${fetchError.message}`);
     }
 
-    // Decrypt current data
-    const currentDecrypted = JSON.parse(CryptoUtils.decrypt(currentCred.encrypted_data, monoKey));
-
-    // Merge with updates
-    const updatedData = {
-      username: credential.username !== undefined ? credential.username : currentDecrypted.username,
-      password: credential.password !== undefined ? credential.password : currentDecrypted.password,
-      recoveryEmail: credential.recoveryEmail !== undefined ? credential.recoveryEmail : currentDecrypted.recoveryEmail,
-      recoveryMobile: credential.recoveryMobile !== undefined ? credential.recoveryMobile : currentDecrypted.recoveryMobile,
-      twoFactorCodes: credential.twoFactorCodes !== undefined ? credential.twoFactorCodes : currentDecrypted.twoFactorCodes
-    };
+    // Organization items use their collection key; shared credentials their own item key
+    const key = currentCred.collection_id
+      ? await this.getCollectionKey(currentCred.collection_id, vaultKey)
+      : currentCred.encrypted_item_key
+        ? await CryptoWorker.run('unwrapItemKey', currentCred.encrypted_item_key, vaultKey)
+        : vaultKey;
 
-    const encryptedData = CryptoUtils.encrypt(JSON.stringify(updatedData), monoKey);
+    // Decrypt current data (any envelope version; it is re-saved in the current one)
+    const currentDecrypted = JSON.parse(await CryptoWorker.run('decrypt', currentCred.encrypted_data, key));
+    const updatedData = this.mergeCredentialData(currentCred, currentDecrypted, credential);
 
-    const updateFields: any = { encrypted_data: encryptedData };
-    if (credential.accountName !== undefined) updateFields.account_name = credential.accountName;
-    if (credential.icon !== undefined) updateFields.icon = credential.icon;
+    const encryptedData = await CryptoWorker.run('encrypt', JSON.stringify(updatedData), key);
 
+    // Clearing the plaintext columns also migrates rows written before
+    // account names and icons were encrypted
     const { error } = await supabase
       .from('credentials')
-      .update(updateFields)
-      .eq('id', id)
-      .eq('user_id', user.id);
+      .update({ encrypted_data: encryptedData, account_name: null, icon: null })
+      .eq('id', id);
 
     if (error) {
       console.error('DatabaseService: Update credential error:', error);
@@ -131,15 +321,44 @@ export class DatabaseService {
     }
   }
 
+  private static mergeCredentialData(
+    row: CredentialRow,
+    current: Partial<Credential>,
+    credential: Partial<Credential>
+  ): Record<string, unknown> {
+    return {
+      type: credential.type !== undefined ? credential.type : current.type ?? 'login',
+      accountName: credential.accountName !== undefined ? credential.accountName : current.accountName ?? row.account_name,
+      icon: credential.icon !== undefined ? credential.icon : current.icon ?? row.icon ?? '🔐',
+      username: credential.username !== undefined ? credential.username : current.username,
+      password: credential.password !== undefined ? credential.password : current.password,
+      recoveryEmail: credential.recoveryEmail !== undefined ? credential.recoveryEmail : current.recoveryEmail,
+      recoveryMobile: credential.recoveryMobile !== undefined ? credential.recoveryMobile : current.recoveryMobile,
+      twoFactorCodes: credential.twoFactorCodes !== undefined ? credential.twoFactorCodes : current.twoFactorCodes,
+      passwordRules: credential.passwordRules !== undefined ? credential.passwordRules : current.passwordRules,
+      notes: credential.notes !== undefined ? credential.notes : current.notes,
+      card: credential.card !== undefined ? credential.card : current.card,
+      identity: credential.identity !== undefined ? credential.identity : current.identity,
+      wifi: credential.wifi !== undefined ? credential.wifi : current.wifi,
+      apiToken: credential.apiToken !== undefined ? credential.apiToken : current.apiToken,
+      customFields: credential.customFields !== undefined ? credential.customFields : current.customFields,
+      attachments: credential.attachments !== undefined ? credential.attachments : current.attachments,
+      uris: credential.uris !== undefined ? credential.uris : current.uris,
+      tags: credential.tags !== undefined ? credential.tags : current.tags,
+      favorite: credential.favorite !== undefined ? credential.favorite : current.favorite
+    };
+  }
+
   static async deleteCredential(id: string): Promise<void> {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) throw new Error('User not authenticated');
 
+    await AttachmentStorage.removeForCredentials([id]);
+
     const { error } = await supabase
       .from('credentials')
       .delete()
-      .eq('id', id)
-      .eq('user_id', user.id);
+      .eq('id', id);
 
     if (error) {
       console.error('DatabaseService: Delete credential error:', error);
@@ -171,19 +390,1404 @@ export class DatabaseService {
     }
   }
 
-  static async updateMonoPasswordHash(monoKeyHash: string): Promise<void> {
+  // Creates the vault key for a user setting up their first MonoKey, along
+  // with the recovery key the user is shown once
+  static async initializeVault(
+    monoKey: string,
+    kdfParams: KdfParams
+  ): Promise<{ monoKeyHash: string; vaultKey: CryptoKey; recoveryKey: string }> {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) throw new Error('User not authenticated');
 
+    const vaultKey = await CryptoUtils.generateVaultKey();
+    const monoKeyHash = await CryptoWorker.run('createMonoKeyVerifier', monoKey, kdfParams);
+    const recoveryKey = CryptoUtils.generateRecoveryKey();
+
     const { error } = await supabase
       .from('user_profiles')
-      .update({ mono_password_hash: monoKeyHash })
+      .update({
+        mono_password_hash: monoKeyHash,
+        wrapped_vault_key: await CryptoWorker.run('wrapVaultKey', vaultKey, monoKey, kdfParams),
+        kdf_params: kdfParams,
+        recovery_wrapped_vault_key: await CryptoWorker.run('wrapVaultKeyWithRecoveryKey', vaultKey, recoveryKey),
+        recovery_key_created_at: new Date().toISOString()
+      })
       .eq('id', user.id);
 
     if (error) {
-      console.error('DatabaseService: Update mono password hash error:', error);
+      console.error('DatabaseService: Initialize vault error:', error);
+      throw new Error(`Failed to set up MonoKey: ${error.message}`);
+    }
+
+    return { monoKeyHash, vaultKey, recoveryKey };
+  }
+
+  // Issues a new recovery key; the previous one stops working
+  static async createRecoveryKey(vaultKey: CryptoKey): Promise<string> {
+    const recoveryKey = CryptoUtils.generateRecoveryKey();
+
+    const { error } = await supabase.rpc('set_recovery_key', {
+      new_recovery_wrapped_vault_key: await CryptoWorker.run('wrapVaultKeyWithRecoveryKey', vaultKey, recoveryKey),
+      client_user_agent: navigator.userAgent
+    });
+
+    if (error) {
+      console.error('DatabaseService: Create recovery key error:', error);
+      throw new Error(`Failed to create recovery key: ${error.message}`);
+    }
+
+    return recoveryKey;
+  }
+
+  // Replaces the recovery key with a fresh one that only exists as shares;
+  // any `threshold` of the returned shares can rebuild it
+  static async createRecoveryShares(vaultKey: CryptoKey, shareCount: number, threshold: number): Promise<string[]> {
+    const recoveryKey = CryptoUtils.generateRecoveryKey();
+    const shares = RecoveryShares.split(recoveryKey, shareCount, threshold);
+
+    const { error } = await supabase.rpc('set_recovery_shares', {
+      new_recovery_wrapped_vault_key: await CryptoWorker.run('wrapVaultKeyWithRecoveryKey', vaultKey, recoveryKey),
+      share_threshold: threshold,
+      share_count: shareCount,
+      client_user_agent: navigator.userAgent
+    });
+
+    if (error) {
+      console.error('DatabaseService: Create recovery shares error:', error);
+      throw new Error(`Failed to create recovery shares: ${error.message}`);
+    }
+
+    return shares;
+  }
+
+  // Removes the recovery wrap, so neither a recovery key nor shares work
+  static async revokeRecovery(): Promise<void> {
+    const { error } = await supabase.rpc('revoke_recovery', {
+      client_user_agent: navigator.userAgent
+    });
+
+    if (error) {
+      console.error('DatabaseService: Revoke recovery error:', error);
+      throw new Error(`Failed to revoke recovery: ${error.message}`);
+    }
+  }
+
+  static async unlockWithRecoveryKey(recoveryKey: string): Promise<CryptoKey> {
+    const profile = await this.getUserProfile();
+    if (!profile.recovery_wrapped_vault_key) {
+      throw new Error('No recovery key is set up for this account');
+    }
+
+    return CryptoWorker.run('unwrapVaultKeyWithRecoveryKey', profile.recovery_wrapped_vault_key, recoveryKey);
+  }
+
+  // Sets a new MonoKey for a vault opened with the recovery key. The recovery
+  // key has now been typed in somewhere, so a fresh one replaces it.
+  static async resetMonoKeyWithRecoveryKey(
+    vaultKey: CryptoKey,
+    newMonoKey: string,
+    kdfParams: KdfParams
+  ): Promise<{ monoKeyHash: string; recoveryKey: string }> {
+    const monoKeyHash = await CryptoWorker.run('createMonoKeyVerifier', newMonoKey, kdfParams);
+    const recoveryKey = CryptoUtils.generateRecoveryKey();
+
+    const { error } = await supabase.rpc('recover_mono_key', {
+      new_mono_password_hash: monoKeyHash,
+      new_wrapped_vault_key: await CryptoWorker.run('wrapVaultKey', vaultKey, newMonoKey, kdfParams),
+      new_kdf_params: kdfParams,
+      new_recovery_wrapped_vault_key: await CryptoWorker.run('wrapVaultKeyWithRecoveryKey', vaultKey, recoveryKey),
+      client_user_agent: navigator.userAgent
+    });
+
+    if (error) {
+      console.error('DatabaseService: Recover MonoKey error:', error);
+      throw new Error(`Failed to reset MonoKey: ${error.message}`);
+    }
+
+    return { monoKeyHash, recoveryKey };
+  }
+
+  // Re-derives the verifier and re-wraps the vault key with new KDF parameters
+  static async updateKdfParams(monoKey: string, kdfParams: KdfParams): Promise<string> {
+    const profile = await this.getUserProfile();
+    if (!profile.wrapped_vault_key) {
+      throw new Error('Unlock your vault once before changing key derivation settings');
+    }
+
+    const vaultKey = await CryptoWorker.run('unwrapVaultKey', profile.wrapped_vault_key, monoKey);
+    const monoKeyHash = await CryptoWorker.run('createMonoKeyVerifier', monoKey, kdfParams);
+
+    const { error } = await supabase
+      .from('user_profiles')
+      .update({
+        mono_password_hash: monoKeyHash,
+        wrapped_vault_key: await CryptoWorker.run('wrapVaultKey', vaultKey, monoKey, kdfParams),
+        kdf_params: kdfParams
+      })
+      .eq('id', profile.id);
+
+    if (error) {
+      console.error('DatabaseService: Update KDF params error:', error);
+      throw new Error(`Failed to update key derivation: ${error.message}`);
+    }
+
+    return monoKeyHash;
+  }
+
+  // Replaces a verifier that does not match the user's KDF parameters (legacy
+  // SHA-256, or PBKDF2 from before Argon2id) after a successful unlock. Users
+  // without stored parameters are calibrated for this device first. The vault
+  // key is re-wrapped too, since it would otherwise stay cheaper to
+  // brute-force than the verifier it sits next to.
+  static async upgradeMonoKeyVerifier(monoKey: string): Promise<{ monoKeyHash: string; kdfParams: KdfParams }> {
+    const profile = await this.getUserProfile();
+    const kdfParams: KdfParams = profile.kdf_params ?? await CryptoWorker.run('calibrateKdf');
+    const monoKeyHash = await CryptoWorker.run('createMonoKeyVerifier', monoKey, kdfParams);
+
+    const updateFields: { mono_password_hash: string; kdf_params: KdfParams; wrapped_vault_key?: string } = {
+      mono_password_hash: monoKeyHash,
+      kdf_params: kdfParams
+    };
+    if (profile.wrapped_vault_key) {
+      const vaultKey = await CryptoWorker.run('unwrapVaultKey', profile.wrapped_vault_key, monoKey);
+      updateFields.wrapped_vault_key = await CryptoWorker.run('wrapVaultKey', vaultKey, monoKey, kdfParams);
+    }
+
+    const { error } = await supabase
+      .from('user_profiles')
+      .update(updateFields)
+      .eq('id', profile.id);
+
+    if (error) {
+      console.error('DatabaseService: Upgrade MonoKey verifier error:', error);
+      throw new Error(`Failed to upgrade MonoKey verifier: ${error.message}`);
+    }
+
+    return { monoKeyHash, kdfParams };
+  }
+
+  // Returns the vault key, migrating legacy MonoKey-encrypted vaults on first unlock
+  static async unlockVault(monoKey: string): Promise<CryptoKey> {
+    const profile = await this.getUserProfile();
+
+    if (profile.wrapped_vault_key) {
+      return CryptoWorker.run('unwrapVaultKey', profile.wrapped_vault_key, monoKey);
+    }
+
+    console.log('DatabaseService: Migrating vault to vault key...');
+    return this.reencryptLegacyVault(
+      monoKey,
+      monoKey,
+      profile.mono_password_hash,
+      profile.kdf_params ?? CryptoUtils.DEFAULT_KDF_PARAMS
+    );
+  }
+
+  static async rotateMonoKey(
+    currentMonoKey: string,
+    newMonoKey: string,
+    onProgress?: (completed: number, total: number) => void
+  ): Promise<string> {
+    const profile = await this.getUserProfile();
+    const kdfParams: KdfParams = profile.kdf_params ?? CryptoUtils.DEFAULT_KDF_PARAMS;
+    const newMonoKeyHash = await CryptoWorker.run('createMonoKeyVerifier', newMonoKey, kdfParams);
+
+    if (!profile.wrapped_vault_key) {
+      await this.reencryptLegacyVault(currentMonoKey, newMonoKey, newMonoKeyHash, kdfParams, onProgress);
+      return newMonoKeyHash;
+    }
+
+    // Only the vault key is re-wrapped; credentials stay untouched
+    const vaultKey = await CryptoWorker.run('unwrapVaultKey', profile.wrapped_vault_key, currentMonoKey);
+
+    const { error } = await supabase
+      .from('user_profiles')
+      .update({
+        mono_password_hash: newMonoKeyHash,
+        wrapped_vault_key: await CryptoWorker.run('wrapVaultKey', vaultKey, newMonoKey, kdfParams)
+      })
+      .eq('id', profile.id);
+
+    if (error) {
+      console.error('DatabaseService: Rotate MonoKey error:', error);
       throw new Error(`Failed to update MonoKey: ${error.message}`);
     }
+
+    return newMonoKeyHash;
+  }
+
+  // Moves every salt:iv:ciphertext record under a fresh vault key wrapped by
+  // newMonoKey. All rows are prepared locally and committed in one transaction,
+  // so closing the tab midway leaves the legacy vault intact.
+  private static async reencryptLegacyVault(
+    currentMonoKey: string,
+    newMonoKey: string,
+    newMonoKeyHash: string,
+    kdfParams: KdfParams,
+    onProgress?: (completed: number, total: number) => void
+  ): Promise<CryptoKey> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data: encryptedCredentials, error: fetchError } = await supabase
+      .from('credentials')
+      .select('id, account_name, icon, encrypted_data, updated_at')
+      .eq('user_id', user.id);
+
+    if (fetchError) {
+      console.error('DatabaseService: Fetch credentials for re-encryption error:', fetchError);
+      throw new Error(`Failed to load credentials: ${fetchError.message}`);
+    }
+
+    const rows = encryptedCredentials || [];
+    const vaultKey = await CryptoUtils.generateVaultKey();
+    onProgress?.(0, rows.length);
+
+    const reencrypted = [];
+    for (const row of rows) {
+      const sensitiveData = JSON.parse(await CryptoWorker.run('decryptWithPassword', row.encrypted_data, currentMonoKey));
+      // reencrypt_vault clears the plaintext name and icon columns
+      const payload = {
+        ...sensitiveData,
+        accountName: sensitiveData.accountName ?? row.account_name,
+        icon: sensitiveData.icon ?? row.icon ?? '🔐'
+      };
+      reencrypted.push({
+        id: row.id,
+        encrypted_data: await CryptoWorker.run('encrypt', JSON.stringify(payload), vaultKey),
+        updated_at: row.updated_at
+      });
+      onProgress?.(reencrypted.length, rows.length);
+    }
+
+    const { error } = await supabase.rpc('reencrypt_vault', {
+      new_mono_password_hash: newMonoKeyHash,
+      new_wrapped_vault_key: await CryptoWorker.run('wrapVaultKey', vaultKey, newMonoKey, kdfParams),
+      reencrypted_credentials: reencrypted
+    });
+
+    if (error) {
+      console.error('DatabaseService: Re-encrypt vault error:', error);
+      throw new Error(`Failed to re-encrypt vault: ${error.message}`);
+    }
+
+    return vaultKey;
+  }
+
+  static async getGeneratorHistory(vaultKey: CryptoKey): Promise<GeneratorHistoryEntry[]> {
+    const profile = await this.getUserProfile();
+    if (!profile.generator_history) return [];
+
+    return JSON.parse(await CryptoWorker.run('decrypt', profile.generator_history, vaultKey));
+  }
+
+  // Adds a value to the front of the history, dropping an older copy of the
+  // same value and anything past the size cap
+  static async addGeneratorHistoryEntry(
+    entry: Omit<GeneratorHistoryEntry, 'id' | 'createdAt'>,
+    vaultKey: CryptoKey
+  ): Promise<GeneratorHistoryEntry[]> {
+    const history = await this.getGeneratorHistory(vaultKey);
+    const updated = [
+      { ...entry, id: crypto.randomUUID(), createdAt: new Date().toISOString() },
+      ...history.filter(existing => existing.value !== entry.value)
+    ].slice(0, GENERATOR_HISTORY_LIMIT);
+
+    await this.saveGeneratorHistory(updated, vaultKey);
+    return updated;
+  }
+
+  static async removeGeneratorHistoryEntry(id: string, vaultKey: CryptoKey): Promise<GeneratorHistoryEntry[]> {
+    const history = await this.getGeneratorHistory(vaultKey);
+    const updated = history.filter(entry => entry.id !== id);
+
+    await this.saveGeneratorHistory(updated, vaultKey);
+    return updated;
+  }
+
+  static async clearGeneratorHistory(): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { error } = await supabase
+      .from('user_profiles')
+      .update({ generator_history: null })
+      .eq('id', user.id);
+
+    if (error) {
+      console.error('DatabaseService: Clear generator history error:', error);
+      throw new Error(`Failed to clear generator history: ${error.message}`);
+    }
+  }
+
+  private static async saveGeneratorHistory(history: GeneratorHistoryEntry[], vaultKey: CryptoKey): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { error } = await supabase
+      .from('user_profiles')
+      .update({
+        generator_history: history.length > 0
+          ? await CryptoWorker.run('encrypt', JSON.stringify(history), vaultKey)
+          : null
+      })
+      .eq('id', user.id);
+
+    if (error) {
+      console.error('DatabaseService: Save generator history error:', error);
+      throw new Error(`Failed to save generator history: ${error.message}`);
+    }
+  }
+
+  // Creates the user's keypair the first time their vault is unlocked
+  static async ensureKeyPair(vaultKey: CryptoKey): Promise<void> {
+    const profile = await this.getUserProfile();
+    if (profile.public_key) return;
+
+    console.log('DatabaseService: Generating keypair...');
+    const { publicKey, encryptedPrivateKey } = await CryptoWorker.run('generateKeyPair', vaultKey);
+
+    // Another tab may have created one in the meantime; keep whichever landed first
+    const { error } = await supabase
+      .from('user_profiles')
+      .update({ public_key: publicKey, encrypted_private_key: encryptedPrivateKey })
+      .eq('id', profile.id)
+      .is('public_key', null);
+
+    if (error) {
+      console.error('DatabaseService: Save keypair error:', error);
+      throw new Error(`Failed to create keypair: ${error.message}`);
+    }
+  }
+
+  private static async getPrivateKey(vaultKey: CryptoKey): Promise<CryptoKey> {
+    const profile = await this.getUserProfile();
+    if (!profile.encrypted_private_key) {
+      throw new Error('Your keypair has not been created yet. Unlock your vault and try again.');
+    }
+
+    return CryptoWorker.run('unwrapPrivateKey', profile.encrypted_private_key, vaultKey);
+  }
+
+  static async getPublicKey(userId: string): Promise<string | null> {
+    const { data, error } = await supabase.rpc('get_public_key', { target_user_id: userId });
+
+    if (error) {
+      console.error('DatabaseService: Get public key error:', error);
+      throw new Error(`Failed to fetch public key: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // Both directions: contacts this user added, and users who added this user
+  static async getEmergencyAccess(): Promise<EmergencyAccess[]> {
+    const { data, error } = await supabase
+      .from('emergency_access')
+      .select('id, grantor_id, grantor_email, grantee_id, grantee_email, wait_days, status, recovery_initiated_at, created_at')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('DatabaseService: Get emergency access error:', error);
+      throw new Error(`Failed to load emergency access: ${error.message}`);
+    }
+
+    return (data || []).map(toEmergencyAccess);
+  }
+
+  static async inviteEmergencyContact(email: string, waitDays: number): Promise<void> {
+    const { error } = await supabase.rpc('invite_emergency_contact', {
+      contact_email: email,
+      contact_wait_days: waitDays
+    });
+
+    if (error) {
+      console.error('DatabaseService: Invite emergency contact error:', error);
+      throw new Error(`Failed to add emergency contact: ${error.message}`);
+    }
+  }
+
+  // The owner can only confirm once the contact has a public key
+  static async acceptEmergencyAccess(accessId: string, vaultKey: CryptoKey): Promise<void> {
+    await this.ensureKeyPair(vaultKey);
+
+    const { error } = await supabase.rpc('accept_emergency_access', { access_id: accessId });
+
+    if (error) {
+      console.error('DatabaseService: Accept emergency access error:', error);
+      throw new Error(`Failed to accept emergency access: ${error.message}`);
+    }
+  }
+
+  // Encrypts the vault key to the contact now, so it can be released after
+  // the waiting period without the owner being online
+  static async confirmEmergencyAccess(access: EmergencyAccess, vaultKey: CryptoKey): Promise<void> {
+    const publicKey = access.granteeId ? await this.getPublicKey(access.granteeId) : null;
+    if (!publicKey) {
+      throw new Error('This contact has not accepted yet');
+    }
+
+    const { error } = await supabase.rpc('confirm_emergency_access', {
+      access_id: access.id,
+      contact_encrypted_vault_key: await CryptoWorker.run('encryptKeyForPublicKey', vaultKey, publicKey)
+    });
+
+    if (error) {
+      console.error('DatabaseService: Confirm emergency access error:', error);
+      throw new Error(`Failed to confirm emergency contact: ${error.message}`);
+    }
+  }
+
+  static async requestEmergencyAccess(accessId: string): Promise<void> {
+    const { error } = await supabase.rpc('request_emergency_access', {
+      access_id: accessId,
+      client_user_agent: navigator.userAgent
+    });
+
+    if (error) {
+      console.error('DatabaseService: Request emergency access error:', error);
+      throw new Error(`Failed to request emergency access: ${error.message}`);
+    }
+  }
+
+  static async approveEmergencyAccess(accessId: string): Promise<void> {
+    const { error } = await supabase.rpc('approve_emergency_access', { access_id: accessId });
+
+    if (error) {
+      console.error('DatabaseService: Approve emergency access error:', error);
+      throw new Error(`Failed to approve emergency access: ${error.message}`);
+    }
+  }
+
+  static async denyEmergencyAccess(accessId: string): Promise<void> {
+    const { error } = await supabase.rpc('deny_emergency_access', { access_id: accessId });
+
+    if (error) {
+      console.error('DatabaseService: Deny emergency access error:', error);
+      throw new Error(`Failed to deny emergency access: ${error.message}`);
+    }
+  }
+
+  // Either side can remove the relationship; the encrypted vault key goes with it
+  static async removeEmergencyAccess(accessId: string): Promise<void> {
+    const { error } = await supabase
+      .from('emergency_access')
+      .delete()
+      .eq('id', accessId);
+
+    if (error) {
+      console.error('DatabaseService: Remove emergency access error:', error);
+      throw new Error(`Failed to remove emergency access: ${error.message}`);
+    }
+  }
+
+  // Read-only copy of another user's vault, available once their waiting
+  // period has passed or they approved the request
+  static async getEmergencyVault(access: EmergencyAccess, vaultKey: CryptoKey): Promise<Credential[]> {
+    const { data: encryptedVaultKey, error: keyError } = await supabase.rpc('get_emergency_access_key', {
+      access_id: access.id
+    });
+
+    if (keyError) {
+      console.error('DatabaseService: Get emergency access key error:', keyError);
+      throw new Error(`Failed to open emergency access: ${keyError.message}`);
+    }
+
+    const privateKey = await this.getPrivateKey(vaultKey);
+    const grantorVaultKey = await CryptoWorker.run('decryptKeyWithPrivateKey', encryptedVaultKey, privateKey);
+
+    const { data: rows, error } = await supabase
+      .from('credentials')
+      .select('id, account_name, icon, encrypted_data, encrypted_item_key, created_at, updated_at')
+      .eq('user_id', access.grantorId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('DatabaseService: Get emergency vault error:', error);
+      throw new Error(`Failed to load shared vault: ${error.message}`);
+    }
+
+    const results = await CryptoWorker.run(
+      'decryptMany',
+      (rows || []).map(row => ({ encryptedData: row.encrypted_data, encryptedItemKey: row.encrypted_item_key })),
+      grantorVaultKey
+    );
+    const credentials: Credential[] = [];
+    (rows || []).forEach((row, index) => {
+      const result = results[index];
+      if ('error' in result) {
+        console.error('DatabaseService: Failed to decrypt emergency credential:', row.id, result.error);
+        return;
+      }
+      credentials.push(this.toCredential(row, JSON.parse(result.plaintext)));
+    });
+    return credentials;
+  }
+
+  static async getCredentialShares(credentialId: string): Promise<CredentialShare[]> {
+    const { data, error } = await supabase
+      .from('shared_credentials')
+      .select('id, credential_id, recipient_id, recipient_email, can_edit, created_at')
+      .eq('credential_id', credentialId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('DatabaseService: Get credential shares error:', error);
+      throw new Error(`Failed to load shares: ${error.message}`);
+    }
+
+    return (data || []).map(share => ({
+      id: share.id,
+      credentialId: share.credential_id,
+      recipientId: share.recipient_id,
+      recipientEmail: share.recipient_email,
+      canEdit: share.can_edit,
+      createdAt: share.created_at
+    }));
+  }
+
+  // Returns the credential's item key, first moving it from the vault key to
+  // an item key of its own if it has never been shared
+  private static async getOrCreateItemKey(credentialId: string, vaultKey: CryptoKey): Promise<CryptoKey> {
+    const { data: row, error: fetchError } = await supabase
+      .from('credentials')
+      .select('id, account_name, icon, encrypted_data, encrypted_item_key, collection_id, updated_at')
+      .eq('id', credentialId)
+      .single();
+
+    if (fetchError) {
+      console.error('DatabaseService: Fetch credential for sharing error:', fetchError);
+      throw new Error(`Failed to fetch credential: ${fetchError.message}`);
+    }
+    if (row.collection_id) {
+      throw new Error('Organization items are shared through their collection');
+    }
+
+    if (row.encrypted_item_key) {
+      return CryptoWorker.run('unwrapItemKey', row.encrypted_item_key, vaultKey);
+    }
+
+    console.log('DatabaseService: Giving credential its own item key...');
+    const sensitiveData = JSON.parse(await CryptoWorker.run('decrypt', row.encrypted_data, vaultKey));
+    const payload = {
+      ...sensitiveData,
+      accountName: sensitiveData.accountName ?? row.account_name,
+      icon: sensitiveData.icon ?? row.icon ?? '🔐'
+    };
+    const itemKey = await CryptoUtils.generateVaultKey();
+
+    const { error } = await supabase
+      .from('credentials')
+      .update({
+        encrypted_data: await CryptoWorker.run('encrypt', JSON.stringify(payload), itemKey),
+        encrypted_item_key: await CryptoWorker.run('wrapItemKey', itemKey, vaultKey),
+        account_name: null,
+        icon: null
+      })
+      .eq('id', row.id)
+      .eq('updated_at', row.updated_at)
+      .is('encrypted_item_key', null);
+
+    if (error) {
+      console.error('DatabaseService: Create item key error:', error);
+      throw new Error(`Failed to prepare credential for sharing: ${error.message}`);
+    }
+
+    // Lost a race with another tab or an edit; use whatever is stored now
+    return this.getOrCreateItemKey(credentialId, vaultKey);
+  }
+
+  static async shareCredential(credentialId: string, email: string, canEdit: boolean, vaultKey: CryptoKey): Promise<void> {
+    const { data: recipient, error: lookupError } = await supabase.rpc('find_user_public_key', {
+      lookup_email: email
+    });
+
+    if (lookupError) {
+      console.error('DatabaseService: Find recipient error:', lookupError);
+      throw new Error(`Failed to find recipient: ${lookupError.message}`);
+    }
+    if (!recipient) {
+      throw new Error('No MonoKey user with that email has unlocked their vault yet');
+    }
+
+    const itemKey = await this.getOrCreateItemKey(credentialId, vaultKey);
+
+    const { error } = await supabase.rpc('share_credential', {
+      target_credential_id: credentialId,
+      recipient_user_id: recipient.user_id,
+      recipient_encrypted_item_key: await CryptoWorker.run('encryptKeyForPublicKey', itemKey, recipient.public_key),
+      allow_edit: canEdit
+    });
+
+    if (error) {
+      console.error('DatabaseService: Share credential error:', error);
+      throw new Error(`Failed to share credential: ${error.message}`);
+    }
+  }
+
+  static async updateSharePermission(shareId: string, canEdit: boolean): Promise<void> {
+    const { error } = await supabase.rpc('update_share_permission', {
+      target_share_id: shareId,
+      allow_edit: canEdit
+    });
+
+    if (error) {
+      console.error('DatabaseService: Update share permission error:', error);
+      throw new Error(`Failed to update permission: ${error.message}`);
+    }
+  }
+
+  // The recipient may have kept the item key, so revoking re-encrypts the
+  // credential under a new one and hands that only to the remaining recipients.
+  // rotate_credential_key drops the revoked share in the same transaction, so
+  // a failed re-key leaves the share in place to be revoked again.
+  static async revokeCredentialShare(share: CredentialShare, vaultKey: CryptoKey): Promise<void> {
+    const { data: row, error: fetchError } = await supabase
+      .from('credentials')
+      .select('encrypted_data, encrypted_item_key, updated_at')
+      .eq('id', share.credentialId)
+      .single();
+
+    if (fetchError) {
+      console.error('DatabaseService: Fetch credential for re-key error:', fetchError);
+      throw new Error(`Failed to fetch credential: ${fetchError.message}`);
+    }
+
+    const oldItemKey = await CryptoWorker.run('unwrapItemKey', row.encrypted_item_key, vaultKey);
+    const plaintext = await CryptoWorker.run('decrypt', row.encrypted_data, oldItemKey);
+    const newItemKey = await CryptoUtils.generateVaultKey();
+
+    const recipientKeys = [];
+    for (const remaining of await this.getCredentialShares(share.credentialId)) {
+      if (remaining.id === share.id) continue;
+      // Leaving a share out would delete it along with the revoked one
+      const publicKey = await this.getPublicKey(remaining.recipientId);
+      if (!publicKey) {
+        throw new Error(`Failed to revoke share: no public key found for ${remaining.recipientEmail}`);
+      }
+      recipientKeys.push({
+        share_id: remaining.id,
+        encrypted_item_key: await CryptoWorker.run('encryptKeyForPublicKey', newItemKey, publicKey)
+      });
+    }
+
+    const { error } = await supabase.rpc('rotate_credential_key', {
+      target_credential_id: share.credentialId,
+      expected_updated_at: row.updated_at,
+      new_encrypted_data: await CryptoWorker.run('encrypt', plaintext, newItemKey),
+      new_encrypted_item_key: await CryptoWorker.run('wrapItemKey', newItemKey, vaultKey),
+      recipient_keys: recipientKeys
+    });
+
+    if (error) {
+      console.error('DatabaseService: Rotate item key error:', error);
+      throw new Error(`Failed to revoke share: ${error.message}`);
+    }
+  }
+
+  static async getSharedWithMe(vaultKey: CryptoKey): Promise<SharedCredential[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data: shares, error } = await supabase
+      .from('shared_credentials')
+      .select('id, credential_id, owner_email, can_edit, encrypted_item_key')
+      .eq('recipient_id', user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('DatabaseService: Get shared credentials error:', error);
+      throw new Error(`Failed to load shared credentials: ${error.message}`);
+    }
+    if (!shares || shares.length === 0) return [];
+
+    const { data: rows, error: rowsError } = await supabase
+      .from('credentials')
+      .select('id, account_name, icon, encrypted_data, created_at, updated_at')
+      .in('id', shares.map(share => share.credential_id));
+
+    if (rowsError) {
+      console.error('DatabaseService: Get shared credential rows error:', rowsError);
+      throw new Error(`Failed to load shared credentials: ${rowsError.message}`);
+    }
+
+    const rowsById = new Map((rows || []).map(row => [row.id, row]));
+    const available = shares.filter(share => rowsById.has(share.credential_id));
+
+    const privateKey = await this.getPrivateKey(vaultKey);
+    const results = await CryptoWorker.run(
+      'decryptSharedMany',
+      available.map(share => ({
+        encryptedData: rowsById.get(share.credential_id)!.encrypted_data,
+        encryptedItemKey: share.encrypted_item_key
+      })),
+      privateKey
+    );
+
+    const sharedCredentials: SharedCredential[] = [];
+    available.forEach((share, index) => {
+      const result = results[index];
+      if ('error' in result) {
+        console.error('DatabaseService: Failed to decrypt shared credential:', share.id, result.error);
+        return;
+      }
+      sharedCredentials.push({
+        ...this.toCredential(rowsById.get(share.credential_id)!, JSON.parse(result.plaintext)),
+        shareId: share.id,
+        ownerEmail: share.owner_email,
+        canEdit: share.can_edit
+      });
+    });
+    return sharedCredentials;
+  }
+
+  static async updateSharedCredential(shareId: string, credential: Partial<Credential>, vaultKey: CryptoKey): Promise<void> {
+    const { data: share, error: fetchError } = await supabase
+      .from('shared_credentials')
+      .select('credential_id, encrypted_item_key')
+      .eq('id', shareId)
+      .single();
+
+    if (fetchError) {
+      console.error('DatabaseService: Fetch share for update error:', fetchError);
+      throw new Error(`Failed to fetch credential: ${fetchError.message}`);
+    }
+
+    const { data: row, error: rowError } = await supabase
+      .from('credentials')
+      .select('id, account_name, icon, encrypted_data, created_at, updated_at')
+      .eq('id', share.credential_id)
+      .single();
+
+    if (rowError) {
+      console.error('DatabaseService: Fetch shared credential for update error:', rowError);
+      throw new Error(`Failed to fetch credential: ${rowError.message}`);
+    }
+
+    const privateKey = await this.getPrivateKey(vaultKey);
+    const itemKey = await CryptoWorker.run('decryptKeyWithPrivateKey', share.encrypted_item_key, privateKey);
+    const current = JSON.parse(await CryptoWorker.run('decrypt', row.encrypted_data, itemKey));
+    const updatedData = this.mergeCredentialData(row, current, credential);
+
+    const { error } = await supabase.rpc('update_shared_credential', {
+      target_credential_id: share.credential_id,
+      new_encrypted_data: await CryptoWorker.run('encrypt', JSON.stringify(updatedData), itemKey),
+      used_encrypted_item_key: share.encrypted_item_key
+    });
+
+    if (error) {
+      console.error('DatabaseService: Update shared credential error:', error);
+      throw new Error(`Failed to update credential: ${error.message}`);
+    }
+  }
+
+  // Lets a recipient drop a credential shared with them
+  static async leaveSharedCredential(shareId: string): Promise<void> {
+    const { error } = await supabase
+      .from('shared_credentials')
+      .delete()
+      .eq('id', shareId);
+
+    if (error) {
+      console.error('DatabaseService: Leave shared credential error:', error);
+      throw new Error(`Failed to remove shared credential: ${error.message}`);
+    }
+  }
+
+  // Organizations this user belongs to, with their role in each
+  static async getOrganizations(): Promise<Organization[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data: memberships, error } = await supabase
+      .from('organization_members')
+      .select('organization_id, role')
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('DatabaseService: Get memberships error:', error);
+      throw new Error(`Failed to load organizations: ${error.message}`);
+    }
+    if (!memberships || memberships.length === 0) return [];
+
+    const { data: rows, error: rowsError } = await supabase
+      .from('organizations')
+      .select('id, name, created_at')
+      .in('id', memberships.map(membership => membership.organization_id))
+      .order('name', { ascending: true });
+
+    if (rowsError) {
+      console.error('DatabaseService: Get organizations error:', rowsError);
+      throw new Error(`Failed to load organizations: ${rowsError.message}`);
+    }
+
+    const roles = new Map(memberships.map(membership => [membership.organization_id, membership.role as OrganizationRole]));
+    return (rows || []).map(row => ({
+      id: row.id,
+      name: row.name,
+      role: roles.get(row.id)!,
+      createdAt: row.created_at
+    }));
+  }
+
+  // Every collection key this user holds, decrypted with their private key
+  private static async getCollectionKeys(vaultKey: CryptoKey): Promise<Map<string, CryptoKey>> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('collection_keys')
+      .select('collection_id, encrypted_key')
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('DatabaseService: Get collection keys error:', error);
+      throw new Error(`Failed to load collection keys: ${error.message}`);
+    }
+
+    const keys = new Map<string, CryptoKey>();
+    if (!data || data.length === 0) return keys;
+
+    const privateKey = await this.getPrivateKey(vaultKey);
+    for (const row of data) {
+      try {
+        keys.set(row.collection_id, await CryptoWorker.run('decryptKeyWithPrivateKey', row.encrypted_key, privateKey));
+      } catch (error) {
+        console.error('DatabaseService: Failed to decrypt collection key:', row.collection_id, error);
+      }
+    }
+    return keys;
+  }
+
+  private static async getCollectionKey(collectionId: string, vaultKey: CryptoKey): Promise<CryptoKey> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('collection_keys')
+      .select('encrypted_key')
+      .eq('collection_id', collectionId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (error) {
+      console.error('DatabaseService: Get collection key error:', error);
+      throw new Error('You do not have access to this collection');
+    }
+
+    const privateKey = await this.getPrivateKey(vaultKey);
+    return CryptoWorker.run('decryptKeyWithPrivateKey', data.encrypted_key, privateKey);
+  }
+
+  // Organizations, the collections this user holds keys for, and the items
+  // in them. Items are decrypted per collection since each has its own key.
+  static async getOrganizationVault(vaultKey: CryptoKey): Promise<{
+    organizations: Organization[];
+    collections: Collection[];
+    credentials: Credential[];
+  }> {
+    const organizations = await this.getOrganizations();
+    if (organizations.length === 0) {
+      return { organizations, collections: [], credentials: [] };
+    }
+
+    const keys = await this.getCollectionKeys(vaultKey);
+
+    const { data: collectionRows, error: collectionsError } = await supabase
+      .from('collections')
+      .select('id, organization_id, encrypted_name, created_at')
+      .in('organization_id', organizations.map(organization => organization.id));
+
+    if (collectionsError) {
+      console.error('DatabaseService: Get collections error:', collectionsError);
+      throw new Error(`Failed to load collections: ${collectionsError.message}`);
+    }
+
+    const collections: Collection[] = [];
+    for (const row of collectionRows || []) {
+      const key = keys.get(row.id);
+      if (!key) continue;
+      try {
+        collections.push({
+          id: row.id,
+          organizationId: row.organization_id,
+          name: await CryptoWorker.run('decrypt', row.encrypted_name, key),
+          createdAt: row.created_at
+        });
+      } catch (error) {
+        console.error('DatabaseService: Failed to decrypt collection name:', row.id, error);
+      }
+    }
+    collections.sort((a, b) => a.name.localeCompare(b.name));
+
+    if (collections.length === 0) {
+      return { organizations, collections, credentials: [] };
+    }
+
+    const { data: rows, error } = await supabase
+      .from('credentials')
+      .select('id, account_name, icon, encrypted_data, collection_id, created_at, updated_at')
+      .in('collection_id', collections.map(collection => collection.id))
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('DatabaseService: Get organization credentials error:', error);
+      throw new Error(`Failed to load organization credentials: ${error.message}`);
+    }
+
+    const credentials: Credential[] = [];
+    for (const collection of collections) {
+      const collectionRowsForKey = (rows || []).filter(row => row.collection_id === collection.id);
+      if (collectionRowsForKey.length === 0) continue;
+
+      const results = await CryptoWorker.run(
+        'decryptMany',
+        collectionRowsForKey.map(row => ({ encryptedData: row.encrypted_data, encryptedItemKey: null })),
+        keys.get(collection.id)!
+      );
+      collectionRowsForKey.forEach((row, index) => {
+        const result = results[index];
+        if ('error' in result) {
+          console.error('DatabaseService: Failed to decrypt organization credential:', row.id, result.error);
+          return;
+        }
+        credentials.push(this.toCredential(row, JSON.parse(result.plaintext)));
+      });
+    }
+    credentials.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    return { organizations, collections, credentials };
+  }
+
+  // Creates an organization owned by this user, with a first collection
+  static async createOrganization(name: string, vaultKey: CryptoKey): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    await this.ensureKeyPair(vaultKey);
+    const publicKey = await this.getPublicKey(user.id);
+    if (!publicKey) throw new Error('Failed to create organization: your keypair is missing');
+
+    const collectionKey = await CryptoUtils.generateVaultKey();
+
+    const { error } = await supabase.rpc('create_organization', {
+      org_name: name,
+      collection_encrypted_name: await CryptoWorker.run('encrypt', DEFAULT_COLLECTION_NAME, collectionKey),
+      owner_encrypted_key: await CryptoWorker.run('encryptKeyForPublicKey', collectionKey, publicKey)
+    });
+
+    if (error) {
+      console.error('DatabaseService: Create organization error:', error);
+      throw new Error(`Failed to create organization: ${error.message}`);
+    }
+  }
+
+  // Deletes the organization with all of its collections and items
+  static async deleteOrganization(organizationId: string): Promise<void> {
+    const { data: collectionRows, error: collectionsError } = await supabase
+      .from('collections')
+      .select('id')
+      .eq('organization_id', organizationId);
+
+    if (collectionsError) {
+      console.error('DatabaseService: Get collections error:', collectionsError);
+      throw new Error(`Failed to delete organization: ${collectionsError.message}`);
+    }
+    await this.removeCollectionAttachments((collectionRows || []).map(row => row.id));
+
+    const { error } = await supabase
+      .from('organizations')
+      .delete()
+      .eq('id', organizationId);
+
+    if (error) {
+      console.error('DatabaseService: Delete organization error:', error);
+      throw new Error(`Failed to delete organization: ${error.message}`);
+    }
+  }
+
+  static async getOrganizationMembers(organizationId: string): Promise<OrganizationMember[]> {
+    const { data, error } = await supabase
+      .from('organization_members')
+      .select('id, organization_id, user_id, email, role, created_at')
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('DatabaseService: Get organization members error:', error);
+      throw new Error(`Failed to load members: ${error.message}`);
+    }
+
+    return (data || []).map(toOrganizationMember);
+  }
+
+  // Gives the new member a copy of every collection key the caller holds
+  // for this organization, encrypted to the member's public key
+  static async addOrganizationMember(
+    organizationId: string,
+    email: string,
+    role: OrganizationRole,
+    vaultKey: CryptoKey
+  ): Promise<void> {
+    const { data: recipient, error: lookupError } = await supabase.rpc('find_user_public_key', {
+      lookup_email: email
+    });
+
+    if (lookupError) {
+      console.error('DatabaseService: Find member error:', lookupError);
+      throw new Error(`Failed to find user: ${lookupError.message}`);
+    }
+    if (!recipient) {
+      throw new Error('No MonoKey user with that email has unlocked their vault yet');
+    }
+
+    const { data: collectionRows, error: collectionsError } = await supabase
+      .from('collections')
+      .select('id')
+      .eq('organization_id', organizationId);
+
+    if (collectionsError) {
+      console.error('DatabaseService: Get organization collections error:', collectionsError);
+      throw new Error(`Failed to load collections: ${collectionsError.message}`);
+    }
+
+    const keys = await this.getCollectionKeys(vaultKey);
+    const memberKeys = [];
+    for (const { id } of collectionRows || []) {
+      const key = keys.get(id);
+      if (!key) continue;
+      memberKeys.push({
+        collection_id: id,
+        encrypted_key: await CryptoWorker.run('encryptKeyForPublicKey', key, recipient.public_key)
+      });
+    }
+
+    const { error } = await supabase.rpc('add_organization_member', {
+      target_organization_id: organizationId,
+      member_user_id: recipient.user_id,
+      member_role: role,
+      member_keys: memberKeys
+    });
+
+    if (error) {
+      console.error('DatabaseService: Add organization member error:', error);
+      throw new Error(`Failed to add member: ${error.message}`);
+    }
+  }
+
+  static async updateOrganizationMemberRole(memberId: string, role: OrganizationRole): Promise<void> {
+    const { error } = await supabase.rpc('update_organization_member_role', {
+      target_member_id: memberId,
+      new_role: role
+    });
+
+    if (error) {
+      console.error('DatabaseService: Update member role error:', error);
+      throw new Error(`Failed to change role: ${error.message}`);
+    }
+  }
+
+  // Also used by a member to leave. A removed member may have kept copies of
+  // the collection keys, so removing someone else moves every collection in
+  // the organization to a new key in the same transaction. A member who
+  // leaves on their own already holds the current keys and nothing is rotated.
+  static async removeOrganizationMember(member: OrganizationMember, vaultKey: CryptoKey): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const rotatedCollections = member.userId === user.id
+      ? []
+      : await this.rotateCollectionKeys(member.organizationId, member.userId, vaultKey);
+
+    const { error } = await supabase.rpc('remove_organization_member', {
+      target_member_id: member.id,
+      rotated_collections: rotatedCollections
+    });
+
+    if (error) {
+      console.error('DatabaseService: Remove organization member error:', error);
+      throw new Error(`Failed to remove member: ${error.message}`);
+    }
+  }
+
+  // A new key for each collection in the organization, wrapped to every member
+  // but removedUserId, with the collection name and items re-encrypted under it
+  private static async rotateCollectionKeys(organizationId: string, removedUserId: string, vaultKey: CryptoKey) {
+    const { data: collectionRows, error: collectionsError } = await supabase
+      .from('collections')
+      .select('id, encrypted_name')
+      .eq('organization_id', organizationId);
+
+    if (collectionsError) {
+      console.error('DatabaseService: Get organization collections error:', collectionsError);
+      throw new Error(`Failed to load collections: ${collectionsError.message}`);
+    }
+
+    const remainingMembers = [];
+    for (const remaining of await this.getOrganizationMembers(organizationId)) {
+      if (remaining.userId === removedUserId) continue;
+      const publicKey = await this.getPublicKey(remaining.userId);
+      if (!publicKey) {
+        throw new Error(`Failed to remove member: no public key found for ${remaining.email}`);
+      }
+      remainingMembers.push({ userId: remaining.userId, publicKey });
+    }
+
+    const keys = await this.getCollectionKeys(vaultKey);
+    const rotatedCollections = [];
+    for (const collection of collectionRows || []) {
+      const oldKey = keys.get(collection.id);
+      if (!oldKey) {
+        throw new Error('Failed to remove member: you need access to every collection to rotate its key');
+      }
+
+      const { data: rows, error } = await supabase
+        .from('credentials')
+        .select('id, encrypted_data, updated_at')
+        .eq('collection_id', collection.id);
+
+      if (error) {
+        console.error('DatabaseService: Fetch collection credentials for re-key error:', error);
+        throw new Error(`Failed to fetch credentials: ${error.message}`);
+      }
+
+      const newKey = await CryptoUtils.generateVaultKey();
+      const credentials = [];
+      for (const row of rows || []) {
+        const plaintext = await CryptoWorker.run('decrypt', row.encrypted_data, oldKey);
+        credentials.push({
+          id: row.id,
+          encrypted_data: await CryptoWorker.run('encrypt', plaintext, newKey),
+          updated_at: row.updated_at
+        });
+      }
+
+      const memberKeys = [];
+      for (const remaining of remainingMembers) {
+        memberKeys.push({
+          user_id: remaining.userId,
+          encrypted_key: await CryptoWorker.run('encryptKeyForPublicKey', newKey, remaining.publicKey)
+        });
+      }
+
+      const name = await CryptoWorker.run('decrypt', collection.encrypted_name, oldKey);
+      rotatedCollections.push({
+        collection_id: collection.id,
+        encrypted_name: await CryptoWorker.run('encrypt', name, newKey),
+        member_keys: memberKeys,
+        credentials
+      });
+    }
+    return rotatedCollections;
+  }
+
+  // Wraps a fresh collection key to every current member
+  static async createCollection(organizationId: string, name: string, vaultKey: CryptoKey): Promise<void> {
+    await this.ensureKeyPair(vaultKey);
+    const collectionKey = await CryptoUtils.generateVaultKey();
+
+    const memberKeys = [];
+    for (const member of await this.getOrganizationMembers(organizationId)) {
+      const publicKey = await this.getPublicKey(member.userId);
+      if (!publicKey) continue;
+      memberKeys.push({
+        user_id: member.userId,
+        encrypted_key: await CryptoWorker.run('encryptKeyForPublicKey', collectionKey, publicKey)
+      });
+    }
+
+    const { error } = await supabase.rpc('create_collection', {
+      target_organization_id: organizationId,
+      collection_encrypted_name: await CryptoWorker.run('encrypt', name, collectionKey),
+      member_keys: memberKeys
+    });
+
+    if (error) {
+      console.error('DatabaseService: Create collection error:', error);
+      throw new Error(`Failed to create collection: ${error.message}`);
+    }
+  }
+
+  // Attachment chunks are not removed by the database cascade, so they go
+  // before the collections do
+  private static async removeCollectionAttachments(collectionIds: string[]): Promise<void> {
+    if (collectionIds.length === 0) return;
+
+    const { data: rows, error } = await supabase
+      .from('credentials')
+      .select('id')
+      .in('collection_id', collectionIds);
+
+    if (error) {
+      console.error('DatabaseService: Get collection credentials error:', error);
+      throw new Error(`Failed to delete attachments: ${error.message}`);
+    }
+    await AttachmentStorage.removeForCredentials((rows || []).map(row => row.id));
+  }
+
+  // Deletes the collection and every item in it
+  static async deleteCollection(collectionId: string): Promise<void> {
+    await this.removeCollectionAttachments([collectionId]);
+
+    const { error } = await supabase
+      .from('collections')
+      .delete()
+      .eq('id', collectionId);
+
+    if (error) {
+      console.error('DatabaseService: Delete collection error:', error);
+      throw new Error(`Failed to delete collection: ${error.message}`);
+    }
+  }
+
+  static async getFolders(vaultKey: CryptoKey): Promise<Folder[]> {
+    const { data: rows, error } = await supabase
+      .from('folders')
+      .select('id, parent_id, encrypted_name, created_at');
+
+    if (error) {
+      console.error('DatabaseService: Get folders error:', error);
+      throw new Error(`Failed to load folders: ${error.message}`);
+    }
+
+    const results = await CryptoWorker.run(
+      'decryptMany',
+      (rows || []).map(row => ({ encryptedData: row.encrypted_name, encryptedItemKey: null })),
+      vaultKey
+    );
+
+    const folders: Folder[] = [];
+    (rows || []).forEach((row, index) => {
+      const result = results[index];
+      if ('error' in result) {
+        console.error('DatabaseService: Failed to decrypt folder name:', row.id, result.error);
+        return;
+      }
+      folders.push({
+        id: row.id,
+        name: result.plaintext,
+        parentId: row.parent_id ?? undefined,
+        createdAt: row.created_at
+      });
+    });
+    return folders;
+  }
+
+  static async createFolder(name: string, parentId: string | null, vaultKey: CryptoKey): Promise<Folder> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('folders')
+      .insert({
+        user_id: user.id,
+        parent_id: parentId,
+        encrypted_name: await CryptoWorker.run('encrypt', name, vaultKey)
+      })
+      .select('id, created_at')
+      .single();
+
+    if (error) {
+      console.error('DatabaseService: Create folder error:', error);
+      throw new Error(`Failed to create folder: ${error.message}`);
+    }
+
+    return { id: data.id, name, parentId: parentId ?? undefined, createdAt: data.created_at };
+  }
+
+  static async renameFolder(folderId: string, name: string, vaultKey: CryptoKey): Promise<void> {
+    const { error } = await supabase
+      .from('folders')
+      .update({ encrypted_name: await CryptoWorker.run('encrypt', name, vaultKey) })
+      .eq('id', folderId);
+
+    if (error) {
+      console.error('DatabaseService: Rename folder error:', error);
+      throw new Error(`Failed to rename folder: ${error.message}`);
+    }
+  }
+
+  // Subfolders are deleted with it; their items become unfiled
+  static async deleteFolder(folderId: string): Promise<void> {
+    const { error } = await supabase
+      .from('folders')
+      .delete()
+      .eq('id', folderId);
+
+    if (error) {
+      console.error('DatabaseService: Delete folder error:', error);
+      throw new Error(`Failed to delete folder: ${error.message}`);
+    }
+  }
+
+  // Filing only touches the folder column, so the item is not re-encrypted
+  static async moveCredentialToFolder(credentialId: string, folderId: string | null): Promise<void> {
+    const { error } = await supabase
+      .from('credentials')
+      .update({ folder_id: folderId })
+      .eq('id', credentialId)
+      .is('collection_id', null);
+
+    if (error) {
+      console.error('DatabaseService: Move credential to folder error:', error);
+      throw new Error(`Failed to move credential: ${error.message}`);
+    }
+  }
+
+  static async getMonoKeyLockout(): Promise<MonoKeyLockout> {
+    const { data, error } = await supabase.rpc('get_monokey_lockout');
+
+    if (error) {
+      console.error('DatabaseService: Get MonoKey lockout error:', error);
+      throw new Error(`Failed to check MonoKey attempts: ${error.message}`);
+    }
+
+    return toMonoKeyLockout(data);
+  }
+
+  static async recordFailedMonoKeyAttempt(): Promise<MonoKeyLockout> {
+    const { data, error } = await supabase.rpc('record_monokey_failure', {
+      client_user_agent: navigator.userAgent
+    });
+
+    if (error) {
+      console.error('DatabaseService: Record MonoKey failure error:', error);
+      throw new Error(`Failed to record MonoKey attempt: ${error.message}`);
+    }
+
+    return toMonoKeyLockout(data);
+  }
+
+  static async resetMonoKeyAttempts(): Promise<void> {
+    const { error } = await supabase.rpc('reset_monokey_attempts', {
+      client_user_agent: navigator.userAgent
+    });
+
+    if (error) {
+      console.error('DatabaseService: Reset MonoKey attempts error:', error);
+      throw new Error(`Failed to reset MonoKey attempts: ${error.message}`);
+    }
+  }
+
+  static async getSecurityEvents(): Promise<SecurityEvent[]> {
+    const { data, error } = await supabase
+      .from('security_events')
+      .select('id, event_type, details, user_agent, created_at')
+      .order('created_at', { ascending: false })
+      .limit(SECURITY_LOG_LIMIT);
+
+    if (error) {
+      console.error('DatabaseService: Get security events error:', error);
+      throw new Error(`Failed to fetch security log: ${error.message}`);
+    }
+
+    return (data || []).map(event => ({
+      id: event.id,
+      eventType: event.event_type,
+      details: event.details ?? {},
+      userAgent: event.user_agent ?? undefined,
+      createdAt: event.created_at
+    }));
   }
 
   static async getUserProfile() {
@@ -0,0 +1,51 @@
+import { Folder, FolderNode } from '../types';
+
+// Builds and walks the personal folder hierarchy
+export class FolderTree {
+  // Folders sorted by name at every level. A folder whose parent is missing
+  // is shown at the top level rather than lost.
+  static build(folders: Folder[]): FolderNode[] {
+    const ids = new Set(folders.map(folder => folder.id));
+    const children = new Map<string | undefined, Folder[]>();
+    for (const folder of folders) {
+      const parentId = folder.parentId && ids.has(folder.parentId) ? folder.parentId : undefined;
+      children.set(parentId, [...(children.get(parentId) ?? []), folder]);
+    }
+
+    const visit = (parentId: string | undefined, seen: Set<string>): FolderNode[] =>
+      (children.get(parentId) ?? [])
+        .filter(folder => !seen.has(folder.id))
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(folder => ({ ...folder, children: visit(folder.id, new Set(seen).add(folder.id)) }));
+
+    return visit(undefined, new Set());
+  }
+
+  // The folder and everything nested below it
+  static getSubtreeIds(folders: Folder[], folderId: string): Set<string> {
+    const ids = new Set([folderId]);
+    let added = true;
+    while (added) {
+      added = false;
+      for (const folder of folders) {
+        if (folder.parentId && ids.has(folder.parentId) && !ids.has(folder.id)) {
+          ids.add(folder.id);
+          added = true;
+        }
+      }
+    }
+    return ids;
+  }
+
+  // "Work / Clients" style path from the top level down to the folder
+  static getPath(folders: Folder[], folderId: string): string {
+    const byId = new Map(folders.map(folder => [folder.id, folder]));
+    const names: string[] = [];
+    const seen = new Set<string>();
+    for (let folder = byId.get(folderId); folder && !seen.has(folder.id); folder = folder.parentId ? byId.get(folder.parentId) : undefined) {
+      seen.add(folder.id);
+      names.unshift(folder.name);
+    }
+    return names.join(' / ');
+  }
+}
@@ -0,0 +1,135 @@
+import { Credential, ItemType, WifiSecurity } from '../types';
+import { PaymentCards } from './paymentCards';
+
+// One value of an item that can be copied from the vault list
+export interface ItemField {
+  label: string;
+  value: string;
+  // Hidden until revealed, like a password
+  secret: boolean;
+}
+
+export const ITEM_TYPES: { type: ItemType; label: string; icon: string }[] = [
+  { type: 'login', label: 'Login', icon: '🔐' },
+  { type: 'secure_note', label: 'Secure Note', icon: '📝' },
+  { type: 'card', label: 'Payment Card', icon: '💳' },
+  { type: 'identity', label: 'Identity', icon: '🪪' },
+  { type: 'wifi', label: 'Wi-Fi', icon: '📶' },
+  { type: 'api_token', label: 'API Token', icon: '🔑' }
+];
+
+export const WIFI_SECURITY_LABELS: Record<WifiSecurity, string> = {
+  WPA3: 'WPA3',
+  WPA2: 'WPA2',
+  WEP: 'WEP',
+  none: 'Open'
+};
+
+// Per-type presentation of vault items for lists and copy actions
+export class ItemTypes {
+  static getType(credential: Pick<Credential, 'type'>): ItemType {
+    return credential.type ?? 'login';
+  }
+
+  static getLabel(type: ItemType): string {
+    return ITEM_TYPES.find(item => item.type === type)?.label ?? 'Login';
+  }
+
+  static getDefaultIcon(type: ItemType): string {
+    return ITEM_TYPES.find(item => item.type === type)?.icon ?? '🔐';
+  }
+
+  // One line describing the item without giving away any secret
+  static getSummary(credential: Credential): string {
+    switch (this.getType(credential)) {
+      case 'login':
+        return credential.username;
+      case 'secure_note':
+        return 'Secure note';
+      case 'card': {
+        const card = credential.card;
+        if (!card) return 'Payment card';
+        const brand = PaymentCards.getBrand(card.number) ?? 'Card';
+        const expiry = PaymentCards.formatExpiry(card.expiryMonth, card.expiryYear);
+        const expired = PaymentCards.isExpired(card.expiryMonth, card.expiryYear) ? ' (expired)' : '';
+        return `${brand} ${PaymentCards.maskNumber(card.number)} · ${expiry}${expired}`;
+      }
+      case 'identity': {
+        const identity = credential.identity;
+        if (!identity) return 'Identity';
+        return [identity.firstName, identity.lastName].filter(Boolean).join(' ') || identity.email || 'Identity';
+      }
+      case 'wifi':
+        return credential.wifi
+          ? `${credential.wifi.ssid} · ${WIFI_SECURITY_LABELS[credential.wifi.security]}`
+          : 'Wi-Fi network';
+      case 'api_token': {
+        const token = credential.apiToken;
+        const name = token?.keyId || token?.endpoint || 'API token';
+        return token?.expiresAt ? `${name} · expires ${token.expiresAt}` : name;
+      }
+    }
+  }
+
+  // Copyable values in display order, skipping empty ones
+  static getFields(credential: Credential): ItemField[] {
+    const fields: ItemField[] = [];
+    const add = (label: string, value: string | undefined, secret = false) => {
+      if (value) fields.push({ label, value, secret });
+    };
+
+    switch (this.getType(credential)) {
+      case 'login':
+        add('Username', credential.username);
+        add('Password', credential.password, true);
+        break;
+      case 'secure_note':
+        add('Note', credential.notes, true);
+        break;
+      case 'card': {
+        const card = credential.card;
+        if (!card) break;
+        add('Cardholder', card.cardholderName);
+        add('Card number', card.number, true);
+        add('Expiry', PaymentCards.formatExpiry(card.expiryMonth, card.expiryYear));
+        add('Security code', card.securityCode, true);
+        break;
+      }
+      case 'identity': {
+        const identity = credential.identity;
+        if (!identity) break;
+        add('Name', [identity.title, identity.firstName, identity.lastName].filter(Boolean).join(' '));
+        add('Email', identity.email);
+        add('Phone', identity.phone);
+        add('Company', identity.company);
+        add('Address', [
+          identity.address1,
+          identity.address2,
+          [identity.city, [identity.state, identity.postalCode].filter(Boolean).join(' ')].filter(Boolean).join(', '),
+          identity.country
+        ].filter(Boolean).join('\n'));
+        break;
+      }
+      case 'wifi':
+        add('Network name', credential.wifi?.ssid);
+        add('Wi-Fi password', credential.wifi?.password, true);
+        break;
+      case 'api_token':
+        add('Token', credential.apiToken?.token, true);
+        add('Key ID', credential.apiToken?.keyId);
+        add('Endpoint', credential.apiToken?.endpoint);
+        break;
+    }
+
+    if (this.getType(credential) !== 'secure_note') {
+      add('Notes', credential.notes, true);
+    }
+    return fields;
+  }
+
+  // Text the vault search matches against, including saved websites
+  static getSearchText(credential: Credential): string {
+    const uris = credential.uris?.map(entry => entry.uri).join(' ') ?? '';
+    return `${credential.accountName} ${this.getSummary(credential)} ${uris}`.toLowerCase();
+  }
+}
@@ -0,0 +1,207 @@
+import { PasswordPolicy } from '../types';
+import { SITE_PASSWORD_RULES } from '../data/passwordRules';
+
+const UPPER = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const LOWER = 'abcdefghijklmnopqrstuvwxyz';
+const DIGIT = '0123456789';
+// Apple's "special" class minus the space character, which we never generate
+const SPECIAL = '-~!@#$%^&*_+=`|(){}[:;"\'<>,.?]';
+
+const CHARACTER_CLASSES: Record<string, string> = {
+  upper: UPPER,
+  lower: LOWER,
+  digit: DIGIT,
+  special: SPECIAL,
+  'ascii-printable': UPPER + LOWER + DIGIT + SPECIAL,
+  // Generated passwords stay ASCII, so unicode is treated as ascii-printable
+  unicode: UPPER + LOWER + DIGIT + SPECIAL
+};
+
+// Parses and checks password policies written in the Apple password-rules
+// syntax, e.g. "minlength: 8; required: lower, upper; allowed: [-_.];"
+export class PasswordRules {
+  // Splits on separator outside of [...] custom classes. A literal "]" must
+  // come last in its class, as in "[abc]]"; both brackets are kept so the
+  // class reads the same when split again.
+  private static splitOutsideBrackets(input: string, separator: string): string[] {
+    const parts: string[] = [];
+    let current = '';
+    let inBrackets = false;
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+      if (inBrackets) {
+        if (char === ']' && input[i + 1] === ']') {
+          current += ']]';
+          i++;
+          inBrackets = false;
+          continue;
+        }
+        if (char === ']') inBrackets = false;
+      } else if (char === '[') {
+        inBrackets = true;
+      } else if (char === separator) {
+        parts.push(current);
+        current = '';
+        continue;
+      }
+      current += char;
+    }
+
+    if (inBrackets) throw new Error('Unclosed "[" in password rules');
+    parts.push(current);
+    return parts;
+  }
+
+  private static parseCharacterSet(value: string): string {
+    const chars = this.splitOutsideBrackets(value, ',')
+      .map(item => item.trim())
+      .filter(Boolean)
+      .map(item => {
+        if (item.startsWith('[') && item.endsWith(']')) {
+          return item.slice(1, -1);
+        }
+        const named = CHARACTER_CLASSES[item.toLowerCase()];
+        if (named === undefined) throw new Error(`Unknown character class "${item}"`);
+        return named;
+      })
+      .join('');
+
+    return Array.from(new Set(chars)).join('');
+  }
+
+  private static parsePositiveInteger(name: string, value: string): number {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+      throw new Error(`"${name}" must be a positive whole number`);
+    }
+    return parsed;
+  }
+
+  static parse(rules: string): PasswordPolicy {
+    const policy: PasswordPolicy = { required: [], allowed: '' };
+
+    for (const rule of this.splitOutsideBrackets(rules, ';')) {
+      if (!rule.trim()) continue;
+
+      const separatorIndex = rule.indexOf(':');
+      if (separatorIndex === -1) throw new Error(`Expected "name: value" in "${rule.trim()}"`);
+
+      const name = rule.slice(0, separatorIndex).trim().toLowerCase();
+      const value = rule.slice(separatorIndex + 1).trim();
+
+      switch (name) {
+        case 'minlength':
+          policy.minLength = this.parsePositiveInteger(name, value);
+          break;
+        case 'maxlength':
+          policy.maxLength = this.parsePositiveInteger(name, value);
+          break;
+        case 'max-consecutive':
+          policy.maxConsecutive = this.parsePositiveInteger(name, value);
+          break;
+        case 'required':
+          policy.required.push(this.parseCharacterSet(value));
+          break;
+        case 'allowed':
+          policy.allowed = Array.from(new Set(policy.allowed + this.parseCharacterSet(value))).join('');
+          break;
+        default:
+          throw new Error(`Unknown password rule "${name}"`);
+      }
+    }
+
+    if (policy.minLength !== undefined && policy.maxLength !== undefined && policy.minLength > policy.maxLength) {
+      throw new Error('"minlength" cannot be greater than "maxlength"');
+    }
+
+    return policy;
+  }
+
+  // Returns the parse error for a rules string, or null when it is valid
+  static getError(rules: string): string | null {
+    try {
+      this.parse(rules);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid password rules';
+    }
+  }
+
+  // Every character the policy accepts; no character rules means any printable ASCII
+  static getCharset(policy: PasswordPolicy): string {
+    const chars = policy.required.join('') + policy.allowed;
+    return chars ? Array.from(new Set(chars)).join('') : CHARACTER_CLASSES['ascii-printable'];
+  }
+
+  // Renders a character set compactly, collapsing runs such as a-z
+  private static describeSet(chars: string): string {
+    const codes = Array.from(new Set(chars)).map(c => c.charCodeAt(0)).sort((a, b) => a - b);
+    let description = '';
+    for (let i = 0; i < codes.length; i++) {
+      let end = i;
+      while (end + 1 < codes.length && codes[end + 1] === codes[end] + 1) end++;
+      description += end - i >= 2
+        ? `${String.fromCharCode(codes[i])}-${String.fromCharCode(codes[end])}`
+        : codes.slice(i, end + 1).map(code => String.fromCharCode(code)).join('');
+      i = end;
+    }
+    return description;
+  }
+
+  static hasRunLongerThan(password: string, maxConsecutive: number): boolean {
+    let run = 1;
+    for (let i = 1; i < password.length; i++) {
+      run = password[i] === password[i - 1] ? run + 1 : 1;
+      if (run > maxConsecutive) return true;
+    }
+    return false;
+  }
+
+  // Human-readable list of the ways a password breaks the policy
+  static validate(password: string, policy: PasswordPolicy): string[] {
+    const problems: string[] = [];
+
+    if (policy.minLength !== undefined && password.length < policy.minLength) {
+      problems.push(`Must be at least ${policy.minLength} characters`);
+    }
+    if (policy.maxLength !== undefined && password.length > policy.maxLength) {
+      problems.push(`Must be at most ${policy.maxLength} characters`);
+    }
+
+    for (const set of policy.required) {
+      if (!password.split('').some(char => set.includes(char))) {
+        problems.push(`Must include one of: ${this.describeSet(set)}`);
+      }
+    }
+
+    const charset = this.getCharset(policy);
+    const disallowed = Array.from(new Set(password.split('').filter(char => !charset.includes(char))));
+    if (disallowed.length > 0) {
+      problems.push(`Contains characters this site does not allow: ${disallowed.join(' ')}`);
+    }
+
+    if (policy.maxConsecutive !== undefined && this.hasRunLongerThan(password, policy.maxConsecutive)) {
+      problems.push(`No more than ${policy.maxConsecutive} identical characters in a row`);
+    }
+
+    return problems;
+  }
+
+  // Looks up bundled rules by account name, e.g. "Chase" or "bankofamerica.com"
+  static findForAccount(accountName: string): { domain: string; rules: string } | null {
+    const name = accountName.trim().toLowerCase();
+    if (!name) return null;
+
+    const words = name.split(/[^a-z0-9]+/).filter(Boolean);
+    const compact = words.join('');
+
+    for (const [domain, entry] of Object.entries(SITE_PASSWORD_RULES)) {
+      const label = domain.split('.')[0];
+      if (name.includes(domain) || words.includes(label) || compact === label) {
+        return { domain, rules: entry['password-rules'] };
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,67 @@
+import { ZxcvbnFactory } from '@zxcvbn-ts/core';
+import * as zxcvbnCommonPackage from '@zxcvbn-ts/language-common';
+import * as zxcvbnEnPackage from '@zxcvbn-ts/language-en';
+
+export type StrengthScore = 0 | 1 | 2 | 3 | 4;
+
+export interface PasswordStrengthResult {
+  score: StrengthScore;
+  label: string;
+  // Tailwind colour name for meters and labels
+  color: string;
+  guesses: number;
+  guessesLog10: number;
+  // Offline attack against a slow hash, which is how a leaked vault is attacked
+  crackTime: string;
+  warning: string | null;
+  suggestions: string[];
+}
+
+const SCORE_LABELS: Record<StrengthScore, { label: string; color: string }> = {
+  0: { label: 'Very Weak', color: 'red' },
+  1: { label: 'Weak', color: 'orange' },
+  2: { label: 'Medium', color: 'yellow' },
+  3: { label: 'Strong', color: 'blue' },
+  4: { label: 'Very Strong', color: 'green' }
+};
+
+// Pattern-based strength estimation (dictionary words, keyboard walks, dates,
+// repeats, sequences and l33t substitutions) backed by zxcvbn-ts
+export class PasswordStrength {
+  // Score a MonoKey needs before it can be set
+  static readonly MIN_MONOKEY_SCORE: StrengthScore = 3;
+
+  private static factory: ZxcvbnFactory | null = null;
+
+  // The dictionaries are large, so the matcher is built on first use
+  private static getFactory(): ZxcvbnFactory {
+    if (!this.factory) {
+      this.factory = new ZxcvbnFactory({
+        dictionary: {
+          ...zxcvbnCommonPackage.dictionary,
+          ...zxcvbnEnPackage.dictionary
+        },
+        graphs: zxcvbnCommonPackage.adjacencyGraphs,
+        translations: zxcvbnEnPackage.translations
+      });
+    }
+    return this.factory;
+  }
+
+  // userInputs are strings the password should not be built from, such as
+  // the account name or the user's email
+  static estimate(password: string, userInputs: string[] = []): PasswordStrengthResult {
+    const result = this.getFactory().check(password, userInputs.filter(Boolean));
+    const score = result.score as StrengthScore;
+
+    return {
+      score,
+      ...SCORE_LABELS[score],
+      guesses: result.guesses,
+      guessesLog10: result.guessesLog10,
+      crackTime: result.crackTimes.offlineSlowHashingXPerSecond.display,
+      warning: result.feedback.warning,
+      suggestions: result.feedback.suggestions
+    };
+  }
+}
@@ -0,0 +1,70 @@
+// Card brands by number prefix, checked in order
+const BRANDS: { name: string; pattern: RegExp }[] = [
+  { name: 'Visa', pattern: /^4/ },
+  { name: 'Mastercard', pattern: /^(5[1-5]|222[1-9]|22[3-9]\d|2[3-6]\d{2}|27[01]\d|2720)/ },
+  { name: 'American Express', pattern: /^3[47]/ },
+  { name: 'Discover', pattern: /^(6011|65|64[4-9])/ },
+  { name: 'Diners Club', pattern: /^(36|38|30[0-5])/ },
+  { name: 'JCB', pattern: /^35(2[89]|[3-8]\d)/ },
+  { name: 'UnionPay', pattern: /^62/ }
+];
+
+// Checks and formats payment card numbers and expiry dates. Numbers are
+// stored as digits only; spaces and dashes are accepted on input.
+export class PaymentCards {
+  static normalizeNumber(input: string): string {
+    return input.replace(/[\s-]/g, '');
+  }
+
+  // Luhn (mod 10) checksum over a 12 to 19 digit number
+  static isValidNumber(number: string): boolean {
+    const digits = this.normalizeNumber(number);
+    if (!/^\d{12,19}$/.test(digits)) return false;
+
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+      let digit = Number(digits[digits.length - 1 - i]);
+      if (i % 2 === 1) {
+        digit *= 2;
+        if (digit > 9) digit -= 9;
+      }
+      sum += digit;
+    }
+    return sum % 10 === 0;
+  }
+
+  static getBrand(number: string): string | null {
+    const digits = this.normalizeNumber(number);
+    return BRANDS.find(brand => brand.pattern.test(digits))?.name ?? null;
+  }
+
+  // Groups of four, or 4-6-5 for American Express
+  static formatNumber(number: string): string {
+    const digits = this.normalizeNumber(number);
+    if (this.getBrand(digits) === 'American Express') {
+      return [digits.slice(0, 4), digits.slice(4, 10), digits.slice(10)].filter(Boolean).join(' ');
+    }
+    return digits.replace(/(\d{4})(?=\d)/g, '$1 ');
+  }
+
+  static maskNumber(number: string): string {
+    return `•••• ${this.normalizeNumber(number).slice(-4)}`;
+  }
+
+  // Null when the month is 01-12 and the year has four digits
+  static getExpiryError(month: string, year: string): string | null {
+    if (!/^(0[1-9]|1[0-2])$/.test(month)) return 'Expiry month must be 01 to 12';
+    if (!/^\d{4}$/.test(year)) return 'Expiry year must have four digits';
+    return null;
+  }
+
+  // A card is valid through the last day of its expiry month
+  static isExpired(month: string, year: string, now: Date = new Date()): boolean {
+    if (this.getExpiryError(month, year)) return false;
+    return new Date(Number(year), Number(month), 1) <= now;
+  }
+
+  static formatExpiry(month: string, year: string): string {
+    return `${month}/${year.slice(-2)}`;
+  }
+}
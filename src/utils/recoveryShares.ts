@@ -0,0 +1,80 @@
+import { CryptoUtils } from './crypto';
+import { Shamir } from './shamir';
+
+// Shares read "MKS1-<set>-<threshold>-<number>-<share bytes>", where the share
+// bytes use the same grouped base32 as a recovery key. The set id ties shares
+// to one split, so shares from an older, rotated split are caught up front.
+const SHARE_PREFIX = 'MKS1';
+const SET_ID_BYTES = 5;
+
+export interface RecoveryShare {
+  setId: string;
+  threshold: number;
+  index: number;
+  value: Uint8Array;
+}
+
+// Splits a recovery key among trusted people so that any `threshold` of them
+// together can recover the vault, while fewer learn nothing about it
+export class RecoveryShares {
+  static readonly MAX_SHARES = 10;
+
+  static split(recoveryKey: string, shareCount: number, threshold: number): string[] {
+    if (shareCount > this.MAX_SHARES) {
+      throw new Error(`At most ${this.MAX_SHARES} shares are supported`);
+    }
+
+    const setId = CryptoUtils.encodeBase32(crypto.getRandomValues(new Uint8Array(SET_ID_BYTES)));
+    return Shamir.split(CryptoUtils.decodeRecoveryKey(recoveryKey), shareCount, threshold).map(share =>
+      [SHARE_PREFIX, setId, threshold, share.x, CryptoUtils.encodeRecoveryKey(share.y)].join('-')
+    );
+  }
+
+  static parse(shareText: string): RecoveryShare {
+    const [prefix, setId, threshold, index, ...value] = shareText.trim().toUpperCase().split(/\s*-\s*/);
+    if (prefix !== SHARE_PREFIX || !setId || value.length === 0) {
+      throw new Error('That does not look like a MonoKey recovery share');
+    }
+
+    const share: RecoveryShare = {
+      setId: CryptoUtils.encodeBase32(CryptoUtils.decodeBase32(setId)),
+      threshold: Number(threshold),
+      index: Number(index),
+      value: CryptoUtils.decodeRecoveryKey(value.join('-'))
+    };
+    if (!Number.isInteger(share.threshold) || share.threshold < 2 ||
+        !Number.isInteger(share.index) || share.index < 1 || share.index > Shamir.MAX_SHARES) {
+      throw new Error('Recovery share is damaged');
+    }
+    return share;
+  }
+
+  // Returns the parse error for one share, or null when it is readable
+  static getError(shareText: string): string | null {
+    try {
+      this.parse(shareText);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid recovery share';
+    }
+  }
+
+  // Rebuilds the recovery key from enough shares of one split
+  static combine(shareTexts: string[]): string {
+    const shares = shareTexts.map(text => this.parse(text));
+    if (shares.length === 0) {
+      throw new Error('Enter your recovery shares');
+    }
+
+    const { setId, threshold } = shares[0];
+    if (shares.some(share => share.setId !== setId || share.threshold !== threshold)) {
+      throw new Error('These shares come from different splits. Use shares from the same set.');
+    }
+    if (shares.length < threshold) {
+      throw new Error(`${threshold} shares are needed, ${shares.length} entered`);
+    }
+
+    const secret = Shamir.combine(shares.map(share => ({ x: share.index, y: share.value })));
+    return CryptoUtils.encodeRecoveryKey(secret);
+  }
+}
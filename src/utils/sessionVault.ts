@@ -0,0 +1,163 @@
+// Keeps the vault unlocked across reloads within one tab session without
+// putting any secret in web storage. A non-extractable AES-GCM key lives in
+// IndexedDB; sessionStorage only holds the vault key wrapped under it. Neither
+// half is useful alone, the session key cannot be read out as bytes, and the
+// MonoKey itself is never stored.
+
+const DB_NAME = 'monokey-session';
+const STORE_NAME = 'session-keys';
+const SESSION_STORAGE_KEY = 'monokey_vault_session';
+
+// Older builds kept the raw MonoKey here; it is removed on sight
+const LEGACY_MONOKEY_SESSION_KEY = 'monokey_session';
+
+// Session keys from tabs that closed without locking are pruned after this
+const SESSION_KEY_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+interface StoredSession {
+  v: 1;
+  userId: string;
+  keyId: string;
+  iv: string;
+  wrappedKey: string;
+}
+
+interface SessionKeyRecord {
+  id: string;
+  key: CryptoKey;
+  createdAt: number;
+}
+
+export class SessionVault {
+  private static toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach(byte => {
+      binary += String.fromCharCode(byte);
+    });
+    return btoa(binary);
+  }
+
+  private static fromBase64(encoded: string): Uint8Array {
+    return Uint8Array.from(atob(encoded), char => char.charCodeAt(0));
+  }
+
+  private static openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Runs one request against the key store and closes the connection
+  private static async withStore<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.openDatabase();
+    try {
+      return await new Promise<T>((resolve, reject) => {
+        const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    } finally {
+      db.close();
+    }
+  }
+
+  private static async pruneExpiredKeys(): Promise<void> {
+    const records = await this.withStore<SessionKeyRecord[]>('readonly', store => store.getAll());
+    const cutoff = Date.now() - SESSION_KEY_MAX_AGE_MS;
+    for (const record of records.filter(record => record.createdAt < cutoff)) {
+      await this.withStore('readwrite', store => store.delete(record.id));
+    }
+  }
+
+  private static readSession(): StoredSession | null {
+    const raw = sessionStorage.getItem(SESSION_STORAGE_KEY);
+    if (!raw) return null;
+
+    const session = JSON.parse(raw) as StoredSession;
+    return session.v === 1 ? session : null;
+  }
+
+  static removeLegacyMonoKey(): void {
+    try {
+      sessionStorage.removeItem(LEGACY_MONOKEY_SESSION_KEY);
+    } catch (error) {
+      console.error('SessionVault: Failed to remove legacy MonoKey session:', error);
+    }
+  }
+
+  static async store(vaultKey: CryptoKey, userId: string): Promise<void> {
+    await this.clear();
+
+    const sessionKey = await crypto.subtle.generateKey(
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['wrapKey', 'unwrapKey']
+    );
+    const keyId = crypto.randomUUID();
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const wrappedKey = new Uint8Array(await crypto.subtle.wrapKey('raw', vaultKey, sessionKey, { name: 'AES-GCM', iv }));
+
+    await this.withStore('readwrite', store => store.put({ id: keyId, key: sessionKey, createdAt: Date.now() }));
+
+    const session: StoredSession = {
+      v: 1,
+      userId,
+      keyId,
+      iv: this.toBase64(iv),
+      wrappedKey: this.toBase64(wrappedKey)
+    };
+    sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+
+    this.pruneExpiredKeys().catch(error => console.error('SessionVault: Failed to prune session keys:', error));
+  }
+
+  // Returns the vault key saved for this user earlier in the tab session, if any
+  static async restore(userId: string): Promise<CryptoKey | null> {
+    const session = this.readSession();
+    if (!session) return null;
+
+    if (session.userId !== userId) {
+      await this.clear();
+      return null;
+    }
+
+    const record = await this.withStore<SessionKeyRecord | undefined>('readonly', store => store.get(session.keyId));
+    if (!record) {
+      sessionStorage.removeItem(SESSION_STORAGE_KEY);
+      return null;
+    }
+
+    return crypto.subtle.unwrapKey(
+      'raw',
+      this.fromBase64(session.wrappedKey),
+      record.key,
+      { name: 'AES-GCM', iv: this.fromBase64(session.iv) },
+      { name: 'AES-GCM', length: 256 },
+      true,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  static async clear(): Promise<void> {
+    let session: StoredSession | null = null;
+    try {
+      session = this.readSession();
+    } catch (error) {
+      console.error('SessionVault: Discarding unreadable session:', error);
+    }
+    sessionStorage.removeItem(SESSION_STORAGE_KEY);
+
+    if (session) {
+      const keyId = session.keyId;
+      await this.withStore('readwrite', store => store.delete(keyId));
+    }
+  }
+}
@@ -0,0 +1,110 @@
+// Shamir secret sharing over GF(256), byte by byte. Each byte of the secret is
+// the constant term of a random polynomial of degree threshold - 1; share x
+// holds that polynomial evaluated at x. Any `threshold` shares give the
+// secret back by Lagrange interpolation at 0, and fewer reveal nothing.
+
+export interface SecretShare {
+  // Evaluation point, 1-255 (0 would be the secret itself)
+  x: number;
+  y: Uint8Array;
+}
+
+// Log and antilog tables for GF(2^8) with the AES polynomial x^8+x^4+x^3+x+1,
+// using 3 as the generator
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+(() => {
+  let value = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = value;
+    LOG[value] = i;
+    // value * 3 = value * 2 xor value, reducing by the polynomial on overflow
+    const doubled = value << 1;
+    value = (doubled ^ (doubled & 0x100 ? 0x11b : 0)) ^ value;
+  }
+  // Doubled so products can index EXP without a modulo
+  for (let i = 255; i < 510; i++) {
+    EXP[i] = EXP[i - 255];
+  }
+})();
+
+export class Shamir {
+  static readonly MAX_SHARES = 255;
+
+  private static multiply(a: number, b: number): number {
+    if (a === 0 || b === 0) return 0;
+    return EXP[LOG[a] + LOG[b]];
+  }
+
+  private static divide(a: number, b: number): number {
+    if (b === 0) throw new Error('Division by zero in GF(256)');
+    if (a === 0) return 0;
+    return EXP[LOG[a] + 255 - LOG[b]];
+  }
+
+  // Horner's rule; addition in GF(256) is xor
+  private static evaluate(coefficients: Uint8Array, x: number): number {
+    let result = 0;
+    for (let i = coefficients.length - 1; i >= 0; i--) {
+      result = this.multiply(result, x) ^ coefficients[i];
+    }
+    return result;
+  }
+
+  static split(secret: Uint8Array, shareCount: number, threshold: number): SecretShare[] {
+    if (!Number.isInteger(threshold) || threshold < 2) {
+      throw new Error('At least 2 shares must be required');
+    }
+    if (!Number.isInteger(shareCount) || shareCount < threshold || shareCount > this.MAX_SHARES) {
+      throw new Error(`Share count must be between the threshold and ${this.MAX_SHARES}`);
+    }
+
+    const shares: SecretShare[] = Array.from({ length: shareCount }, (_, i) => ({
+      x: i + 1,
+      y: new Uint8Array(secret.length)
+    }));
+
+    const coefficients = new Uint8Array(threshold);
+    for (let byteIndex = 0; byteIndex < secret.length; byteIndex++) {
+      coefficients[0] = secret[byteIndex];
+      crypto.getRandomValues(coefficients.subarray(1));
+      for (const share of shares) {
+        share.y[byteIndex] = this.evaluate(coefficients, share.x);
+      }
+    }
+    coefficients.fill(0);
+
+    return shares;
+  }
+
+  // Interpolates at 0. Given fewer shares than the threshold this still
+  // returns bytes, just not the secret, so callers must check the result.
+  static combine(shares: SecretShare[]): Uint8Array {
+    if (shares.length < 2) {
+      throw new Error('At least 2 shares are needed');
+    }
+
+    const length = shares[0].y.length;
+    const points = new Set<number>();
+    for (const share of shares) {
+      if (share.y.length !== length) throw new Error('Shares have different lengths');
+      if (share.x < 1 || share.x > this.MAX_SHARES) throw new Error('Invalid share number');
+      if (points.has(share.x)) throw new Error(`Share ${share.x} was entered twice`);
+      points.add(share.x);
+    }
+
+    const secret = new Uint8Array(length);
+    for (const share of shares) {
+      // Lagrange basis polynomial for this share, evaluated at 0
+      let basis = 1;
+      for (const other of shares) {
+        if (other.x === share.x) continue;
+        basis = this.multiply(basis, this.divide(other.x, other.x ^ share.x));
+      }
+      for (let byteIndex = 0; byteIndex < length; byteIndex++) {
+        secret[byteIndex] ^= this.multiply(share.y[byteIndex], basis);
+      }
+    }
+    return secret;
+  }
+}
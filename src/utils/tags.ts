@@ -0,0 +1,31 @@
+import { Credential } from '../types';
+
+// Free-form item labels. Tags are compared case-insensitively and keep the
+// spelling they were first entered with.
+export class Tags {
+  // Splits comma-separated input, dropping blanks and duplicates
+  static parse(input: string): string[] {
+    const tags: string[] = [];
+    for (const part of input.split(',')) {
+      const tag = part.trim();
+      if (tag && !tags.some(existing => existing.toLowerCase() === tag.toLowerCase())) {
+        tags.push(tag);
+      }
+    }
+    return tags;
+  }
+
+  static format(tags: string[] | undefined): string {
+    return (tags ?? []).join(', ');
+  }
+
+  static has(credential: Credential, tag: string): boolean {
+    return !!credential.tags?.some(existing => existing.toLowerCase() === tag.toLowerCase());
+  }
+
+  // Every tag in use across the given items, sorted
+  static collect(credentials: Credential[]): string[] {
+    return this.parse(credentials.flatMap(credential => credential.tags ?? []).join(','))
+      .sort((a, b) => a.localeCompare(b));
+  }
+}
@@ -0,0 +1,91 @@
+import { getDomain } from 'tldts';
+import { Credential, CredentialUri, UriMatchMode } from '../types';
+
+export const URI_MATCH_MODES: { match: UriMatchMode; label: string }[] = [
+  { match: 'base_domain', label: 'Base domain' },
+  { match: 'host', label: 'Host' },
+  { match: 'starts_with', label: 'Starts with' },
+  { match: 'regex', label: 'Regular expression' },
+  { match: 'never', label: 'Never' }
+];
+
+// Matches the websites saved on an item against a page URL
+export class UriMatcher {
+  // Saved URIs may leave out the scheme, e.g. "example.com/login"
+  static normalize(uri: string): string {
+    const trimmed = uri.trim();
+    if (!trimmed || /^[a-z][a-z0-9+.-]*:/i.test(trimmed)) return trimmed;
+    return `https://${trimmed}`;
+  }
+
+  static parse(uri: string): URL | null {
+    try {
+      return new URL(this.normalize(uri));
+    } catch {
+      return null;
+    }
+  }
+
+  // The registrable domain, so login.example.co.uk and www.example.co.uk
+  // share example.co.uk. Private suffixes count too, so alice.github.io and
+  // bob.github.io stay apart. IP addresses and hosts such as localhost have
+  // no public suffix and are kept as they are.
+  static getBaseDomain(hostname: string): string {
+    return getDomain(hostname, { allowPrivateDomains: true }) ?? hostname;
+  }
+
+  static isValidRegex(pattern: string): boolean {
+    try {
+      new RegExp(pattern);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  static matches(entry: CredentialUri, url: string): boolean {
+    const page = this.parse(url);
+    if (!page) return false;
+
+    switch (entry.match) {
+      case 'base_domain': {
+        const saved = this.parse(entry.uri);
+        return !!saved && !!saved.hostname &&
+          this.getBaseDomain(saved.hostname) === this.getBaseDomain(page.hostname);
+      }
+      case 'host': {
+        const saved = this.parse(entry.uri);
+        return !!saved && !!saved.host && saved.host === page.host;
+      }
+      case 'starts_with':
+        return !!entry.uri.trim() && page.href.startsWith(this.normalize(entry.uri));
+      case 'regex':
+        return this.isValidRegex(entry.uri) && new RegExp(entry.uri, 'i').test(page.href);
+      case 'never':
+        return false;
+    }
+  }
+
+  static matchesCredential(credential: Credential, url: string): boolean {
+    return !!credential.uris?.some(entry => this.matches(entry, url));
+  }
+
+  // The first saved website that can be opened in a browser tab. Regular
+  // expressions are patterns rather than addresses, and only http(s) is
+  // allowed so a saved javascript: URI can never run.
+  static getLaunchUrl(credential: Credential): string | null {
+    for (const entry of credential.uris ?? []) {
+      if (entry.match === 'regex') continue;
+      const url = this.parse(entry.uri);
+      if (url && (url.protocol === 'https:' || url.protocol === 'http:')) {
+        return url.href;
+      }
+    }
+    return null;
+  }
+
+  static getDisplayHost(credential: Credential): string | null {
+    const launchUrl = this.getLaunchUrl(credential);
+    return launchUrl ? new URL(launchUrl).hostname : null;
+  }
+}
@@ -0,0 +1,8 @@
+import effLargeWordlist from '../data/eff_large_wordlist.txt?raw';
+
+// EFF large wordlist (https://www.eff.org/dice), one "<dice roll>\t<word>"
+// entry per line. 7776 words, so each word adds log2(7776) ≈ 12.9 bits.
+export const EFF_WORDLIST: string[] = effLargeWordlist
+  .split('\n')
+  .map(line => line.trim().split('\t')[1])
+  .filter((word): word is string => Boolean(word));
@@ -0,0 +1,15 @@
+import { cryptoOperations, CryptoWorkerRequest, CryptoWorkerResponse } from './cryptoOperations';
+
+self.addEventListener('message', async (event: MessageEvent<CryptoWorkerRequest>) => {
+  const { id, operation, args } = event.data;
+  let response: CryptoWorkerResponse;
+
+  try {
+    const run = cryptoOperations[operation] as (...operationArgs: unknown[]) => Promise<unknown>;
+    response = { id, result: await run(...args) };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : 'Crypto operation failed' };
+  }
+
+  self.postMessage(response);
+});
@@ -0,0 +1,111 @@
+import { CryptoUtils } from '../utils/crypto';
+import { KdfParams } from '../types';
+
+export type DecryptResult = { plaintext: string } | { error: string };
+
+// An item encrypted either with the vault key directly, or with its own item
+// key that is itself encrypted (with the vault key, or to a user's public key)
+export interface EncryptedItem {
+  encryptedData: string;
+  encryptedItemKey: string | null;
+}
+
+// CryptoUtils calls that may run inside the crypto worker. Everything here
+// takes and returns structured-cloneable values (CryptoKey included).
+export const cryptoOperations = {
+  encrypt: (data: string, vaultKey: CryptoKey) => CryptoUtils.encrypt(data, vaultKey),
+
+  decrypt: (encryptedData: string, vaultKey: CryptoKey) => CryptoUtils.decrypt(encryptedData, vaultKey),
+
+  // Decrypts a batch in one round trip; a corrupted item fails on its own
+  // instead of rejecting the whole batch
+  decryptMany: async (items: EncryptedItem[], vaultKey: CryptoKey): Promise<DecryptResult[]> => {
+    const results: DecryptResult[] = [];
+    for (const { encryptedData, encryptedItemKey } of items) {
+      try {
+        const key = encryptedItemKey ? await CryptoUtils.unwrapItemKey(encryptedItemKey, vaultKey) : vaultKey;
+        results.push({ plaintext: await CryptoUtils.decrypt(encryptedData, key) });
+      } catch (error) {
+        results.push({ error: error instanceof Error ? error.message : 'Decryption failed' });
+      }
+    }
+    return results;
+  },
+
+  // Same for items shared with this user, whose keys are encrypted to their public key
+  decryptSharedMany: async (items: EncryptedItem[], privateKey: CryptoKey): Promise<DecryptResult[]> => {
+    const results: DecryptResult[] = [];
+    for (const { encryptedData, encryptedItemKey } of items) {
+      try {
+        if (!encryptedItemKey) throw new Error('Shared item has no key');
+        const itemKey = await CryptoUtils.decryptKeyWithPrivateKey(encryptedItemKey, privateKey);
+        results.push({ plaintext: await CryptoUtils.decrypt(encryptedData, itemKey) });
+      } catch (error) {
+        results.push({ error: error instanceof Error ? error.message : 'Decryption failed' });
+      }
+    }
+    return results;
+  },
+
+  encryptWithPassword: (data: string, monoPassword: string, kdfParams?: KdfParams) =>
+    CryptoUtils.encryptWithPassword(data, monoPassword, kdfParams),
+
+  decryptWithPassword: (encryptedData: string, monoPassword: string) =>
+    CryptoUtils.decryptWithPassword(encryptedData, monoPassword),
+
+  wrapVaultKey: (vaultKey: CryptoKey, monoPassword: string, kdfParams?: KdfParams) =>
+    CryptoUtils.wrapVaultKey(vaultKey, monoPassword, kdfParams),
+
+  unwrapVaultKey: (wrappedVaultKey: string, monoPassword: string) =>
+    CryptoUtils.unwrapVaultKey(wrappedVaultKey, monoPassword),
+
+  wrapVaultKeyWithRecoveryKey: (vaultKey: CryptoKey, recoveryKey: string) =>
+    CryptoUtils.wrapVaultKeyWithRecoveryKey(vaultKey, recoveryKey),
+
+  unwrapVaultKeyWithRecoveryKey: (wrappedVaultKey: string, recoveryKey: string) =>
+    CryptoUtils.unwrapVaultKeyWithRecoveryKey(wrappedVaultKey, recoveryKey),
+
+  wrapItemKey: (itemKey: CryptoKey, vaultKey: CryptoKey) => CryptoUtils.wrapItemKey(itemKey, vaultKey),
+
+  unwrapItemKey: (wrappedItemKey: string, vaultKey: CryptoKey) => CryptoUtils.unwrapItemKey(wrappedItemKey, vaultKey),
+
+  generateFileKey: () => CryptoUtils.generateFileKey(),
+
+  encryptChunk: (chunk: ArrayBuffer, encodedKey: string, additionalData: string) =>
+    CryptoUtils.encryptChunk(chunk, encodedKey, additionalData),
+
+  decryptChunk: (sealed: ArrayBuffer, encodedKey: string, additionalData: string) =>
+    CryptoUtils.decryptChunk(sealed, encodedKey, additionalData),
+
+  generateKeyPair: (vaultKey: CryptoKey) => CryptoUtils.generateKeyPair(vaultKey),
+
+  unwrapPrivateKey: (encryptedPrivateKey: string, vaultKey: CryptoKey) =>
+    CryptoUtils.unwrapPrivateKey(encryptedPrivateKey, vaultKey),
+
+  encryptKeyForPublicKey: (key: CryptoKey, publicKey: string) =>
+    CryptoUtils.encryptKeyForPublicKey(key, publicKey),
+
+  decryptKeyWithPrivateKey: (encryptedKey: string, privateKey: CryptoKey) =>
+    CryptoUtils.decryptKeyWithPrivateKey(encryptedKey, privateKey),
+
+  createMonoKeyVerifier: (monoPassword: string, kdfParams?: KdfParams) =>
+    CryptoUtils.createMonoKeyVerifier(monoPassword, kdfParams),
+
+  verifyMonoKey: (monoPassword: string, storedVerifier: string) =>
+    CryptoUtils.verifyMonoKey(monoPassword, storedVerifier),
+
+  calibrateKdf: (targetUnlockMs?: number) => CryptoUtils.calibrateKdf(targetUnlockMs)
+};
+
+export type CryptoOperations = typeof cryptoOperations;
+export type CryptoOperation = keyof CryptoOperations;
+
+export interface CryptoWorkerRequest {
+  id: number;
+  operation: CryptoOperation;
+  args: unknown[];
+}
+
+export type CryptoWorkerResponse =
+  | { id: number; result: unknown }
+  | { id: number; error: string };
@@ -0,0 +1,60 @@
+/*
+  # Atomic MonoKey rotation
+
+  1. New Functions
+    - `rotate_mono_key(new_mono_password_hash, reencrypted_credentials)`
+      - Replaces `encrypted_data` for every credential of the calling user
+      - Swaps `user_profiles.mono_password_hash` in the same transaction
+      - `reencrypted_credentials` is a JSON array of
+        `{ id, encrypted_data, updated_at }` objects produced client-side
+
+  2. Safety
+    - Runs as the invoking user, so existing RLS policies still apply
+    - Aborts if the payload does not cover every credential, or if any
+      credential changed since the client read it (stale `updated_at`)
+    - Nothing is written unless the whole vault is rotated, so an
+      interrupted rotation leaves the vault readable with the old MonoKey
+*/
+
+CREATE OR REPLACE FUNCTION rotate_mono_key(
+  new_mono_password_hash text,
+  reencrypted_credentials jsonb
+)
+RETURNS void AS $$
+DECLARE
+  expected_count integer;
+  updated_count integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT count(*) INTO expected_count
+  FROM public.credentials
+  WHERE user_id = auth.uid();
+
+  IF jsonb_array_length(reencrypted_credentials) <> expected_count THEN
+    RAISE EXCEPTION 'Vault changed during MonoKey rotation, please try again';
+  END IF;
+
+  UPDATE public.credentials AS c
+  SET encrypted_data = r.encrypted_data
+  FROM jsonb_to_recordset(reencrypted_credentials)
+    AS r(id uuid, encrypted_data text, updated_at timestamptz)
+  WHERE c.id = r.id
+    AND c.user_id = auth.uid()
+    AND c.updated_at = r.updated_at;
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+  IF updated_count <> expected_count THEN
+    RAISE EXCEPTION 'Vault changed during MonoKey rotation, please try again';
+  END IF;
+
+  UPDATE public.user_profiles
+  SET mono_password_hash = new_mono_password_hash
+  WHERE id = auth.uid();
+END;
+$$ language 'plpgsql' SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION rotate_mono_key(text, jsonb) TO authenticated;
@@ -0,0 +1,68 @@
+/*
+  # Vault key hierarchy
+
+  1. Schema Updates
+    - `user_profiles.wrapped_vault_key` (text, nullable)
+      - Random vault key encrypted under a key derived from the MonoKey
+      - NULL means the vault still uses the legacy per-record MonoKey format
+
+  2. Functions
+    - Replace `rotate_mono_key` with `reencrypt_vault`, which additionally
+      stores the wrapped vault key. It is used once per user to move legacy
+      `salt:iv:ciphertext` records under the vault key.
+    - Plain MonoKey changes no longer touch `credentials`; the client only
+      re-wraps the vault key with a single `user_profiles` update.
+
+  3. Safety
+    - Same guarantees as before: runs as the invoking user, aborts on a
+      stale or partial payload, and commits everything in one transaction
+*/
+
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS wrapped_vault_key text;
+
+DROP FUNCTION IF EXISTS rotate_mono_key(text, jsonb);
+
+CREATE OR REPLACE FUNCTION reencrypt_vault(
+  new_mono_password_hash text,
+  new_wrapped_vault_key text,
+  reencrypted_credentials jsonb
+)
+RETURNS void AS $$
+DECLARE
+  expected_count integer;
+  updated_count integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT count(*) INTO expected_count
+  FROM public.credentials
+  WHERE user_id = auth.uid();
+
+  IF jsonb_array_length(reencrypted_credentials) <> expected_count THEN
+    RAISE EXCEPTION 'Vault changed during re-encryption, please try again';
+  END IF;
+
+  UPDATE public.credentials AS c
+  SET encrypted_data = r.encrypted_data
+  FROM jsonb_to_recordset(reencrypted_credentials)
+    AS r(id uuid, encrypted_data text, updated_at timestamptz)
+  WHERE c.id = r.id
+    AND c.user_id = auth.uid()
+    AND c.updated_at = r.updated_at;
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+  IF updated_count <> expected_count THEN
+    RAISE EXCEPTION 'Vault changed during re-encryption, please try again';
+  END IF;
+
+  UPDATE public.user_profiles
+  SET mono_password_hash = new_mono_password_hash,
+      wrapped_vault_key = new_wrapped_vault_key
+  WHERE id = auth.uid();
+END;
+$$ language 'plpgsql' SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION reencrypt_vault(text, text, jsonb) TO authenticated;
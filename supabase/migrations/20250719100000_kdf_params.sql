@@ -0,0 +1,17 @@
+/*
+  # Per-user key derivation parameters
+
+  1. Schema Updates
+    - `user_profiles.kdf_params` (jsonb, nullable)
+      - Cost parameters used to derive keys from the MonoKey, e.g.
+        `{ "name": "Argon2id", "memoryKiB": 65536, "iterations": 3, "parallelism": 1 }`
+      - Chosen by calibration on the device where the MonoKey is set up
+      - NULL for users created before Argon2id; they are calibrated and
+        upgraded on their next successful unlock
+
+  2. Notes
+    - Every wrapped key and verifier also records the parameters and salt it
+      was produced with, so older blobs keep opening after a change
+*/
+
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS kdf_params jsonb;
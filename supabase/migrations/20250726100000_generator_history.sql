@@ -0,0 +1,16 @@
+/*
+  # Encrypted password generator history
+
+  1. Schema Updates
+    - `user_profiles.generator_history` (text, nullable)
+      - Recently generated passwords and passphrases, stored as one
+        ciphertext envelope encrypted with the user's vault key
+      - The client caps the list, so the blob stays small
+      - NULL when the history is empty or has been purged
+
+  2. Security
+    - Covered by the existing `user_profiles` RLS policies; the server only
+      ever sees ciphertext
+*/
+
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS generator_history text;
@@ -0,0 +1,68 @@
+/*
+  # Encrypt credential names and icons
+
+  1. Schema Updates
+    - `credentials.account_name` is now nullable and `credentials.icon` has no
+      default. New and edited rows keep both inside `encrypted_data` and leave
+      the plaintext columns NULL
+    - Rows written before this change still carry plaintext values; the
+      client moves them into the encrypted payload the first time it loads
+      the vault, then clears the columns. Nothing here can do that, since
+      the server never has the vault key
+
+  2. Functions
+    - `reencrypt_vault` also clears `account_name` and `icon`, because the
+      client now folds them into the re-encrypted payload
+
+  3. Notes
+    - The client only orders by `created_at` and filters locally, so the
+      server never needs the names in the clear
+*/
+
+ALTER TABLE credentials ALTER COLUMN account_name DROP NOT NULL;
+ALTER TABLE credentials ALTER COLUMN icon DROP DEFAULT;
+
+CREATE OR REPLACE FUNCTION reencrypt_vault(
+  new_mono_password_hash text,
+  new_wrapped_vault_key text,
+  reencrypted_credentials jsonb
+)
+RETURNS void AS $$
+DECLARE
+  expected_count integer;
+  updated_count integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT count(*) INTO expected_count
+  FROM public.credentials
+  WHERE user_id = auth.uid();
+
+  IF jsonb_array_length(reencrypted_credentials) <> expected_count THEN
+    RAISE EXCEPTION 'Vault changed during re-encryption, please try again';
+  END IF;
+
+  UPDATE public.credentials AS c
+  SET encrypted_data = r.encrypted_data,
+      account_name = NULL,
+      icon = NULL
+  FROM jsonb_to_recordset(reencrypted_credentials)
+    AS r(id uuid, encrypted_data text, updated_at timestamptz)
+  WHERE c.id = r.id
+    AND c.user_id = auth.uid()
+    AND c.updated_at = r.updated_at;
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+  IF updated_count <> expected_count THEN
+    RAISE EXCEPTION 'Vault changed during re-encryption, please try again';
+  END IF;
+
+  UPDATE public.user_profiles
+  SET mono_password_hash = new_mono_password_hash,
+      wrapped_vault_key = new_wrapped_vault_key
+  WHERE id = auth.uid();
+END;
+$$ language 'plpgsql' SECURITY INVOKER;
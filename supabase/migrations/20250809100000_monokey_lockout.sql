@@ -0,0 +1,167 @@
+/*
+  # Persistent MonoKey lockout and security log
+
+  1. New Tables
+    - `monokey_lockouts`
+      - `user_id` (uuid, primary key, references user_profiles)
+      - `failed_attempts` (integer) - consecutive wrong MonoKey entries
+      - `locked_until` (timestamptz, nullable) - no attempts before this time
+      - `last_failed_at` (timestamptz, nullable)
+    - `security_events`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references user_profiles)
+      - `event_type` (text) - e.g. `monokey_failed`, `monokey_unlocked`
+      - `details` (jsonb)
+      - `user_agent` (text, nullable) - the browser that reported the event
+      - `created_at` (timestamptz)
+
+  2. New Functions
+    - `get_monokey_lockout()` returns `{ failed_attempts, retry_after_seconds }`
+      for the calling user. The wait is computed on the server so client
+      clocks do not matter
+    - `record_monokey_failure(client_user_agent)` counts a wrong MonoKey,
+      locks further attempts with exponential backoff and logs the event
+    - `reset_monokey_attempts()` clears the counter after a correct MonoKey,
+      but never while a lockout is still running
+
+  3. Backoff
+    - The first 2 failures are free; the 3rd locks for 30 seconds and every
+      further failure doubles the wait, up to 1 hour
+    - The count restarts once 24 hours pass without a failure
+
+  4. Security
+    - Both tables are read-only for their owner; rows are written only by
+      the SECURITY DEFINER functions above, so a client cannot reset its own
+      lockout or rewrite its log
+    - The MonoKey is still verified client-side, so this limits attempts
+      made through the app and shares the count across devices. It does not
+      replace a strong MonoKey and KDF against offline attacks
+*/
+
+CREATE TABLE IF NOT EXISTS monokey_lockouts (
+  user_id uuid PRIMARY KEY REFERENCES user_profiles(id) ON DELETE CASCADE,
+  failed_attempts integer NOT NULL DEFAULT 0,
+  locked_until timestamptz,
+  last_failed_at timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS security_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  event_type text NOT NULL,
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  user_agent text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS security_events_user_id_created_at_idx
+  ON security_events(user_id, created_at DESC);
+
+ALTER TABLE monokey_lockouts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE security_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own MonoKey lockout"
+  ON monokey_lockouts
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can read own security events"
+  ON security_events
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION get_monokey_lockout()
+RETURNS jsonb AS $$
+DECLARE
+  lockout public.monokey_lockouts%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO lockout
+  FROM public.monokey_lockouts
+  WHERE user_id = auth.uid();
+
+  RETURN jsonb_build_object(
+    'failed_attempts', coalesce(lockout.failed_attempts, 0),
+    'retry_after_seconds', coalesce(greatest(0, ceil(extract(epoch FROM lockout.locked_until - now())))::integer, 0)
+  );
+END;
+$$ language 'plpgsql' SECURITY INVOKER;
+
+CREATE OR REPLACE FUNCTION record_monokey_failure(client_user_agent text DEFAULT NULL)
+RETURNS jsonb AS $$
+DECLARE
+  free_attempts constant integer := 2;
+  attempts integer;
+  until timestamptz;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.monokey_lockouts AS l (user_id, failed_attempts, last_failed_at)
+  VALUES (auth.uid(), 1, now())
+  ON CONFLICT (user_id) DO UPDATE
+  SET failed_attempts = CASE
+        WHEN l.last_failed_at < now() - interval '24 hours' THEN 1
+        ELSE l.failed_attempts + 1
+      END,
+      last_failed_at = now()
+  RETURNING failed_attempts INTO attempts;
+
+  IF attempts > free_attempts THEN
+    until := now() + least(
+      interval '30 seconds' * power(2, attempts - free_attempts - 1),
+      interval '1 hour'
+    );
+  END IF;
+
+  UPDATE public.monokey_lockouts
+  SET locked_until = until
+  WHERE user_id = auth.uid();
+
+  INSERT INTO public.security_events (user_id, event_type, details, user_agent)
+  VALUES (
+    auth.uid(),
+    'monokey_failed',
+    jsonb_build_object('failed_attempts', attempts, 'locked_until', until),
+    left(client_user_agent, 512)
+  );
+
+  RETURN public.get_monokey_lockout();
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION reset_monokey_attempts(client_user_agent text DEFAULT NULL)
+RETURNS void AS $$
+DECLARE
+  attempts integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  DELETE FROM public.monokey_lockouts
+  WHERE user_id = auth.uid()
+    AND (locked_until IS NULL OR locked_until <= now())
+  RETURNING failed_attempts INTO attempts;
+
+  IF attempts > 0 THEN
+    INSERT INTO public.security_events (user_id, event_type, details, user_agent)
+    VALUES (
+      auth.uid(),
+      'monokey_unlocked',
+      jsonb_build_object('failed_attempts', attempts),
+      left(client_user_agent, 512)
+    );
+  END IF;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_monokey_lockout() TO authenticated;
+GRANT EXECUTE ON FUNCTION record_monokey_failure(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION reset_monokey_attempts(text) TO authenticated;
@@ -0,0 +1,84 @@
+/*
+  # Recovery key for forgotten MonoKeys
+
+  1. Schema Updates
+    - `user_profiles.recovery_wrapped_vault_key` (text, nullable)
+      - The vault key wrapped with a key derived from the user's recovery
+        key, in the same ciphertext envelope as `wrapped_vault_key`
+      - NULL until the user creates a recovery key
+    - `user_profiles.recovery_key_created_at` (timestamptz, nullable)
+
+  2. New Functions
+    - `set_recovery_key(new_recovery_wrapped_vault_key, client_user_agent)`
+      stores a new recovery wrap, which revokes the previous recovery key,
+      and logs `recovery_key_created`
+    - `recover_mono_key(...)` replaces the MonoKey verifier, the MonoKey wrap
+      of the vault key, the KDF parameters and the recovery wrap in one
+      transaction, clears any MonoKey lockout, and logs `monokey_recovered`
+
+  3. Security
+    - The recovery key never reaches the server. Only the client can check it,
+      by unwrapping the vault key; the server just stores the new wraps
+    - Both functions only touch the caller's own profile
+*/
+
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS recovery_wrapped_vault_key text;
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS recovery_key_created_at timestamptz;
+
+CREATE OR REPLACE FUNCTION set_recovery_key(
+  new_recovery_wrapped_vault_key text,
+  client_user_agent text DEFAULT NULL
+)
+RETURNS void AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.user_profiles
+  SET recovery_wrapped_vault_key = new_recovery_wrapped_vault_key,
+      recovery_key_created_at = now()
+  WHERE id = auth.uid();
+
+  INSERT INTO public.security_events (user_id, event_type, user_agent)
+  VALUES (auth.uid(), 'recovery_key_created', left(client_user_agent, 512));
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION recover_mono_key(
+  new_mono_password_hash text,
+  new_wrapped_vault_key text,
+  new_kdf_params jsonb,
+  new_recovery_wrapped_vault_key text,
+  client_user_agent text DEFAULT NULL
+)
+RETURNS void AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.user_profiles
+  SET mono_password_hash = new_mono_password_hash,
+      wrapped_vault_key = new_wrapped_vault_key,
+      kdf_params = new_kdf_params,
+      recovery_wrapped_vault_key = new_recovery_wrapped_vault_key,
+      recovery_key_created_at = now()
+  WHERE id = auth.uid()
+    AND recovery_wrapped_vault_key IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No recovery key is set up for this account';
+  END IF;
+
+  -- Unlike reset_monokey_attempts this ignores a running lockout, which is
+  -- often why the user is recovering
+  DELETE FROM public.monokey_lockouts WHERE user_id = auth.uid();
+
+  INSERT INTO public.security_events (user_id, event_type, user_agent)
+  VALUES (auth.uid(), 'monokey_recovered', left(client_user_agent, 512));
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION set_recovery_key(text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION recover_mono_key(text, text, jsonb, text, text) TO authenticated;
@@ -0,0 +1,139 @@
+/*
+  # Recovery shares for trusted contacts
+
+  1. Schema Updates
+    - `user_profiles.recovery_share_threshold` (integer, nullable)
+    - `user_profiles.recovery_share_count` (integer, nullable)
+      - Set when the recovery key was split with Shamir secret sharing
+        instead of being handed out as a single sheet. The shares themselves
+        are never stored; only how many exist and how many are needed
+
+  2. New Functions
+    - `set_recovery_shares(new_recovery_wrapped_vault_key, share_threshold,
+      share_count, client_user_agent)` stores the wrap for a freshly split
+      recovery key. This revokes the previous recovery key or share set, and
+      logs `recovery_shares_created`
+    - `revoke_recovery(client_user_agent)` removes the recovery wrap, so no
+      recovery key or share set works any more, and logs `recovery_revoked`
+
+  3. Updated Functions
+    - `set_recovery_key` and `recover_mono_key` clear the share columns,
+      since both leave a single recovery key in place
+*/
+
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS recovery_share_threshold integer;
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS recovery_share_count integer;
+
+CREATE OR REPLACE FUNCTION set_recovery_shares(
+  new_recovery_wrapped_vault_key text,
+  share_threshold integer,
+  share_count integer,
+  client_user_agent text DEFAULT NULL
+)
+RETURNS void AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF share_threshold < 2 OR share_count < share_threshold OR share_count > 255 THEN
+    RAISE EXCEPTION 'Invalid share settings';
+  END IF;
+
+  UPDATE public.user_profiles
+  SET recovery_wrapped_vault_key = new_recovery_wrapped_vault_key,
+      recovery_key_created_at = now(),
+      recovery_share_threshold = share_threshold,
+      recovery_share_count = share_count
+  WHERE id = auth.uid();
+
+  INSERT INTO public.security_events (user_id, event_type, details, user_agent)
+  VALUES (
+    auth.uid(),
+    'recovery_shares_created',
+    jsonb_build_object('threshold', share_threshold, 'share_count', share_count),
+    left(client_user_agent, 512)
+  );
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION revoke_recovery(client_user_agent text DEFAULT NULL)
+RETURNS void AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.user_profiles
+  SET recovery_wrapped_vault_key = NULL,
+      recovery_key_created_at = NULL,
+      recovery_share_threshold = NULL,
+      recovery_share_count = NULL
+  WHERE id = auth.uid();
+
+  INSERT INTO public.security_events (user_id, event_type, user_agent)
+  VALUES (auth.uid(), 'recovery_revoked', left(client_user_agent, 512));
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION set_recovery_key(
+  new_recovery_wrapped_vault_key text,
+  client_user_agent text DEFAULT NULL
+)
+RETURNS void AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.user_profiles
+  SET recovery_wrapped_vault_key = new_recovery_wrapped_vault_key,
+      recovery_key_created_at = now(),
+      recovery_share_threshold = NULL,
+      recovery_share_count = NULL
+  WHERE id = auth.uid();
+
+  INSERT INTO public.security_events (user_id, event_type, user_agent)
+  VALUES (auth.uid(), 'recovery_key_created', left(client_user_agent, 512));
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION recover_mono_key(
+  new_mono_password_hash text,
+  new_wrapped_vault_key text,
+  new_kdf_params jsonb,
+  new_recovery_wrapped_vault_key text,
+  client_user_agent text DEFAULT NULL
+)
+RETURNS void AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.user_profiles
+  SET mono_password_hash = new_mono_password_hash,
+      wrapped_vault_key = new_wrapped_vault_key,
+      kdf_params = new_kdf_params,
+      recovery_wrapped_vault_key = new_recovery_wrapped_vault_key,
+      recovery_key_created_at = now(),
+      recovery_share_threshold = NULL,
+      recovery_share_count = NULL
+  WHERE id = auth.uid()
+    AND recovery_wrapped_vault_key IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No recovery key is set up for this account';
+  END IF;
+
+  -- Unlike reset_monokey_attempts this ignores a running lockout, which is
+  -- often why the user is recovering
+  DELETE FROM public.monokey_lockouts WHERE user_id = auth.uid();
+
+  INSERT INTO public.security_events (user_id, event_type, user_agent)
+  VALUES (auth.uid(), 'monokey_recovered', left(client_user_agent, 512));
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION set_recovery_shares(text, integer, integer, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_recovery(text) TO authenticated;
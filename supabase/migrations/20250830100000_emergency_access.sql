@@ -0,0 +1,317 @@
+/*
+  # Emergency access
+
+  1. Schema Updates
+    - `user_profiles.public_key` (text, nullable) - RSA-OAEP public key (SPKI, base64)
+    - `user_profiles.encrypted_private_key` (text, nullable) - the matching
+      private key, encrypted with the user's vault key
+      - Created on first unlock; lets other users encrypt keys to this user
+
+  2. New Tables
+    - `emergency_access`
+      - `id` (uuid, primary key)
+      - `grantor_id` (uuid, references user_profiles) - the vault owner
+      - `grantor_email` (text)
+      - `grantee_id` (uuid, nullable, references user_profiles) - set on accept
+      - `grantee_email` (text) - the invited contact
+      - `wait_days` (integer) - how long the owner has to deny a request
+      - `status` (text) - `invited`, `accepted`, `confirmed`,
+        `recovery_requested` or `recovery_approved`
+      - `recovery_initiated_at` (timestamptz, nullable)
+      - `created_at`, `updated_at` (timestamptz)
+    - `emergency_access_keys`
+      - `access_id` (uuid, primary key, references emergency_access)
+      - `encrypted_vault_key` (text) - the owner's vault key, encrypted to
+        the contact's public key when the owner confirmed them
+
+  3. New Functions
+    - `get_public_key(target_user_id)` returns a user's public key
+    - `invite_emergency_contact(contact_email, contact_wait_days)`
+    - `accept_emergency_access(access_id)` - contact, matched by email
+    - `confirm_emergency_access(access_id, contact_encrypted_vault_key)` - owner
+    - `request_emergency_access(access_id)` - contact starts the wait
+    - `approve_emergency_access(access_id)` - owner ends the wait early
+    - `deny_emergency_access(access_id)` - owner cancels a request
+    - `get_emergency_access_key(access_id)` - contact, once access is granted
+    - `has_emergency_access(owner_id)` - true while the caller holds
+      granted access to that owner's vault
+
+  4. Security
+    - Both tables are written only through the functions above. Either side
+      can read and delete their own `emergency_access` rows; nobody can read
+      `emergency_access_keys` directly
+    - Access is granted once the owner approves, or once `wait_days` pass
+      after a request without the owner denying it. The encrypted vault key
+      is stored up front, so the owner does not need to be online then
+    - A granted contact can read the owner's credentials but not change
+      them. Requests, approvals and denials are logged to the owner's
+      security log
+*/
+
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS public_key text;
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS encrypted_private_key text;
+
+CREATE TABLE IF NOT EXISTS emergency_access (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  grantor_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  grantor_email text NOT NULL,
+  grantee_id uuid REFERENCES user_profiles(id) ON DELETE CASCADE,
+  grantee_email text NOT NULL,
+  wait_days integer NOT NULL CHECK (wait_days BETWEEN 1 AND 90),
+  status text NOT NULL DEFAULT 'invited'
+    CHECK (status IN ('invited', 'accepted', 'confirmed', 'recovery_requested', 'recovery_approved')),
+  recovery_initiated_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (grantor_id, grantee_email)
+);
+
+CREATE TABLE IF NOT EXISTS emergency_access_keys (
+  access_id uuid PRIMARY KEY REFERENCES emergency_access(id) ON DELETE CASCADE,
+  encrypted_vault_key text NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS emergency_access_grantee_id_idx ON emergency_access(grantee_id);
+CREATE INDEX IF NOT EXISTS emergency_access_grantee_email_idx ON emergency_access(lower(grantee_email));
+
+ALTER TABLE emergency_access ENABLE ROW LEVEL SECURITY;
+ALTER TABLE emergency_access_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own emergency access"
+  ON emergency_access
+  FOR SELECT
+  TO authenticated
+  USING (
+    grantor_id = auth.uid()
+    OR grantee_id = auth.uid()
+    OR (grantee_id IS NULL AND lower(grantee_email) = lower(auth.jwt() ->> 'email'))
+  );
+
+CREATE POLICY "Users can delete own emergency access"
+  ON emergency_access
+  FOR DELETE
+  TO authenticated
+  USING (
+    grantor_id = auth.uid()
+    OR grantee_id = auth.uid()
+    OR (grantee_id IS NULL AND lower(grantee_email) = lower(auth.jwt() ->> 'email'))
+  );
+
+CREATE TRIGGER update_emergency_access_updated_at
+  BEFORE UPDATE ON emergency_access
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION get_public_key(target_user_id uuid)
+RETURNS text AS $$
+  SELECT public_key FROM public.user_profiles WHERE id = target_user_id;
+$$ language 'sql' STABLE SECURITY DEFINER SET search_path = public;
+
+-- Granted once the owner approves, or once the wait passes without a denial
+CREATE OR REPLACE FUNCTION emergency_access_granted(access public.emergency_access)
+RETURNS boolean AS $$
+  SELECT access.status = 'recovery_approved'
+    OR (access.status = 'recovery_requested'
+        AND access.recovery_initiated_at + make_interval(days => access.wait_days) <= now());
+$$ language 'sql' STABLE;
+
+CREATE OR REPLACE FUNCTION has_emergency_access(owner_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.emergency_access access
+    WHERE access.grantor_id = owner_id
+      AND access.grantee_id = auth.uid()
+      AND public.emergency_access_granted(access)
+  );
+$$ language 'sql' STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Emergency contacts can read granted credentials"
+  ON credentials
+  FOR SELECT
+  TO authenticated
+  USING (has_emergency_access(user_id));
+
+CREATE OR REPLACE FUNCTION invite_emergency_contact(contact_email text, contact_wait_days integer)
+RETURNS uuid AS $$
+DECLARE
+  new_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF lower(contact_email) = lower(auth.jwt() ->> 'email') THEN
+    RAISE EXCEPTION 'You cannot add yourself as an emergency contact';
+  END IF;
+
+  INSERT INTO public.emergency_access (grantor_id, grantor_email, grantee_email, wait_days)
+  VALUES (auth.uid(), auth.jwt() ->> 'email', lower(trim(contact_email)), contact_wait_days)
+  RETURNING id INTO new_id;
+
+  INSERT INTO public.security_events (user_id, event_type, details)
+  VALUES (auth.uid(), 'emergency_contact_invited', jsonb_build_object('contact', lower(trim(contact_email)), 'wait_days', contact_wait_days));
+
+  RETURN new_id;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION accept_emergency_access(access_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.emergency_access
+  SET grantee_id = auth.uid(),
+      status = 'accepted'
+  WHERE id = access_id
+    AND status = 'invited'
+    AND lower(grantee_email) = lower(auth.jwt() ->> 'email');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Emergency access invitation not found';
+  END IF;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION confirm_emergency_access(access_id uuid, contact_encrypted_vault_key text)
+RETURNS void AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.emergency_access
+  SET status = 'confirmed'
+  WHERE id = access_id
+    AND grantor_id = auth.uid()
+    AND status = 'accepted';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Emergency contact has not accepted yet';
+  END IF;
+
+  INSERT INTO public.emergency_access_keys (access_id, encrypted_vault_key)
+  VALUES (confirm_emergency_access.access_id, contact_encrypted_vault_key);
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION request_emergency_access(access_id uuid, client_user_agent text DEFAULT NULL)
+RETURNS void AS $$
+DECLARE
+  access public.emergency_access%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.emergency_access
+  SET status = 'recovery_requested',
+      recovery_initiated_at = now()
+  WHERE id = access_id
+    AND grantee_id = auth.uid()
+    AND status = 'confirmed'
+  RETURNING * INTO access;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Emergency access is not available to request';
+  END IF;
+
+  INSERT INTO public.security_events (user_id, event_type, details, user_agent)
+  VALUES (
+    access.grantor_id,
+    'emergency_access_requested',
+    jsonb_build_object('contact', access.grantee_email, 'wait_days', access.wait_days),
+    left(client_user_agent, 512)
+  );
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION approve_emergency_access(access_id uuid)
+RETURNS void AS $$
+DECLARE
+  access public.emergency_access%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.emergency_access
+  SET status = 'recovery_approved'
+  WHERE id = access_id
+    AND grantor_id = auth.uid()
+    AND status = 'recovery_requested'
+  RETURNING * INTO access;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pending emergency access request';
+  END IF;
+
+  INSERT INTO public.security_events (user_id, event_type, details)
+  VALUES (auth.uid(), 'emergency_access_approved', jsonb_build_object('contact', access.grantee_email));
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+-- Also revokes access that was already granted, sending the contact back to
+-- the confirmed state so they would have to wait again
+CREATE OR REPLACE FUNCTION deny_emergency_access(access_id uuid)
+RETURNS void AS $$
+DECLARE
+  access public.emergency_access%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.emergency_access
+  SET status = 'confirmed',
+      recovery_initiated_at = NULL
+  WHERE id = access_id
+    AND grantor_id = auth.uid()
+    AND status IN ('recovery_requested', 'recovery_approved')
+  RETURNING * INTO access;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No emergency access request to deny';
+  END IF;
+
+  INSERT INTO public.security_events (user_id, event_type, details)
+  VALUES (auth.uid(), 'emergency_access_denied', jsonb_build_object('contact', access.grantee_email));
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_emergency_access_key(access_id uuid)
+RETURNS text AS $$
+DECLARE
+  access public.emergency_access%ROWTYPE;
+  wrapped_key text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO access FROM public.emergency_access
+  WHERE id = access_id AND grantee_id = auth.uid();
+
+  IF NOT FOUND OR NOT public.emergency_access_granted(access) THEN
+    RAISE EXCEPTION 'Emergency access has not been granted';
+  END IF;
+
+  SELECT encrypted_vault_key INTO wrapped_key
+  FROM public.emergency_access_keys
+  WHERE emergency_access_keys.access_id = access.id;
+
+  RETURN wrapped_key;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_public_key(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION has_emergency_access(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION invite_emergency_contact(text, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION accept_emergency_access(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION confirm_emergency_access(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION request_emergency_access(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION approve_emergency_access(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION deny_emergency_access(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_emergency_access_key(uuid) TO authenticated;
@@ -0,0 +1,260 @@
+/*
+  # Credential sharing
+
+  1. Schema Updates
+    - `credentials.encrypted_item_key` (text, nullable)
+      - A per-item AES key, encrypted with the owner's vault key. Set once a
+        credential is shared; `encrypted_data` is then encrypted with this
+        key instead of the vault key, so it can be handed to other users
+        without giving away the vault key
+
+  2. New Tables
+    - `shared_credentials`
+      - `id` (uuid, primary key)
+      - `credential_id` (uuid, references credentials)
+      - `owner_id` (uuid, references user_profiles)
+      - `owner_email` (text)
+      - `recipient_id` (uuid, references user_profiles)
+      - `recipient_email` (text)
+      - `encrypted_item_key` (text) - the item key encrypted to the
+        recipient's public key
+      - `can_edit` (boolean) - whether the recipient may change the item
+      - `created_at` (timestamptz)
+
+  3. New Functions
+    - `find_user_public_key(lookup_email)` returns `{ user_id, public_key }`
+      for an account with that email that has a keypair, or null
+    - `share_credential(target_credential_id, recipient_user_id,
+      recipient_encrypted_item_key, allow_edit)` - owner only; sharing the
+      same item again updates the key and permission
+    - `update_share_permission(target_share_id, allow_edit)` - owner only;
+      changes nothing but `can_edit`
+    - `update_shared_credential(target_credential_id, new_encrypted_data,
+      used_encrypted_item_key)` - recipients with edit permission; rejected
+      if the item was re-keyed after the recipient read their item key
+    - `rotate_credential_key(target_credential_id, expected_updated_at,
+      new_encrypted_data, new_encrypted_item_key, recipient_keys)` - owner
+      only; re-keys an item and updates every share listed in
+      `recipient_keys` in the same transaction. Shares left out, such as one
+      being revoked, are deleted. Aborts if the item changed after
+      `expected_updated_at`
+
+  4. Security
+    - Owners and recipients can read their own shares and either side can
+      delete one. Shares are only written through the functions above, so
+      an owner cannot point a share at someone else's credential
+    - Recipients can read shared credentials whose owner created the share.
+      They can only change one through `update_shared_credential`, which
+      touches nothing but `encrypted_data`
+*/
+
+ALTER TABLE credentials ADD COLUMN IF NOT EXISTS encrypted_item_key text;
+
+CREATE TABLE IF NOT EXISTS shared_credentials (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  credential_id uuid NOT NULL REFERENCES credentials(id) ON DELETE CASCADE,
+  owner_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  owner_email text NOT NULL,
+  recipient_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  recipient_email text NOT NULL,
+  encrypted_item_key text NOT NULL,
+  can_edit boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (credential_id, recipient_id)
+);
+
+CREATE INDEX IF NOT EXISTS shared_credentials_recipient_id_idx ON shared_credentials(recipient_id);
+
+ALTER TABLE shared_credentials ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own shares"
+  ON shared_credentials
+  FOR SELECT
+  TO authenticated
+  USING (owner_id = auth.uid() OR recipient_id = auth.uid());
+
+CREATE POLICY "Users can delete own shares"
+  ON shared_credentials
+  FOR DELETE
+  TO authenticated
+  USING (owner_id = auth.uid() OR recipient_id = auth.uid());
+
+CREATE POLICY "Recipients can read shared credentials"
+  ON credentials
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM shared_credentials
+      WHERE shared_credentials.credential_id = credentials.id
+        AND shared_credentials.owner_id = credentials.user_id
+        AND shared_credentials.recipient_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION find_user_public_key(lookup_email text)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object('user_id', profile.id, 'public_key', profile.public_key)
+  FROM auth.users account
+  JOIN public.user_profiles profile ON profile.id = account.id
+  WHERE lower(account.email) = lower(trim(lookup_email))
+    AND profile.public_key IS NOT NULL;
+$$ language 'sql' STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION share_credential(
+  target_credential_id uuid,
+  recipient_user_id uuid,
+  recipient_encrypted_item_key text,
+  allow_edit boolean
+)
+RETURNS void AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF recipient_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot share a credential with yourself';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.credentials
+    WHERE id = target_credential_id
+      AND user_id = auth.uid()
+      AND encrypted_item_key IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Credential not found';
+  END IF;
+
+  INSERT INTO public.shared_credentials (
+    credential_id, owner_id, owner_email, recipient_id, recipient_email, encrypted_item_key, can_edit
+  )
+  SELECT target_credential_id, auth.uid(), auth.jwt() ->> 'email', account.id, account.email,
+         recipient_encrypted_item_key, allow_edit
+  FROM auth.users account
+  WHERE account.id = recipient_user_id
+  ON CONFLICT (credential_id, recipient_id) DO UPDATE
+    SET encrypted_item_key = EXCLUDED.encrypted_item_key,
+        can_edit = EXCLUDED.can_edit;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION update_share_permission(target_share_id uuid, allow_edit boolean)
+RETURNS void AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.shared_credentials
+  SET can_edit = allow_edit
+  WHERE id = target_share_id
+    AND owner_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Share not found';
+  END IF;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION update_shared_credential(
+  target_credential_id uuid,
+  new_encrypted_data text,
+  used_encrypted_item_key text
+)
+RETURNS void AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Taken before the key check, so a concurrent re-key either waits for this
+  -- edit (and then sees updated_at change) or has already replaced the key
+  PERFORM 1 FROM public.credentials WHERE id = target_credential_id FOR UPDATE;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.shared_credentials share
+    JOIN public.credentials credential ON credential.id = share.credential_id
+    WHERE share.credential_id = target_credential_id
+      AND share.owner_id = credential.user_id
+      AND share.recipient_id = auth.uid()
+      AND share.can_edit
+  ) THEN
+    RAISE EXCEPTION 'You do not have permission to edit this credential';
+  END IF;
+
+  -- Data encrypted with a replaced item key would be unreadable to everyone
+  IF NOT EXISTS (
+    SELECT 1 FROM public.shared_credentials
+    WHERE credential_id = target_credential_id
+      AND recipient_id = auth.uid()
+      AND encrypted_item_key = used_encrypted_item_key
+  ) THEN
+    RAISE EXCEPTION 'Credential changed while you were editing it, please try again';
+  END IF;
+
+  UPDATE public.credentials
+  SET encrypted_data = new_encrypted_data
+  WHERE id = target_credential_id;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+-- recipient_keys: [{ "share_id": uuid, "encrypted_item_key": text }, ...]
+CREATE OR REPLACE FUNCTION rotate_credential_key(
+  target_credential_id uuid,
+  expected_updated_at timestamptz,
+  new_encrypted_data text,
+  new_encrypted_item_key text,
+  recipient_keys jsonb
+)
+RETURNS void AS $$
+DECLARE
+  recipient_key jsonb;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.credentials
+    WHERE id = target_credential_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Credential not found';
+  END IF;
+
+  -- An edit since the item was read would be lost, or written with the old key
+  UPDATE public.credentials
+  SET encrypted_data = new_encrypted_data,
+      encrypted_item_key = new_encrypted_item_key
+  WHERE id = target_credential_id
+    AND user_id = auth.uid()
+    AND updated_at = expected_updated_at;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Credential changed during re-keying, please try again';
+  END IF;
+
+  FOR recipient_key IN SELECT * FROM jsonb_array_elements(recipient_keys)
+  LOOP
+    UPDATE public.shared_credentials
+    SET encrypted_item_key = recipient_key->>'encrypted_item_key'
+    WHERE id = (recipient_key->>'share_id')::uuid
+      AND credential_id = target_credential_id
+      AND owner_id = auth.uid();
+  END LOOP;
+
+  -- A share without a new key would be left holding the old one
+  DELETE FROM public.shared_credentials
+  WHERE credential_id = target_credential_id
+    AND owner_id = auth.uid()
+    AND id NOT IN (
+      SELECT (value->>'share_id')::uuid FROM jsonb_array_elements(recipient_keys)
+    );
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION find_user_public_key(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION share_credential(uuid, uuid, text, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_share_permission(uuid, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_shared_credential(uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION rotate_credential_key(uuid, timestamptz, text, text, jsonb) TO authenticated;
@@ -0,0 +1,520 @@
+/*
+  # Organizations and collections
+
+  1. New Tables
+    - `organizations`
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `created_at` (timestamptz)
+    - `organization_members`
+      - `id` (uuid, primary key)
+      - `organization_id` (uuid, references organizations)
+      - `user_id` (uuid, references user_profiles)
+      - `email` (text)
+      - `role` (text) - `owner`, `admin`, `member` or `read_only`
+      - `created_at` (timestamptz)
+    - `collections`
+      - `id` (uuid, primary key)
+      - `organization_id` (uuid, references organizations)
+      - `encrypted_name` (text) - encrypted with the collection key
+      - `created_at` (timestamptz)
+    - `collection_keys`
+      - `collection_id` (uuid, references collections)
+      - `member_id` (uuid, references organization_members)
+      - `user_id` (uuid, references user_profiles)
+      - `encrypted_key` (text) - the collection key, encrypted to the
+        member's public key
+
+  2. Schema Updates
+    - `credentials.collection_id` (uuid, nullable, references collections)
+      - Set for organization items, whose `encrypted_data` is encrypted
+        with the collection key. `user_id` records who created the item
+
+  3. New Functions
+    - `organization_role(target_organization_id)` - the caller's role, or null
+    - `collection_role(target_collection_id)` - the caller's role in the
+      collection's organization, or null if they hold no key for it
+    - `create_organization(org_name, collection_encrypted_name, owner_encrypted_key)`
+      - creates the organization with the caller as owner and a first collection
+    - `add_organization_member(target_organization_id, member_user_id,
+      member_role, member_keys)` - owners and admins; `member_keys` holds the
+      new member's copy of each collection key
+    - `update_organization_member_role(target_member_id, new_role)`
+    - `remove_organization_member(target_member_id, rotated_collections)` -
+      owners and admins, or a member leaving. When someone else is removed,
+      `rotated_collections` moves every collection to a new key: its name,
+      items and the remaining members' copies of the key are replaced in the
+      same transaction
+    - `create_collection(target_organization_id, collection_encrypted_name,
+      member_keys)` - owners and admins
+
+  4. Security
+    - Members can read their organization, its members and collections, and
+      their own collection keys
+    - Owners manage everything; admins manage members other than owners and
+      collections; members can add, change and delete items; read-only
+      members can only read them
+    - An organization always keeps at least one owner
+    - A removed member's old collection keys cannot decrypt anything written
+      after their removal. Key rotation aborts if a collection, item or
+      member changed while the caller was preparing it
+    - Personal credential policies now apply only to rows outside a
+      collection, so a creator who is later made read-only or removed
+      cannot keep editing organization items through them
+    - An organization item's `collection_id`, `user_id` and
+      `encrypted_item_key` cannot change once it is saved, so members can
+      only rewrite its contents, not move it to a collection whose key
+      cannot decrypt it
+*/
+
+CREATE TABLE IF NOT EXISTS organizations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS organization_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  role text NOT NULL CHECK (role IN ('owner', 'admin', 'member', 'read_only')),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (organization_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS organization_members_user_id_idx ON organization_members(user_id);
+
+CREATE TABLE IF NOT EXISTS collections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  encrypted_name text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS collection_keys (
+  collection_id uuid NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+  member_id uuid NOT NULL REFERENCES organization_members(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  encrypted_key text NOT NULL,
+  PRIMARY KEY (collection_id, user_id)
+);
+
+ALTER TABLE credentials ADD COLUMN IF NOT EXISTS collection_id uuid REFERENCES collections(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS credentials_collection_id_idx ON credentials(collection_id);
+
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE collection_keys ENABLE ROW LEVEL SECURITY;
+
+-- SECURITY DEFINER so membership policies can look up membership without
+-- recursing into their own RLS
+CREATE OR REPLACE FUNCTION organization_role(target_organization_id uuid)
+RETURNS text AS $$
+  SELECT role FROM public.organization_members
+  WHERE organization_id = target_organization_id
+    AND user_id = auth.uid();
+$$ language 'sql' STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION collection_role(target_collection_id uuid)
+RETURNS text AS $$
+  SELECT member.role
+  FROM public.collection_keys collection_key
+  JOIN public.organization_members member ON member.id = collection_key.member_id
+  WHERE collection_key.collection_id = target_collection_id
+    AND collection_key.user_id = auth.uid();
+$$ language 'sql' STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Members can read their organizations"
+  ON organizations
+  FOR SELECT
+  TO authenticated
+  USING (organization_role(id) IS NOT NULL);
+
+CREATE POLICY "Owners can rename organizations"
+  ON organizations
+  FOR UPDATE
+  TO authenticated
+  USING (organization_role(id) = 'owner')
+  WITH CHECK (organization_role(id) = 'owner');
+
+CREATE POLICY "Owners can delete organizations"
+  ON organizations
+  FOR DELETE
+  TO authenticated
+  USING (organization_role(id) = 'owner');
+
+CREATE POLICY "Members can read fellow members"
+  ON organization_members
+  FOR SELECT
+  TO authenticated
+  USING (organization_role(organization_id) IS NOT NULL);
+
+CREATE POLICY "Members can read collections"
+  ON collections
+  FOR SELECT
+  TO authenticated
+  USING (organization_role(organization_id) IS NOT NULL);
+
+CREATE POLICY "Admins can rename collections"
+  ON collections
+  FOR UPDATE
+  TO authenticated
+  USING (organization_role(organization_id) IN ('owner', 'admin'))
+  WITH CHECK (organization_role(organization_id) IN ('owner', 'admin'));
+
+CREATE POLICY "Admins can delete collections"
+  ON collections
+  FOR DELETE
+  TO authenticated
+  USING (organization_role(organization_id) IN ('owner', 'admin'));
+
+CREATE POLICY "Users can read own collection keys"
+  ON collection_keys
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can read own credentials" ON credentials;
+DROP POLICY IF EXISTS "Users can insert own credentials" ON credentials;
+DROP POLICY IF EXISTS "Users can update own credentials" ON credentials;
+DROP POLICY IF EXISTS "Users can delete own credentials" ON credentials;
+DROP POLICY IF EXISTS "Emergency contacts can read granted credentials" ON credentials;
+
+CREATE POLICY "Users can read own credentials"
+  ON credentials
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() AND collection_id IS NULL);
+
+CREATE POLICY "Users can insert own credentials"
+  ON credentials
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid() AND collection_id IS NULL);
+
+CREATE POLICY "Users can update own credentials"
+  ON credentials
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid() AND collection_id IS NULL)
+  WITH CHECK (user_id = auth.uid() AND collection_id IS NULL);
+
+CREATE POLICY "Users can delete own credentials"
+  ON credentials
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid() AND collection_id IS NULL);
+
+CREATE POLICY "Emergency contacts can read granted credentials"
+  ON credentials
+  FOR SELECT
+  TO authenticated
+  USING (collection_id IS NULL AND has_emergency_access(user_id));
+
+CREATE POLICY "Members can read collection credentials"
+  ON credentials
+  FOR SELECT
+  TO authenticated
+  USING (collection_id IS NOT NULL AND collection_role(collection_id) IS NOT NULL);
+
+CREATE POLICY "Members can add collection credentials"
+  ON credentials
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND collection_id IS NOT NULL
+    AND collection_role(collection_id) IN ('owner', 'admin', 'member')
+  );
+
+CREATE POLICY "Members can update collection credentials"
+  ON credentials
+  FOR UPDATE
+  TO authenticated
+  USING (collection_id IS NOT NULL AND collection_role(collection_id) IN ('owner', 'admin', 'member'))
+  WITH CHECK (collection_id IS NOT NULL AND collection_role(collection_id) IN ('owner', 'admin', 'member'));
+
+CREATE POLICY "Members can delete collection credentials"
+  ON credentials
+  FOR DELETE
+  TO authenticated
+  USING (collection_id IS NOT NULL AND collection_role(collection_id) IN ('owner', 'admin', 'member'));
+
+CREATE OR REPLACE FUNCTION protect_collection_credential()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.collection_id IS NOT NULL AND (
+    NEW.collection_id IS DISTINCT FROM OLD.collection_id
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.encrypted_item_key IS DISTINCT FROM OLD.encrypted_item_key
+  ) THEN
+    RAISE EXCEPTION 'Organization items cannot be moved or reassigned';
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS protect_collection_credentials ON credentials;
+CREATE TRIGGER protect_collection_credentials
+  BEFORE UPDATE ON credentials
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_collection_credential();
+
+CREATE OR REPLACE FUNCTION create_organization(
+  org_name text,
+  collection_encrypted_name text,
+  owner_encrypted_key text
+)
+RETURNS uuid AS $$
+DECLARE
+  new_organization_id uuid;
+  new_member_id uuid;
+  new_collection_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.organizations (name)
+  VALUES (trim(org_name))
+  RETURNING id INTO new_organization_id;
+
+  INSERT INTO public.organization_members (organization_id, user_id, email, role)
+  VALUES (new_organization_id, auth.uid(), auth.jwt() ->> 'email', 'owner')
+  RETURNING id INTO new_member_id;
+
+  INSERT INTO public.collections (organization_id, encrypted_name)
+  VALUES (new_organization_id, collection_encrypted_name)
+  RETURNING id INTO new_collection_id;
+
+  INSERT INTO public.collection_keys (collection_id, member_id, user_id, encrypted_key)
+  VALUES (new_collection_id, new_member_id, auth.uid(), owner_encrypted_key);
+
+  RETURN new_organization_id;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+-- member_keys: [{ "collection_id": uuid, "encrypted_key": text }, ...]
+CREATE OR REPLACE FUNCTION add_organization_member(
+  target_organization_id uuid,
+  member_user_id uuid,
+  member_role text,
+  member_keys jsonb
+)
+RETURNS void AS $$
+DECLARE
+  caller_role text := public.organization_role(target_organization_id);
+  new_member_id uuid;
+BEGIN
+  IF caller_role IS NULL OR caller_role NOT IN ('owner', 'admin') THEN
+    RAISE EXCEPTION 'Only owners and admins can add members';
+  END IF;
+
+  IF member_role = 'owner' AND caller_role <> 'owner' THEN
+    RAISE EXCEPTION 'Only owners can add owners';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = target_organization_id AND user_id = member_user_id
+  ) THEN
+    RAISE EXCEPTION 'That user is already a member';
+  END IF;
+
+  INSERT INTO public.organization_members (organization_id, user_id, email, role)
+  SELECT target_organization_id, account.id, account.email, member_role
+  FROM auth.users account
+  WHERE account.id = member_user_id
+  RETURNING id INTO new_member_id;
+
+  IF new_member_id IS NULL THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  INSERT INTO public.collection_keys (collection_id, member_id, user_id, encrypted_key)
+  SELECT (member_key->>'collection_id')::uuid, new_member_id, member_user_id, member_key->>'encrypted_key'
+  FROM jsonb_array_elements(member_keys) member_key
+  JOIN public.collections collection ON collection.id = (member_key->>'collection_id')::uuid
+  WHERE collection.organization_id = target_organization_id;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION update_organization_member_role(target_member_id uuid, new_role text)
+RETURNS void AS $$
+DECLARE
+  target public.organization_members;
+  caller_role text;
+BEGIN
+  SELECT * INTO target FROM public.organization_members WHERE id = target_member_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Member not found';
+  END IF;
+
+  caller_role := public.organization_role(target.organization_id);
+  IF caller_role IS NULL OR caller_role NOT IN ('owner', 'admin') THEN
+    RAISE EXCEPTION 'Only owners and admins can change roles';
+  END IF;
+
+  IF caller_role <> 'owner' AND (target.role = 'owner' OR new_role = 'owner') THEN
+    RAISE EXCEPTION 'Only owners can change an owner role';
+  END IF;
+
+  IF target.role = 'owner' AND new_role <> 'owner' AND NOT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = target.organization_id AND role = 'owner' AND id <> target.id
+  ) THEN
+    RAISE EXCEPTION 'An organization needs at least one owner';
+  END IF;
+
+  UPDATE public.organization_members SET role = new_role WHERE id = target.id;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+-- rotated_collections: [{ "collection_id": uuid, "encrypted_name": text,
+--   "member_keys": [{ "user_id": uuid, "encrypted_key": text }, ...],
+--   "credentials": [{ "id": uuid, "encrypted_data": text, "updated_at": timestamptz }, ...] }, ...]
+CREATE OR REPLACE FUNCTION remove_organization_member(target_member_id uuid, rotated_collections jsonb)
+RETURNS void AS $$
+DECLARE
+  target public.organization_members;
+  caller_role text;
+  rotated jsonb;
+  rotated_collection_id uuid;
+  expected_count integer;
+  updated_count integer;
+BEGIN
+  SELECT * INTO target FROM public.organization_members WHERE id = target_member_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Member not found';
+  END IF;
+
+  caller_role := public.organization_role(target.organization_id);
+  IF target.user_id <> auth.uid() THEN
+    IF caller_role IS NULL OR caller_role NOT IN ('owner', 'admin') THEN
+      RAISE EXCEPTION 'Only owners and admins can remove members';
+    END IF;
+    IF target.role = 'owner' AND caller_role <> 'owner' THEN
+      RAISE EXCEPTION 'Only owners can remove an owner';
+    END IF;
+  END IF;
+
+  IF target.role = 'owner' AND NOT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = target.organization_id AND role = 'owner' AND id <> target.id
+  ) THEN
+    RAISE EXCEPTION 'An organization needs at least one owner';
+  END IF;
+
+  -- Their collection keys go with the membership row
+  DELETE FROM public.organization_members WHERE id = target.id;
+
+  -- A member leaving on their own already holds the current keys, so a
+  -- rotation they prepared would protect nothing
+  IF target.user_id = auth.uid() THEN
+    RETURN;
+  END IF;
+
+  SELECT count(*) INTO expected_count
+  FROM public.collections
+  WHERE organization_id = target.organization_id;
+
+  IF jsonb_array_length(rotated_collections) <> expected_count OR EXISTS (
+    SELECT 1 FROM public.collections collection
+    WHERE collection.organization_id = target.organization_id
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements(rotated_collections) entry
+        WHERE (entry->>'collection_id')::uuid = collection.id
+      )
+  ) THEN
+    RAISE EXCEPTION 'Organization changed during key rotation, please try again';
+  END IF;
+
+  FOR rotated IN SELECT * FROM jsonb_array_elements(rotated_collections)
+  LOOP
+    rotated_collection_id := (rotated->>'collection_id')::uuid;
+
+    SELECT count(*) INTO expected_count
+    FROM public.credentials
+    WHERE collection_id = rotated_collection_id;
+
+    IF jsonb_array_length(rotated->'credentials') <> expected_count THEN
+      RAISE EXCEPTION 'Organization changed during key rotation, please try again';
+    END IF;
+
+    UPDATE public.credentials AS c
+    SET encrypted_data = r.encrypted_data
+    FROM jsonb_to_recordset(rotated->'credentials')
+      AS r(id uuid, encrypted_data text, updated_at timestamptz)
+    WHERE c.id = r.id
+      AND c.collection_id = rotated_collection_id
+      AND c.updated_at = r.updated_at;
+
+    GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+    IF updated_count <> expected_count THEN
+      RAISE EXCEPTION 'Organization changed during key rotation, please try again';
+    END IF;
+
+    UPDATE public.collections
+    SET encrypted_name = rotated->>'encrypted_name'
+    WHERE id = rotated_collection_id;
+
+    DELETE FROM public.collection_keys WHERE collection_id = rotated_collection_id;
+
+    INSERT INTO public.collection_keys (collection_id, member_id, user_id, encrypted_key)
+    SELECT rotated_collection_id, member.id, member.user_id, member_key->>'encrypted_key'
+    FROM jsonb_array_elements(rotated->'member_keys') member_key
+    JOIN public.organization_members member
+      ON member.user_id = (member_key->>'user_id')::uuid
+     AND member.organization_id = target.organization_id;
+
+    -- A member added meanwhile would otherwise be left without a key
+    IF (SELECT count(*) FROM public.collection_keys WHERE collection_id = rotated_collection_id) <> (
+      SELECT count(*) FROM public.organization_members WHERE organization_id = target.organization_id
+    ) THEN
+      RAISE EXCEPTION 'Organization changed during key rotation, please try again';
+    END IF;
+  END LOOP;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+-- member_keys: [{ "user_id": uuid, "encrypted_key": text }, ...]
+CREATE OR REPLACE FUNCTION create_collection(
+  target_organization_id uuid,
+  collection_encrypted_name text,
+  member_keys jsonb
+)
+RETURNS uuid AS $$
+DECLARE
+  new_collection_id uuid;
+BEGIN
+  IF public.organization_role(target_organization_id) IS NULL
+    OR public.organization_role(target_organization_id) NOT IN ('owner', 'admin') THEN
+    RAISE EXCEPTION 'Only owners and admins can create collections';
+  END IF;
+
+  INSERT INTO public.collections (organization_id, encrypted_name)
+  VALUES (target_organization_id, collection_encrypted_name)
+  RETURNING id INTO new_collection_id;
+
+  INSERT INTO public.collection_keys (collection_id, member_id, user_id, encrypted_key)
+  SELECT new_collection_id, member.id, member.user_id, member_key->>'encrypted_key'
+  FROM jsonb_array_elements(member_keys) member_key
+  JOIN public.organization_members member
+    ON member.user_id = (member_key->>'user_id')::uuid
+   AND member.organization_id = target_organization_id;
+
+  RETURN new_collection_id;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION organization_role(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION collection_role(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_organization(text, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION add_organization_member(uuid, uuid, text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_organization_member_role(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION remove_organization_member(uuid, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_collection(uuid, text, jsonb) TO authenticated;
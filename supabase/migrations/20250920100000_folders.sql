@@ -0,0 +1,71 @@
+/*
+  # Folders
+
+  1. New Tables
+    - `folders`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references user_profiles)
+      - `parent_id` (uuid, nullable, references folders) - null for
+        top-level folders
+      - `encrypted_name` (text) - encrypted with the owner's vault key
+      - `created_at` (timestamptz)
+
+  2. Schema Updates
+    - `credentials.folder_id` (uuid, nullable, references folders)
+      - Only personal items are filed in folders. Deleting a folder deletes
+        its subfolders and leaves their items unfiled
+
+  3. Security
+    - Users can only read and change their own folders
+    - A folder's parent and an item's folder must belong to the same user,
+      enforced by foreign keys on (id, user_id)
+*/
+
+CREATE TABLE IF NOT EXISTS folders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  parent_id uuid,
+  encrypted_name text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (id, user_id),
+  CHECK (parent_id IS DISTINCT FROM id),
+  FOREIGN KEY (parent_id, user_id) REFERENCES folders(id, user_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS folders_user_id_idx ON folders(user_id);
+
+ALTER TABLE credentials
+  ADD COLUMN IF NOT EXISTS folder_id uuid,
+  ADD CONSTRAINT credentials_folder_fkey
+    FOREIGN KEY (folder_id, user_id) REFERENCES folders(id, user_id) ON DELETE SET NULL (folder_id),
+  ADD CONSTRAINT credentials_folder_personal_check
+    CHECK (folder_id IS NULL OR collection_id IS NULL);
+
+CREATE INDEX IF NOT EXISTS credentials_folder_id_idx ON credentials(folder_id);
+
+ALTER TABLE folders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own folders"
+  ON folders
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own folders"
+  ON folders
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own folders"
+  ON folders
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own folders"
+  ON folders
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
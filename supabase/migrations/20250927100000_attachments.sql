@@ -0,0 +1,196 @@
+/*
+  # Encrypted file attachments
+
+  1. New Tables
+    - `attachments`
+      - `id` (uuid, primary key)
+      - `credential_id` (uuid, references credentials)
+      - `user_id` (uuid, references user_profiles) - who uploaded the file;
+        it counts against their quota
+      - `size` (bigint) - plaintext size in bytes, at most 25 MiB
+      - `chunk_count` (integer) - one 1 MiB chunk per started MiB, at least one
+      - `created_at` (timestamptz)
+    - The file name, type and key live only in the item's encrypted payload
+
+  2. Storage
+    - Private `attachments` bucket. Each chunk is stored as
+      `<user_id>/<attachment_id>/<index>`, encrypted client-side with the
+      file's own key, so an object is at most 1 MiB plus the IV and tag
+
+  3. New Functions
+    - `attachment_bytes_used()` - the caller's total attachment size
+    - `create_attachment(target_credential_id, attachment_size)` - adds an
+      attachment row for an item the caller can edit, holding a per-user
+      lock while it checks the 100 MiB quota so concurrent uploads cannot
+      exceed it together
+    - `can_edit_credential(target_credential_id)` - owner of a personal item,
+      editor of a shared one, or an organization member who can edit
+    - `can_manage_attachment(target_attachment_id)` - anyone who can edit
+      the item
+    - `attachment_chunk_allowed(object_name)` - the object path belongs to
+      one of the caller's attachments on an item they can still edit, and
+      its index is within chunk_count
+
+  4. Security
+    - Anyone who can read an item can read its attachments and their chunks.
+      Access follows the item only, so an uploader who loses access to the
+      item loses access to its files too
+    - Users who can edit an item can attach files through
+      `create_attachment` while their total stays within the 100 MiB quota
+    - Deleting an item deletes its attachment rows; the client removes the
+      chunks from storage first
+*/
+
+CREATE TABLE IF NOT EXISTS attachments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  credential_id uuid NOT NULL REFERENCES credentials(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  size bigint NOT NULL CHECK (size >= 0 AND size <= 26214400),
+  chunk_count integer NOT NULL CHECK (chunk_count = greatest(1, ceil(size / 1048576.0)::integer)),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS attachments_credential_id_idx ON attachments(credential_id);
+CREATE INDEX IF NOT EXISTS attachments_user_id_idx ON attachments(user_id);
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('attachments', 'attachments', false, 1048604)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION attachment_bytes_used()
+RETURNS bigint AS $$
+  SELECT COALESCE(sum(size), 0)::bigint FROM public.attachments WHERE user_id = auth.uid();
+$$ language 'sql' STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION can_edit_credential(target_credential_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.credentials credential
+    WHERE credential.id = target_credential_id
+      AND (
+        (credential.collection_id IS NULL AND credential.user_id = auth.uid())
+        OR collection_role(credential.collection_id) IN ('owner', 'admin', 'member')
+        OR EXISTS (
+          SELECT 1 FROM public.shared_credentials share
+          WHERE share.credential_id = credential.id
+            AND share.owner_id = credential.user_id
+            AND share.recipient_id = auth.uid()
+            AND share.can_edit
+        )
+      )
+  );
+$$ language 'sql' STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION create_attachment(target_credential_id uuid, attachment_size bigint)
+RETURNS public.attachments AS $$
+DECLARE
+  created public.attachments;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT can_edit_credential(target_credential_id) THEN
+    RAISE EXCEPTION 'You do not have permission to edit this credential';
+  END IF;
+
+  -- Serializes this user's uploads until the transaction ends, so the sum
+  -- below already includes any attachment created just before
+  PERFORM pg_advisory_xact_lock(hashtextextended(auth.uid()::text, 0));
+
+  IF attachment_bytes_used() + attachment_size > 104857600 THEN
+    RAISE EXCEPTION 'This would exceed your 100 MB of attachment storage';
+  END IF;
+
+  INSERT INTO public.attachments (credential_id, user_id, size, chunk_count)
+  VALUES (
+    target_credential_id,
+    auth.uid(),
+    attachment_size,
+    greatest(1, ceil(attachment_size / 1048576.0)::integer)
+  )
+  RETURNING * INTO created;
+
+  RETURN created;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION can_manage_attachment(target_attachment_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.attachments attachment
+    WHERE attachment.id = target_attachment_id
+      AND can_edit_credential(attachment.credential_id)
+  );
+$$ language 'sql' STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION attachment_chunk_allowed(object_name text)
+RETURNS boolean AS $$
+DECLARE
+  parts text[] := string_to_array(object_name, '/');
+BEGIN
+  IF array_length(parts, 1) <> 3
+     OR parts[1] <> auth.uid()::text
+     OR parts[2] !~ '^[0-9a-f-]{36}$'
+     OR parts[3] !~ '^[0-9]{1,6}$' THEN
+    RETURN false;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM attachments
+    WHERE id = parts[2]::uuid
+      AND user_id = auth.uid()
+      AND parts[3]::integer < chunk_count
+      AND can_edit_credential(credential_id)
+  );
+END;
+$$ language 'plpgsql' STABLE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE attachments ENABLE ROW LEVEL SECURITY;
+
+-- Credential policies decide who can see the item
+CREATE POLICY "Users can read attachments of readable items"
+  ON attachments
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM credentials WHERE credentials.id = attachments.credential_id));
+
+CREATE POLICY "Editors can delete attachments"
+  ON attachments
+  FOR DELETE
+  TO authenticated
+  USING (can_manage_attachment(id));
+
+CREATE POLICY "Users can read chunks of readable attachments"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'attachments'
+    AND EXISTS (
+      SELECT 1 FROM attachments
+      WHERE attachments.id::text = (storage.foldername(objects.name))[2]
+    )
+  );
+
+CREATE POLICY "Uploaders can write chunks of their attachments"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'attachments' AND attachment_chunk_allowed(name));
+
+CREATE POLICY "Editors can delete chunks"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'attachments'
+    AND EXISTS (
+      SELECT 1 FROM attachments
+      WHERE attachments.id::text = (storage.foldername(objects.name))[2]
+        AND can_manage_attachment(attachments.id)
+    )
+  );
+
+GRANT EXECUTE ON FUNCTION attachment_bytes_used() TO authenticated;
+GRANT EXECUTE ON FUNCTION create_attachment(uuid, bigint) TO authenticated;